@@ -8,6 +8,10 @@ import Index from "./pages/Index";
 import Login from "./pages/Login";
 import DashboardSolicitante from "./pages/DashboardSolicitante";
 import DashboardGestora from "./pages/DashboardGestora";
+import AdminUsers from "./pages/AdminUsers";
+import AdminPolicies from "./pages/AdminPolicies";
+import AdminBenefitTypes from "./pages/AdminBenefitTypes";
+import AdminPolos from "./pages/AdminPolos";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +28,10 @@ const App = () => (
             <Route path="/login" element={<Login />} />
             <Route path="/dashboard-solicitante" element={<DashboardSolicitante />} />
             <Route path="/dashboard-gestora" element={<DashboardGestora />} />
+            <Route path="/admin/usuarios" element={<AdminUsers />} />
+            <Route path="/admin/politicas" element={<AdminPolicies />} />
+            <Route path="/admin/beneficios" element={<AdminBenefitTypes />} />
+            <Route path="/admin/polos" element={<AdminPolos />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Request } from '@/hooks/useRequests';
+import { useDocuments, attachedBytes, validateSelectedFiles, isInvoiceXml, documentCategoryLabels, DocumentCategory, PendingDocument } from '@/hooks/useDocuments';
+import { compressImages } from '@/lib/documentPreparation';
+import { appealDeadline, MIN_APPEAL_JUSTIFICATION_LENGTH, RequestAppeal } from '@shared/appeals';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Upload, X, Scale } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+interface AppealDialogProps {
+  request: Request | null;
+  onOpenChange: (open: boolean) => void;
+  submitAppeal: (requestId: string, justification: string) => Promise<RequestAppeal>;
+}
+
+export function AppealDialog({ request, onOpenChange, submitAppeal }: AppealDialogProps) {
+  const { toast } = useToast();
+  const { documents, uploadDocuments } = useDocuments(request?.id ?? null);
+  const [justification, setJustification] = useState('');
+  const [newFiles, setNewFiles] = useState<PendingDocument[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (request) {
+      setJustification('');
+      setNewFiles([]);
+    }
+  }, [request]);
+
+  // Os documentos do recurso somam com os já anexados no limite total da solicitação
+  const handleFilesSelected = async (files: File[]) => {
+    const { compressed, failed } = await compressImages(files);
+    const selectedBytes = newFiles.reduce((total, { file }) => total + file.size, 0);
+    const { accepted, rejected } = await validateSelectedFiles(compressed, attachedBytes(documents) + selectedBytes);
+
+    const problems = [
+      ...failed.map(file => `${file.name}: Não foi possível ler a imagem.`),
+      ...rejected.map(({ file, message }) => `${file.name}: ${message}`),
+    ];
+    if (problems.length > 0) {
+      toast({
+        title: 'Arquivos não aceitos',
+        description: problems.join(' '),
+        variant: 'destructive',
+      });
+    }
+
+    setNewFiles(prev => [
+      ...prev,
+      ...accepted.map(file => ({ file, category: (isInvoiceXml(file) ? 'nota_fiscal' : 'comprovante') as DocumentCategory })),
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    if (!request) return;
+
+    if (justification.trim().length < MIN_APPEAL_JUSTIFICATION_LENGTH) {
+      toast({
+        title: 'Justificativa muito curta',
+        description: `Explique o motivo do recurso com pelo menos ${MIN_APPEAL_JUSTIFICATION_LENGTH} caracteres.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    let appeal: RequestAppeal | null = null;
+    try {
+      appeal = await submitAppeal(request.id, justification);
+      // O upload só é aceito enquanto o recurso está em análise, por isso vem depois do envio
+      await uploadDocuments(newFiles, request.id, appeal.id);
+      toast({
+        title: 'Recurso enviado',
+        description: 'Outra gestora ou o comitê vai analisar o recurso. Você será avisado por email.',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: appeal ? 'Recurso enviado, mas houve erro nos anexos' : 'Erro ao enviar recurso',
+        description: errorMessage(error, 'Não foi possível enviar o recurso.'),
+        variant: 'destructive',
+      });
+      if (appeal) {
+        onOpenChange(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recorrer da Decisão</DialogTitle>
+          <DialogDescription>
+            O recurso é analisado por outra gestora do polo ou pelo comitê. Só é possível recorrer uma vez.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            <div className="bg-destructive-light p-3 rounded-md border border-destructive/20">
+              <p className="text-sm font-medium text-destructive">Motivo da recusa:</p>
+              <p className="text-sm">{request.rejection_reason || 'Não informado'}</p>
+              {request.approved_at && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Prazo para recorrer: até {appealDeadline(request.approved_at, request.appeal_window_days).toLocaleDateString('pt-BR')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Justificativa</label>
+              <Textarea
+                className="min-h-[100px]"
+                placeholder="Explique por que a decisão deve ser revista..."
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Novos documentos (opcional)</label>
+              {newFiles.map(({ file, category }, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                  <div className="flex items-center gap-2">
+                    <Upload className="h-4 w-4" />
+                    <span className="text-sm">{file.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      ({(file.size / 1024 / 1024).toFixed(1)} MB)
+                    </span>
+                  </div>
+                  <Select
+                    value={category}
+                    onValueChange={(value: DocumentCategory) => {
+                      setNewFiles(prev => prev.map((item, i) => i === index ? { ...item, category: value } : item));
+                    }}
+                  >
+                    <SelectTrigger className="w-48 ml-auto">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(documentCategoryLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setNewFiles(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Input
+                type="file"
+                multiple
+                accept=".pdf,.jpg,.jpeg,.png,.webp,.xml"
+                onChange={(e) => {
+                  handleFilesSelected(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            <Scale className="w-4 h-4 mr-2" />
+            {submitting ? 'Enviando...' : 'Enviar Recurso'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,20 @@
+import type { BenefitType } from '@/hooks/useBenefitTypes';
+import { benefitTypeIcons } from '@/lib/benefitTypeIcons';
+import { HelpCircle } from 'lucide-react';
+
+interface BenefitTypeLabelProps {
+  code: string;
+  benefitType?: BenefitType;
+  className?: string;
+}
+
+export function BenefitTypeLabel({ code, benefitType, className }: BenefitTypeLabelProps) {
+  const Icon = benefitTypeIcons[benefitType?.icon ?? ''] ?? HelpCircle;
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className ?? ''}`}>
+      <Icon className="w-4 h-4" />
+      {benefitType?.label ?? code}
+    </span>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import {
+  useDocuments,
+  validateSelectedFiles,
+  attachedBytes,
+  dependentDocumentCategoryLabels,
+  DependentDocumentCategory,
+  RequestDocument,
+  ScanStatus,
+} from '@/hooks/useDocuments';
+import { ScanStatusBadge } from '@/components/RequestAttachments';
+import { compressImages } from '@/lib/documentPreparation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { File, Eye } from 'lucide-react';
+
+interface DependentDocumentsProps {
+  dependentId: string;
+  // O solicitante envia; a gestora só consulta
+  canUpload?: boolean;
+}
+
+export function DependentDocuments({ dependentId, canUpload = false }: DependentDocumentsProps) {
+  const { documents, loading, uploading, uploadDocuments, openDocument } = useDocuments(null, dependentId);
+  const { toast } = useToast();
+  const [category, setCategory] = useState<DependentDocumentCategory>('certidao');
+
+  const handleFilesSelected = async (files: File[]) => {
+    try {
+      const { compressed, failed } = await compressImages(files);
+      const { accepted, rejected } = await validateSelectedFiles(compressed, attachedBytes(documents));
+      const problems = [
+        ...failed.map(file => `${file.name}: Não foi possível ler a imagem.`),
+        ...rejected.map(({ file, message }) => `${file.name}: ${message}`),
+      ];
+      if (problems.length > 0) {
+        throw new Error(problems.join(' '));
+      }
+
+      await uploadDocuments(accepted.map(file => ({ file, category })));
+      toast({
+        title: "Documento enviado",
+        description: "O arquivo fica disponível para a gestora depois da verificação de segurança.",
+      });
+    } catch (error) {
+      console.error('Erro ao enviar documento do dependente:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao enviar o documento",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleView = async (document: RequestDocument) => {
+    try {
+      await openDocument(document);
+    } catch (error) {
+      console.error('Erro ao visualizar arquivo:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao abrir o arquivo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Carregando documentos...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nenhum documento comprobatório enviado.</p>
+      ) : (
+        documents.map((document) => (
+          <div key={document.id} className="flex items-center gap-2 text-xs">
+            <File className="h-3 w-3 text-primary" />
+            <span className="truncate">{document.file_name}</span>
+            <Badge variant="outline">
+              {dependentDocumentCategoryLabels[document.category as DependentDocumentCategory] ?? document.category}
+            </Badge>
+            <ScanStatusBadge status={document.scan_status as ScanStatus} />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="ml-auto"
+              onClick={() => handleView(document)}
+              disabled={document.scan_status !== 'clean'}
+            >
+              <Eye className="w-3 h-3" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      {canUpload && (
+        <div className="flex gap-2">
+          <Select value={category} onValueChange={(value: DependentDocumentCategory) => setCategory(value)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(dependentDocumentCategoryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="file"
+            accept=".pdf,.jpg,.jpeg,.png,.webp"
+            disabled={uploading}
+            onChange={(e) => {
+              handleFilesSelected(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
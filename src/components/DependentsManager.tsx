@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { useDependents, NewDependent } from '@/hooks/useDependents';
+import { DependentDocuments } from '@/components/DependentDocuments';
+import {
+  ageOn,
+  checkEligibility,
+  dependentIneligibilityMessages,
+  dependentRelationshipLabels,
+  formatCpf,
+  isValidCpf,
+  Dependent,
+  DependentRelationship,
+} from '@shared/dependents';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Users, Plus, Pencil, Trash2, Paperclip } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+const emptyForm = {
+  name: '',
+  cpf: '',
+  birthdate: '',
+  relationship: '' as DependentRelationship | '',
+  is_student: false,
+};
+
+export function DependentsManager() {
+  const { activeDependents, loading, saveDependent, setDependentActive } = useDependents();
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  // null: formulário fechado; '': novo dependente; id: edição
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [documentsId, setDocumentsId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('pt-BR');
+  };
+
+  const startEditing = (dependent?: Dependent) => {
+    setEditingId(dependent?.id ?? '');
+    setForm(dependent
+      ? {
+          name: dependent.name,
+          cpf: formatCpf(dependent.cpf),
+          birthdate: dependent.birthdate,
+          relationship: dependent.relationship,
+          is_student: dependent.is_student,
+        }
+      : emptyForm);
+  };
+
+  const handleSave = async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const problem = form.name.trim().length < 2
+      ? 'Informe o nome completo do dependente.'
+      : !isValidCpf(form.cpf)
+        ? 'CPF inválido. Confira os dígitos.'
+        : !form.birthdate || form.birthdate > today
+          ? 'Informe uma data de nascimento válida.'
+          : !form.relationship
+            ? 'Selecione o parentesco.'
+            : null;
+
+    if (problem) {
+      toast({
+        title: 'Dados do dependente',
+        description: problem,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const dependent: NewDependent = {
+      name: form.name,
+      cpf: form.cpf,
+      birthdate: form.birthdate,
+      relationship: form.relationship as DependentRelationship,
+      is_student: form.is_student,
+    };
+
+    setSaving(true);
+    try {
+      await saveDependent(dependent, editingId || undefined);
+      setEditingId(null);
+      setForm(emptyForm);
+      toast({
+        title: 'Dependente salvo',
+        description: `${dependent.name.trim()} já pode ser selecionado nas solicitações.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar dependente',
+        description: errorMessage(error, 'Não foi possível salvar o dependente.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependent: Dependent) => {
+    try {
+      await setDependentActive(dependent.id, false);
+      toast({
+        title: 'Dependente removido',
+        description: 'Solicitações já enviadas continuam com o dependente.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover dependente',
+        description: errorMessage(error, 'Não foi possível remover o dependente.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full bg-card/50 backdrop-blur-sm border-primary/20">
+      <CardHeader className="space-y-1">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl text-primary flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Meus Dependentes
+          </CardTitle>
+          {editingId === null && (
+            <Button type="button" variant="outline" size="sm" onClick={() => startEditing()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Cadastrar
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Dependentes cadastrados aparecem para seleção no formulário de solicitação
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editingId !== null && (
+          <div className="bg-gradient-subtle p-4 rounded-lg border border-primary/20 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Nome completo</label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">CPF</label>
+                <Input
+                  placeholder="000.000.000-00"
+                  value={form.cpf}
+                  onChange={(e) => setForm({ ...form, cpf: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Data de nascimento</label>
+                <Input
+                  type="date"
+                  value={form.birthdate}
+                  onChange={(e) => setForm({ ...form, birthdate: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Parentesco</label>
+                <Select
+                  value={form.relationship}
+                  onValueChange={(value: DependentRelationship) => setForm({ ...form, relationship: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(dependentRelationshipLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.is_student}
+                onCheckedChange={(checked) => setForm({ ...form, is_student: checked === true })}
+              />
+              Estudante (ensino médio, técnico ou superior)
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                Cancelar
+              </Button>
+              <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Carregando dependentes...</p>
+        ) : activeDependents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum dependente cadastrado.</p>
+        ) : (
+          <div className="space-y-3">
+            {activeDependents.map((dependent) => {
+              const ineligibility = checkEligibility(dependent, new Date());
+
+              return (
+                <div key={dependent.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-sm">{dependent.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {dependentRelationshipLabels[dependent.relationship]} • CPF {formatCpf(dependent.cpf)} •{' '}
+                        {formatDate(dependent.birthdate)} ({ageOn(dependent.birthdate, new Date())} anos)
+                      </p>
+                      <div className="flex gap-1 mt-1">
+                        {dependent.is_student && <Badge variant="outline">Estudante</Badge>}
+                        {ineligibility && (
+                          <Badge variant="secondary" className="bg-warning-light text-warning">
+                            {dependentIneligibilityMessages[ineligibility]}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDocumentsId(documentsId === dependent.id ? null : dependent.id)}
+                      >
+                        <Paperclip className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => startEditing(dependent)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleRemove(dependent)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {documentsId === dependent.id && <DependentDocuments dependentId={dependent.id} canUpload />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
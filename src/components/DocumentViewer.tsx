@@ -0,0 +1,322 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { loadPdfjs, PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask } from '@/lib/pdfjs';
+import { useDocuments, documentCategoryLabels, DocumentCategory, RequestDocument } from '@/hooks/useDocuments';
+import { InvoiceSummary, ReceiptOcrSummary } from '@/components/RequestAttachments';
+import type { InvoiceData } from '@shared/invoiceXml';
+import type { ReceiptOcrData } from '@/lib/receiptOcr';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Image as ImageIcon,
+  RotateCw,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+const isPdf = (document: RequestDocument) =>
+  document.mime_type === 'application/pdf' || document.file_name.toLowerCase().endsWith('.pdf');
+
+const isImage = (document: RequestDocument) => !!document.mime_type?.startsWith('image/');
+
+interface PdfPageProps {
+  url: string;
+  pageNumber: number;
+  zoom: number;
+  rotation: number;
+  onLoad: (pageCount: number) => void;
+  onError: (error: Error) => void;
+}
+
+// Renderiza uma página por vez em canvas; o PDF é baixado uma vez por URL
+function PdfPage({ url, pageNumber, zoom, rotation, onLoad, onError }: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  // Os callbacks mudam a cada render do pai; o PDF só é recarregado quando a URL muda
+  const callbacksRef = useRef({ onLoad, onError });
+  callbacksRef.current = { onLoad, onError };
+
+  useEffect(() => {
+    let loadingTask: PDFDocumentLoadingTask | null = null;
+    let loaded: PDFDocumentProxy | null = null;
+    let cancelled = false;
+
+    loadPdfjs()
+      .then(({ getDocument }) => {
+        if (cancelled) return;
+        loadingTask = getDocument(url);
+        return loadingTask.promise.then((document) => {
+          loaded = document;
+          setPdf(document);
+          callbacksRef.current.onLoad(document.numPages);
+        });
+      })
+      .catch((error) => {
+        if (!cancelled) callbacksRef.current.onError(error);
+      });
+
+    return () => {
+      cancelled = true;
+      setPdf(null);
+      if (loaded) {
+        loaded.destroy();
+      } else {
+        loadingTask?.destroy();
+      }
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(pageNumber).then((page) => {
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale: zoom * 1.5, rotation: (page.rotate + rotation) % 360 });
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext: context, viewport });
+      renderTask.promise.catch((error) => {
+        if (error?.name !== 'RenderingCancelledException') callbacksRef.current.onError(error);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, zoom, rotation]);
+
+  if (!pdf) {
+    return <p className="text-sm text-muted-foreground">Carregando PDF...</p>;
+  }
+
+  return <canvas ref={canvasRef} className="max-w-none shadow" style={{ width: 'auto', height: 'auto' }} />;
+}
+
+interface DocumentViewerProps {
+  requestId: string;
+  initialDocumentId?: string;
+  // Campos da solicitação exibidos ao lado do documento para conferência
+  aside?: ReactNode;
+  // Valor da solicitação, comparado com a leitura automática do comprovante
+  expectedAmount?: number;
+  onClose: () => void;
+}
+
+export function DocumentViewer({ requestId, initialDocumentId, aside, expectedAmount, onClose }: DocumentViewerProps) {
+  const { documents, loading, getViewUrl, downloadDocument } = useDocuments(requestId);
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(initialDocumentId ?? null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+
+  // Só arquivos verificados pelo antivírus podem ser abertos
+  const available = documents.filter(document => document.scan_status === 'clean');
+  const selected = available.find(document => document.id === selectedId) ?? available[0];
+
+  useEffect(() => {
+    if (!selected) return;
+
+    let cancelled = false;
+    setUrl(null);
+    setZoom(1);
+    setRotation(0);
+    setPageNumber(1);
+    setPageCount(0);
+
+    getViewUrl(selected)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch((error) => {
+        console.error('Erro ao carregar arquivo:', error);
+        toast({
+          title: 'Erro',
+          description: error instanceof Error ? error.message : 'Erro ao abrir o arquivo',
+          variant: 'destructive',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, getViewUrl, toast]);
+
+  const handleDownload = async () => {
+    if (!selected) return;
+    try {
+      await downloadDocument(selected);
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: error instanceof Error ? error.message : 'Erro ao baixar o arquivo',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePdfError = (error: Error) => {
+    console.error('Erro ao renderizar PDF:', error);
+    toast({
+      title: 'Erro',
+      description: 'Não foi possível exibir o PDF. Tente baixar o arquivo.',
+      variant: 'destructive',
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="outline" size="sm" onClick={onClose}>
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Voltar aos detalhes
+      </Button>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando anexos...</p>
+      ) : available.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum anexo verificado disponível para visualização.</p>
+      ) : (
+        <div className="grid lg:grid-cols-[1fr_280px] gap-4">
+          <div className="space-y-3 min-w-0">
+            {/* Miniaturas */}
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {available.map((document) => (
+                <button
+                  key={document.id}
+                  type="button"
+                  onClick={() => setSelectedId(document.id)}
+                  className={cn(
+                    'flex flex-col items-center gap-1 w-24 shrink-0 p-2 rounded-md border text-xs',
+                    document.id === selected?.id ? 'border-primary bg-primary/5' : 'bg-muted'
+                  )}
+                >
+                  {isPdf(document) ? (
+                    <FileText className="h-6 w-6 text-primary" />
+                  ) : (
+                    <ImageIcon className="h-6 w-6 text-primary" />
+                  )}
+                  <span className="truncate w-full text-center">{document.file_name}</span>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">
+                    {documentCategoryLabels[selected.category as DocumentCategory] ?? selected.category}
+                  </Badge>
+                  <div className="flex items-center gap-1 ml-auto">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - ZOOM_STEP))}
+                      disabled={zoom <= MIN_ZOOM}
+                    >
+                      <ZoomOut className="w-4 h-4" />
+                    </Button>
+                    <span className="text-xs w-12 text-center">{Math.round(zoom * 100)}%</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + ZOOM_STEP))}
+                      disabled={zoom >= MAX_ZOOM}
+                    >
+                      <ZoomIn className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRotation((rotation + 90) % 360)}>
+                      <RotateCw className="w-4 h-4" />
+                    </Button>
+                    {isPdf(selected) && pageCount > 0 && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPageNumber(pageNumber - 1)}
+                          disabled={pageNumber <= 1}
+                        >
+                          <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <span className="text-xs">
+                          Página {pageNumber} de {pageCount}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPageNumber(pageNumber + 1)}
+                          disabled={pageNumber >= pageCount}
+                        >
+                          <ChevronRight className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                    <Button size="sm" variant="outline" onClick={handleDownload}>
+                      <Download className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {selected.ocr_data && !selected.invoice_data && (
+                  <ReceiptOcrSummary ocr={selected.ocr_data as unknown as ReceiptOcrData} expectedAmount={expectedAmount} />
+                )}
+
+                <div className="h-[60vh] overflow-auto bg-muted rounded-md p-4 flex items-start justify-center">
+                  {!url ? (
+                    <p className="text-sm text-muted-foreground">Carregando arquivo...</p>
+                  ) : isPdf(selected) ? (
+                    <PdfPage
+                      url={url}
+                      pageNumber={pageNumber}
+                      zoom={zoom}
+                      rotation={rotation}
+                      onLoad={setPageCount}
+                      onError={handlePdfError}
+                    />
+                  ) : selected.invoice_data ? (
+                    <div className="bg-background rounded-md p-4 w-full max-w-lg">
+                      <InvoiceSummary invoice={selected.invoice_data as unknown as InvoiceData} />
+                    </div>
+                  ) : isImage(selected) ? (
+                    <img
+                      src={url}
+                      alt={selected.file_name}
+                      className="max-w-full transition-transform"
+                      style={{ transform: `scale(${zoom}) rotate(${rotation}deg)` }}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Pré-visualização indisponível para este formato. Use o botão de download.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {aside && <div className="space-y-3 text-sm">{aside}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Request, PaymentRecord, PaymentBatchResult, getApprovedAmount } from '@/hooks/useRequests';
+import type { BenefitType } from '@/hooks/useBenefitTypes';
+import { canTransitionPayment, paymentMethodLabels, paymentStatusLabels, PaymentStatus } from '@shared/payments';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Wallet } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+interface PaymentBatchPanelProps {
+  // Solicitações aprovadas (já filtradas pelo polo selecionado)
+  requests: Request[];
+  recordPayments: (requestIds: string[], payment: PaymentRecord) => Promise<PaymentBatchResult>;
+  getBenefitType: (code: string) => BenefitType | undefined;
+}
+
+const NONE = 'none';
+
+const actionLabels: Record<PaymentStatus, string> = {
+  scheduled: 'Agendar pagamento',
+  paid: 'Marcar como pago',
+  reversed: 'Estornar',
+};
+
+export function PaymentStatusBadge({ status }: { status?: PaymentStatus | null }) {
+  switch (status) {
+    case 'scheduled':
+      return <Badge variant="secondary" className="bg-pending-light text-pending">{paymentStatusLabels.scheduled}</Badge>;
+    case 'paid':
+      return <Badge variant="secondary" className="bg-success-light text-success">{paymentStatusLabels.paid}</Badge>;
+    case 'reversed':
+      return <Badge variant="secondary" className="bg-destructive-light text-destructive">{paymentStatusLabels.reversed}</Badge>;
+    default:
+      return <Badge variant="outline">Aguardando pagamento</Badge>;
+  }
+}
+
+export function PaymentBatchPanel({ requests, recordPayments, getBenefitType }: PaymentBatchPanelProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<string>(NONE);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [action, setAction] = useState<PaymentStatus>('scheduled');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('folha');
+  const [payrollReference, setPayrollReference] = useState('');
+  const [reversalReason, setReversalReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  };
+
+  const visibleRequests = requests.filter(r =>
+    filter === 'todos' || (r.payment_status ?? NONE) === filter
+  );
+  const eligibleIds = visibleRequests
+    .filter(r => canTransitionPayment(r.payment_status, action))
+    .map(r => r.id);
+  const selectedEligible = selectedIds.filter(id => eligibleIds.includes(id));
+
+  const toggleRequest = (requestId: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, requestId] : selectedIds.filter(id => id !== requestId));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? eligibleIds : []);
+  };
+
+  const handleRecord = async () => {
+    if (action === 'reversed' ? !reversalReason.trim() : !paymentDate) {
+      toast({
+        title: 'Dados incompletos',
+        description: action === 'reversed' ? 'Informe o motivo do estorno.' : 'Informe a data do pagamento.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await recordPayments(selectedEligible, {
+        paymentStatus: action,
+        paymentDate: action === 'reversed' ? undefined : paymentDate,
+        paymentMethod: action === 'reversed' ? undefined : paymentMethod,
+        payrollReference: action === 'reversed' ? undefined : payrollReference,
+        reversalReason: action === 'reversed' ? reversalReason : undefined,
+      });
+
+      setSelectedIds([]);
+      setReversalReason('');
+      toast({
+        title: `${result.updated.length} pagamento(s) registrado(s)`,
+        description: result.failed.length > 0
+          ? `${result.failed.length} solicitação(ões) mudaram de situação e não foram alteradas.`
+          : 'Os solicitantes foram notificados por email.',
+        variant: result.failed.length > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao registrar pagamentos',
+        description: errorMessage(error, 'Não foi possível registrar os pagamentos.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl text-primary flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Pagamentos
+        </CardTitle>
+        <CardDescription>
+          Registre agendamento, pagamento ou estorno de várias solicitações aprovadas de uma vez
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm font-medium">Situação</label>
+            <Select value={filter} onValueChange={(value) => { setFilter(value); setSelectedIds([]); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Aguardando pagamento</SelectItem>
+                <SelectItem value="scheduled">{paymentStatusLabels.scheduled}</SelectItem>
+                <SelectItem value="paid">{paymentStatusLabels.paid}</SelectItem>
+                <SelectItem value="reversed">{paymentStatusLabels.reversed}</SelectItem>
+                <SelectItem value="todos">Todas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Ação</label>
+            <Select value={action} onValueChange={(value: PaymentStatus) => setAction(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(actionLabels) as PaymentStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{actionLabels[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {action === 'reversed' ? (
+            <div className="md:col-span-2">
+              <label className="text-sm font-medium">Motivo do estorno</label>
+              <Textarea value={reversalReason} onChange={(e) => setReversalReason(e.target.value)} />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="text-sm font-medium">{action === 'paid' ? 'Data do pagamento' : 'Data prevista'}</label>
+                <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Forma de pagamento</label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Referência da folha (opcional)</label>
+                <Input
+                  placeholder="Ex.: FOLHA-2025-08"
+                  value={payrollReference}
+                  onChange={(e) => setPayrollReference(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {visibleRequests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nenhuma solicitação nesta situação</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Checkbox
+                checked={eligibleIds.length > 0 && selectedEligible.length === eligibleIds.length}
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+                disabled={eligibleIds.length === 0}
+              />
+              Selecionar todas ({eligibleIds.length})
+            </label>
+            {visibleRequests.map((request) => {
+              const eligible = eligibleIds.includes(request.id);
+
+              return (
+                <div key={request.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <label className="flex items-center gap-3">
+                    <Checkbox
+                      checked={selectedIds.includes(request.id) && eligible}
+                      onCheckedChange={(checked) => toggleRequest(request.id, checked === true)}
+                      disabled={!eligible}
+                    />
+                    <div>
+                      <p className="text-sm font-medium">{request.users?.name} • {getBenefitType(request.type)?.label ?? request.type}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(getApprovedAmount(request))}
+                        {request.payment_date && ` • ${new Date(`${request.payment_date}T00:00:00`).toLocaleDateString('pt-BR')}`}
+                        {request.payroll_reference && ` • ${request.payroll_reference}`}
+                      </p>
+                    </div>
+                  </label>
+                  <PaymentStatusBadge status={request.payment_status} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Button onClick={handleRecord} disabled={saving || selectedEligible.length === 0}>
+          {saving ? 'Registrando...' : `${actionLabels[action]} (${selectedEligible.length})`}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
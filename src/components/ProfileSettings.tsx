@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { usePolos } from '@/hooks/usePolos';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,6 +10,7 @@ import { Settings, MapPin } from 'lucide-react';
 
 export function ProfileSettings() {
   const { profile, fetchUserProfile } = useAuth();
+  const { activePolos, getPoloName } = usePolos();
   const { toast } = useToast();
   const [selectedPolo, setSelectedPolo] = useState<string>(profile?.polo || '');
   const [updating, setUpdating] = useState(false);
@@ -20,7 +22,7 @@ export function ProfileSettings() {
     try {
       const { error } = await supabase
         .from('users')
-        .update({ polo: selectedPolo as any })
+        .update({ polo: selectedPolo })
         .eq('id', profile.id);
 
       if (error) throw error;
@@ -32,7 +34,7 @@ export function ProfileSettings() {
 
       toast({
         title: "Perfil atualizado!",
-        description: `Polo alterado para: ${selectedPolo}`,
+        description: `Polo alterado para: ${getPoloName(selectedPolo)}`,
       });
     } catch (error: any) {
       toast({
@@ -81,10 +83,9 @@ export function ProfileSettings() {
                 <SelectValue placeholder="Selecione seu polo" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="3M Sumaré">3M Sumaré</SelectItem>
-                <SelectItem value="Manaus">Manaus</SelectItem>
-                <SelectItem value="Ribeirão Preto">Ribeirão Preto</SelectItem>
-                <SelectItem value="Itapetininga">Itapetininga</SelectItem>
+                {activePolos.map((polo) => (
+                  <SelectItem key={polo.code} value={polo.code}>{polo.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Button 
@@ -97,7 +98,7 @@ export function ProfileSettings() {
           </div>
           {profile.polo && (
             <p className="text-xs text-muted-foreground">
-              Polo atual: {profile.polo}
+              Polo atual: {getPoloName(profile.polo)}
             </p>
           )}
         </div>
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { mergeImagesToPdf, isCompressibleImage } from '@/lib/documentPreparation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, FileStack, X } from 'lucide-react';
+
+interface ReceiptPdfBuilderProps {
+  // Recebe o PDF pronto para entrar na lista de anexos
+  onCreate: (file: File) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+interface ReceiptPhoto {
+  file: File;
+  previewUrl: string;
+}
+
+export function ReceiptPdfBuilder({ onCreate, onCancel }: ReceiptPdfBuilderProps) {
+  const { toast } = useToast();
+  const [photos, setPhotos] = useState<ReceiptPhoto[]>([]);
+  const [fileName, setFileName] = useState('recibo');
+  const [merging, setMerging] = useState(false);
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  // Libera as prévias quando o componente sai da tela
+  useEffect(() => {
+    return () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+  }, []);
+
+  const addPhotos = (files: File[]) => {
+    const images = files.filter(isCompressibleImage);
+    if (images.length < files.length) {
+      toast({
+        title: 'Arquivos ignorados',
+        description: 'Apenas fotos JPEG, PNG ou WebP podem ser juntadas em um PDF.',
+        variant: 'destructive',
+      });
+    }
+
+    setPhotos(prev => [
+      ...prev,
+      ...images.map(file => ({ file, previewUrl: URL.createObjectURL(file) })),
+    ]);
+  };
+
+  const movePhoto = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPhotos(reordered);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos(photos.filter((_, i) => i !== index));
+  };
+
+  const handleMerge = async () => {
+    setMerging(true);
+    try {
+      const pdf = await mergeImagesToPdf(photos.map(photo => photo.file), fileName.trim() || 'recibo');
+      await onCreate(pdf);
+      photos.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+      setPhotos([]);
+      setFileName('recibo');
+    } catch (error) {
+      console.error('Erro ao gerar PDF:', error);
+      toast({
+        title: 'Erro ao gerar PDF',
+        description: error instanceof Error ? error.message : 'Não foi possível juntar as fotos.',
+        variant: 'destructive',
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <FileStack className="h-4 w-4" />
+          Juntar fotos de um recibo em um PDF
+        </p>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Input
+        type="file"
+        multiple
+        accept=".jpg,.jpeg,.png,.webp"
+        onChange={(e) => {
+          addPhotos(Array.from(e.target.files || []));
+          e.target.value = '';
+        }}
+      />
+
+      {photos.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Cada foto vira uma página, na ordem abaixo.</p>
+          {photos.map((photo, index) => (
+            <div key={photo.previewUrl} className="flex items-center gap-3 p-2 bg-muted rounded">
+              <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}</span>
+              <img src={photo.previewUrl} alt={photo.file.name} className="h-14 w-14 object-cover rounded" />
+              <span className="text-sm flex-1 truncate">{photo.file.name}</span>
+              <Button type="button" variant="ghost" size="sm" onClick={() => movePhoto(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => movePhoto(index, 1)}
+                disabled={index === photos.length - 1}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => removePhoto(index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <label className="text-sm font-medium">Nome do arquivo</label>
+              <Input value={fileName} onChange={(e) => setFileName(e.target.value)} />
+            </div>
+            <Button type="button" onClick={handleMerge} disabled={merging}>
+              {merging ? 'Gerando PDF...' : `Gerar PDF (${photos.length} página${photos.length > 1 ? 's' : ''})`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
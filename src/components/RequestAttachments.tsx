@@ -1,159 +1,138 @@
-import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { File, Eye, Download } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { File, Eye, Download, RefreshCw, FileCheck } from 'lucide-react';
+import { formatCnpj, invoiceKindLabels, InvoiceData } from '@shared/invoiceXml';
+import { ocrAmountDiffers, ReceiptOcrData } from '@/lib/receiptOcr';
+import {
+  useDocuments,
+  documentCategoryLabels,
+  scanStatusLabels,
+  DocumentCategory,
+  RequestDocument,
+  ScanStatus,
+} from '@/hooks/useDocuments';
 
 interface RequestAttachmentsProps {
   requestId: string;
-  attachments?: string[];
+  // Quando informado, "Ver" abre o visualizador embutido em vez de uma nova aba
+  onView?: (document: RequestDocument) => void;
+  // Valor da solicitação, para sinalizar comprovantes cuja leitura automática diverge
+  expectedAmount?: number;
 }
 
-interface Invoice {
-  id: string;
-  file_name: string;
-  file_url: string;
-  file_size?: number;
-  mime_type?: string;
+// Dados gravados pela função scan-document a partir do XML armazenado
+export function InvoiceSummary({ invoice }: { invoice: InvoiceData }) {
+  return (
+    <div className="text-xs text-muted-foreground space-y-1">
+      <Badge variant="secondary" className="bg-success-light text-success">
+        <FileCheck className="w-3 h-3 mr-1" />
+        Validado pelo XML
+      </Badge>
+      <p>
+        {invoiceKindLabels[invoice.kind]}{invoice.reference && ` nº ${invoice.reference}`} • {invoice.issuer_name ?? 'Emitente'} (CNPJ {formatCnpj(invoice.issuer_cnpj)})
+      </p>
+      <p>
+        Emitida em {new Date(`${invoice.issue_date}T00:00:00`).toLocaleDateString('pt-BR')} • Total{' '}
+        {invoice.total_amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+      </p>
+      {invoice.description && <p>{invoice.description}</p>}
+    </div>
+  );
 }
 
-export function RequestAttachments({ requestId, attachments = [] }: RequestAttachmentsProps) {
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [loading, setLoading] = useState(true);
-  const { toast } = useToast();
+const formatCpf = (value: string) => value.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
 
-  useEffect(() => {
-    const fetchInvoices = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('invoices')
-          .select('*')
-          .eq('request_id', requestId)
-          .order('uploaded_at', { ascending: false });
+// Leitura automática feita no navegador do solicitante; indicativa, não substitui a conferência
+export function ReceiptOcrSummary({ ocr, expectedAmount }: { ocr: ReceiptOcrData; expectedAmount?: number }) {
+  const parts = [
+    ocr.amount != null && ocr.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
+    ocr.date && new Date(`${ocr.date}T00:00:00`).toLocaleDateString('pt-BR'),
+    ocr.provider_document && (ocr.provider_document_type === 'cnpj'
+      ? `CNPJ ${formatCnpj(ocr.provider_document)}`
+      : `CPF ${formatCpf(ocr.provider_document)}`),
+  ].filter(Boolean);
 
-        if (error) {
-          console.error('Erro ao buscar invoices:', error);
-        } else {
-          setInvoices(data || []);
-        }
-      } catch (error) {
-        console.error('Erro ao buscar anexos:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
+  return (
+    <div className="text-xs text-muted-foreground">
+      <p>
+        Leitura automática{ocr.source === 'ocr' && ocr.confidence != null && ` (${ocr.confidence}% de confiança)`}:{' '}
+        {parts.length > 0 ? parts.join(' • ') : 'nenhum valor, data ou CNPJ identificado'}
+      </p>
+      {expectedAmount !== undefined && ocrAmountDiffers(ocr, expectedAmount) && (
+        <p className="text-warning">
+          Difere do valor informado ({expectedAmount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })})
+        </p>
+      )}
+    </div>
+  );
+}
 
-    fetchInvoices();
-  }, [requestId]);
+export function ScanStatusBadge({ status }: { status: ScanStatus }) {
+  switch (status) {
+    case 'clean':
+      return null;
+    case 'pending':
+      return <Badge variant="secondary" className="bg-pending-light text-pending">{scanStatusLabels.pending}</Badge>;
+    case 'error':
+      return <Badge variant="secondary" className="bg-warning-light text-warning">{scanStatusLabels.error}</Badge>;
+    default:
+      return <Badge variant="secondary" className="bg-destructive-light text-destructive">{scanStatusLabels[status]}</Badge>;
+  }
+}
 
-  const handleViewFile = async (fileUrl: string, fileName: string) => {
-    try {
-      if (fileUrl.startsWith('http')) {
-        // URL completa
-        window.open(fileUrl, '_blank');
-      } else {
-        // Caminho relativo, construir URL do storage
-        const { data } = supabase.storage
-          .from('invoices')
-          .getPublicUrl(fileUrl);
-        
-        window.open(data.publicUrl, '_blank');
-      }
-    } catch (error) {
-      console.error('Erro ao visualizar arquivo:', error);
-      toast({
-        title: "Erro",
-        description: "Erro ao abrir o arquivo",
-        variant: "destructive",
-      });
-    }
-  };
+export function RequestAttachments({ requestId, onView, expectedAmount }: RequestAttachmentsProps) {
+  const { profile } = useAuth();
+  const { documents, loading, openDocument, downloadDocument, rescanDocument } = useDocuments(requestId);
+  const { toast } = useToast();
 
-  const handleDownloadFile = async (fileUrl: string, fileName: string) => {
+  const handleRescan = async (document: RequestDocument) => {
     try {
-      let downloadUrl = fileUrl;
-      
-      if (!fileUrl.startsWith('http')) {
-        // Se for caminho relativo, construir URL do storage
-        const { data } = supabase.storage
-          .from('invoices')
-          .getPublicUrl(fileUrl);
-        downloadUrl = data.publicUrl;
-      }
-
-      const response = await fetch(downloadUrl);
-      const blob = await response.blob();
-      
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
+      const status = await rescanDocument(document);
       toast({
-        title: "Sucesso",
-        description: "Arquivo baixado com sucesso",
+        title: scanStatusLabels[status],
+        description: status === 'clean'
+          ? 'O arquivo já está disponível para a gestora.'
+          : 'O arquivo continua indisponível para a gestora.',
+        variant: status === 'clean' ? 'default' : 'destructive',
       });
     } catch (error) {
-      console.error('Erro ao baixar arquivo:', error);
+      console.error('Erro ao verificar arquivo:', error);
       toast({
-        title: "Erro", 
-        description: "Erro ao baixar o arquivo",
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao verificar o arquivo",
         variant: "destructive",
       });
     }
   };
 
-  const handleViewAttachment = async (attachment: string) => {
+  const handleView = async (document: RequestDocument) => {
+    if (onView) {
+      onView(document);
+      return;
+    }
+
     try {
-      const { data } = supabase.storage
-        .from('request-attachments')
-        .getPublicUrl(attachment);
-      
-      window.open(data.publicUrl, '_blank');
+      await openDocument(document);
     } catch (error) {
-      console.error('Erro ao visualizar anexo:', error);
+      console.error('Erro ao visualizar arquivo:', error);
       toast({
         title: "Erro",
-        description: "Erro ao abrir o arquivo",
+        description: error instanceof Error ? error.message : "Erro ao abrir o arquivo",
         variant: "destructive",
       });
     }
   };
 
-  const handleDownloadAttachment = async (attachment: string) => {
+  const handleDownload = async (document: RequestDocument) => {
     try {
-      const { data, error } = await supabase.storage
-        .from('request-attachments')
-        .download(attachment);
-      
-      if (error) {
-        throw error;
-      }
-      
-      const fileName = attachment.split('/').pop() || 'anexo';
-      const blob = new Blob([data], { type: data.type });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
-      toast({
-        title: "Sucesso",
-        description: "Arquivo baixado com sucesso",
-      });
+      await downloadDocument(document);
     } catch (error) {
-      console.error('Erro ao baixar anexo:', error);
+      console.error('Erro ao baixar arquivo:', error);
       toast({
         title: "Erro", 
-        description: "Erro ao baixar o arquivo",
+        description: error instanceof Error ? error.message : "Erro ao baixar o arquivo",
         variant: "destructive",
       });
     }
@@ -168,9 +147,7 @@ export function RequestAttachments({ requestId, attachments = [] }: RequestAttac
     );
   }
 
-  const hasAttachments = (attachments && attachments.length > 0) || invoices.length > 0;
-
-  if (!hasAttachments) {
+  if (documents.length === 0) {
     return (
       <div className="space-y-2">
         <p className="text-sm font-medium mb-2">Anexos da Solicitação:</p>
@@ -182,84 +159,66 @@ export function RequestAttachments({ requestId, attachments = [] }: RequestAttac
   return (
     <div className="space-y-2">
       <p className="text-sm font-medium mb-2">Anexos da Solicitação:</p>
-      
-      {/* Anexos do campo attachments */}
-      {attachments && attachments.length > 0 && (
-        <div className="space-y-2">
-          <p className="text-xs text-muted-foreground">Anexos principais:</p>
-          {attachments.map((attachment: string, index: number) => {
-            const fileName = attachment.split('/').pop() || `Anexo ${index + 1}`;
-            return (
-              <div key={index} className="flex items-center justify-between p-3 bg-muted rounded-md">
-                <div className="flex items-center gap-2">
-                  <File className="h-4 w-4 text-primary" />
-                  <div>
-                    <p className="text-sm font-medium">{fileName}</p>
-                    <p className="text-xs text-muted-foreground">Anexo da solicitação</p>
-                  </div>
-                </div>
-                <div className="flex gap-2">
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleViewAttachment(attachment)}
-                  >
-                    <Eye className="w-3 h-3 mr-1" />
-                    Ver
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleDownloadAttachment(attachment)}
-                  >
-                    <Download className="w-3 h-3 mr-1" />
-                    Baixar
-                  </Button>
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      )}
-
-      {/* Anexos da tabela invoices */}
-      {invoices.length > 0 && (
-        <div className="space-y-2">
-          <p className="text-xs text-muted-foreground">Faturas/Comprovantes enviados:</p>
-          {invoices.map((invoice) => (
-            <div key={invoice.id} className="flex items-center justify-between p-3 bg-muted rounded-md">
-              <div className="flex items-center gap-2">
-                <File className="h-4 w-4 text-primary" />
-                <div>
-                  <p className="text-sm font-medium">{invoice.file_name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {invoice.file_size && `Tamanho: ${(invoice.file_size / 1024 / 1024).toFixed(2)} MB`}
-                    {invoice.mime_type && ` • Tipo: ${invoice.mime_type}`}
-                  </p>
-                </div>
+      {documents.map((document) => {
+        const status = document.scan_status as ScanStatus;
+        // Só arquivos verificados saem da quarentena
+        const available = status === 'clean';
+        const canRescan = (status === 'pending' || status === 'error') && document.uploaded_by === profile?.id;
+
+        return (
+          <div key={document.id} className="flex items-center justify-between p-3 bg-muted rounded-md">
+            <div className="flex items-center gap-2">
+              <File className="h-4 w-4 text-primary" />
+              <div>
+                <p className="text-sm font-medium">{document.file_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {document.size && `Tamanho: ${(document.size / 1024 / 1024).toFixed(2)} MB`}
+                  {document.mime_type && ` • Tipo: ${document.mime_type}`}
+                </p>
+                {document.invoice_data && <InvoiceSummary invoice={document.invoice_data as unknown as InvoiceData} />}
+                {document.ocr_data && !document.invoice_data && (
+                  <ReceiptOcrSummary ocr={document.ocr_data as unknown as ReceiptOcrData} expectedAmount={expectedAmount} />
+                )}
               </div>
-              <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleViewFile(invoice.file_url, invoice.file_name)}
-                >
-                  <Eye className="w-3 h-3 mr-1" />
-                  Ver
-                </Button>
+              <Badge variant="outline" className="ml-2">
+                {documentCategoryLabels[document.category as DocumentCategory] ?? document.category}
+              </Badge>
+              {document.appeal_id && <Badge variant="outline">Enviado no recurso</Badge>}
+              <ScanStatusBadge status={status} />
+            </div>
+            <div className="flex gap-2">
+              {canRescan && (
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleDownloadFile(invoice.file_url, invoice.file_name)}
+                  onClick={() => handleRescan(document)}
                 >
-                  <Download className="w-3 h-3 mr-1" />
-                  Baixar
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  Verificar
                 </Button>
-              </div>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleView(document)}
+                disabled={!available}
+              >
+                <Eye className="w-3 h-3 mr-1" />
+                Ver
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDownload(document)}
+                disabled={!available}
+              >
+                <Download className="w-3 h-3 mr-1" />
+                Baixar
+              </Button>
             </div>
-          ))}
-        </div>
-      )}
+          </div>
+        );
+      })}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useComments } from '@/hooks/useComments';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Lock, MessageSquare, Send } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+interface RequestCommentsProps {
+  requestId: string;
+}
+
+export function RequestComments({ requestId }: RequestCommentsProps) {
+  const { profile } = useAuth();
+  const { comments, loading, addComment } = useComments(requestId);
+  const { toast } = useToast();
+  const [message, setMessage] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  // Só gestoras e admins escrevem notas internas; o financeiro não
+  const canPostInternal = !!profile && ['gestora', 'admin'].includes(profile.role);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('pt-BR', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    });
+  };
+
+  const getAuthorName = (comment: typeof comments[number]) => {
+    if (comment.user_id === profile?.id) return 'Você';
+    // Solicitantes não enxergam o perfil das gestoras pela RLS de users
+    return comment.users?.name || 'Equipe Ombro Amigo';
+  };
+
+  const handleSend = async () => {
+    if (!message.trim()) return;
+
+    setSending(true);
+    try {
+      await addComment(message.trim(), canPostInternal && isInternal);
+      setMessage('');
+      setIsInternal(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao enviar comentário',
+        description: errorMessage(error, 'Não foi possível enviar o comentário.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        Conversa:
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando comentários...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum comentário ainda.</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {comments.map((comment) => (
+            <div
+              key={comment.id}
+              className={cn(
+                'p-3 rounded-md',
+                comment.is_internal ? 'bg-warning-light border border-warning/20' : 'bg-muted'
+              )}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-medium">{getAuthorName(comment)}</p>
+                <div className="flex items-center gap-2">
+                  {comment.is_internal && (
+                    <Badge variant="outline" className="text-warning border-warning/40">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Nota interna
+                    </Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">{formatDateTime(comment.created_at)}</span>
+                </div>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        placeholder={canPostInternal ? 'Escreva um comentário ou nota interna...' : 'Escreva uma mensagem para a gestora...'}
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+      />
+      <div className="flex items-center justify-between">
+        {canPostInternal ? (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={isInternal}
+              onCheckedChange={(checked) => setIsInternal(checked === true)}
+            />
+            Nota interna (visível apenas para gestoras)
+          </label>
+        ) : (
+          <span />
+        )}
+        <Button size="sm" onClick={handleSend} disabled={sending || !message.trim()}>
+          <Send className="w-3 h-3 mr-1" />
+          {sending ? 'Enviando...' : 'Enviar'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Request, getApprovedAmount } from '@/hooks/useRequests';
+import { RequestAttachments } from '@/components/RequestAttachments';
+import { RequestComments } from '@/components/RequestComments';
+import { BenefitTypeLabel } from '@/components/BenefitTypeLabel';
+import type { BenefitType } from '@/hooks/useBenefitTypes';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface RequestDetailDialogProps {
+  request: Request | null;
+  benefitType?: BenefitType;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RequestDetailDialog({ request, benefitType, onOpenChange }: RequestDetailDialogProps) {
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR');
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detalhes da Solicitação</DialogTitle>
+          <DialogDescription>
+            Acompanhe sua solicitação e converse com a gestora
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium">Tipo:</p>
+                <p className="text-sm text-muted-foreground">
+                  <BenefitTypeLabel code={request.type} benefitType={benefitType} />
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Valor solicitado:</p>
+                <p className="text-sm text-muted-foreground">{formatCurrency(request.amount)}</p>
+              </div>
+              {request.status === 'approved' && (
+                <div>
+                  <p className="text-sm font-medium">Valor aprovado:</p>
+                  <p className="text-sm text-muted-foreground">{formatCurrency(getApprovedAmount(request))}</p>
+                </div>
+              )}
+              <div>
+                <p className="text-sm font-medium">Data:</p>
+                <p className="text-sm text-muted-foreground">{formatDate(request.created_at)}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Protocolo:</p>
+                <p className="text-sm text-muted-foreground">#{request.id.slice(0, 8)}</p>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Descrição:</p>
+              <p className="text-sm text-muted-foreground p-3 bg-muted rounded-md">
+                {request.description}
+              </p>
+            </div>
+
+            {request.approval_justification && (
+              <div>
+                <p className="text-sm font-medium mb-2">Justificativa do valor aprovado:</p>
+                <p className="text-sm text-muted-foreground p-3 bg-muted rounded-md">
+                  {request.approval_justification}
+                </p>
+              </div>
+            )}
+
+            <RequestAttachments requestId={request.id} />
+
+            <RequestComments requestId={request.id} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,147 +1,364 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRequests } from '@/hooks/useRequests';
-import { supabase } from '@/integrations/supabase/client';
+import { useRequests, Request, RequestManagementError } from '@/hooks/useRequests';
+import { useReimbursementPolicies } from '@/hooks/useReimbursementPolicies';
+import { useBenefitCaps } from '@/hooks/useBenefitCaps';
+import { useBenefitTypes } from '@/hooks/useBenefitTypes';
+import { usePolos } from '@/hooks/usePolos';
+import { useDependents } from '@/hooks/useDependents';
+import {
+  useDocuments,
+  validateSelectedFiles,
+  attachedBytes,
+  isInvoiceXml,
+  readInvoiceXml,
+  documentCategoryLabels,
+  DocumentCategory,
+  PendingDocument,
+  RequestDocument,
+  ScanStatus,
+  BlockedDocumentsError,
+} from '@/hooks/useDocuments';
+import { BenefitTypeLabel } from '@/components/BenefitTypeLabel';
+import { ReceiptPdfBuilder } from '@/components/ReceiptPdfBuilder';
+import { ReceiptOcrSummary, ScanStatusBadge } from '@/components/RequestAttachments';
+import { compressImages } from '@/lib/documentPreparation';
+import { canReadReceipt, readReceipt, releaseOcrWorker } from '@/lib/receiptOcr';
+import { evaluatePolicy, selectPolicy } from '@shared/reimbursementPolicy';
+import { computeCapBalances, findCapViolations } from '@shared/benefitCaps';
+import { formatCnpj, invoiceKindLabels, invoiceParseMessages, InvoiceData } from '@shared/invoiceXml';
+import { ageOn, checkEligibility, dependentIneligibilityMessages, dependentRelationshipLabels } from '@shared/dependents';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Calculator, Heart, Upload, File, X } from 'lucide-react';
-
-// Schema para dependente
-const dependentSchema = z.object({
-  name: z.string().min(2, 'Nome do dependente deve ter pelo menos 2 caracteres'),
-  relationship: z.string().min(1, 'Selecione o parentesco'),
-});
+import { Calculator, Heart, Upload, File, X, FileStack } from 'lucide-react';
 
 // Schema para o formulário principal
 const formSchema = z.object({
-  type: z.enum(['psicológico', 'médico', 'odontológico', 'fisioterapia', 'outros'], {
+  // Códigos válidos vêm do catálogo benefit_types; submit-request rejeita tipos inativos
+  type: z.string({
     required_error: 'Selecione o tipo de auxílio',
-  }),
+  }).min(1, 'Selecione o tipo de auxílio'),
   description: z.string().min(10, 'Descrição deve ter pelo menos 10 caracteres'),
   amount: z.number().min(0.01, 'Valor deve ser maior que zero'),
   polo: z.string().min(1, 'Selecione o polo'),
-  dependents: z.array(dependentSchema).optional(),
-  salary: z.number().min(0, 'Salário deve ser um valor válido').optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-interface Dependent {
-  name: string;
-  relationship: string;
-}
+// Intervalo do salvamento automático do rascunho
+const AUTOSAVE_INTERVAL = 5000;
 
-const BASE_SALARY = 2018.36;
-const SALARY_PERCENTAGE = 0.9;
+interface RequestFormProps {
+  // Rascunho retomado a partir da lista do painel
+  draft?: Request | null;
+  // Avisa o painel quando o rascunho em edição é criado, enviado ou deixa de existir
+  onDraftChange?: (draftId: string | null) => void;
+}
 
-export function RequestForm() {
+export function RequestForm({ draft = null, onDraftChange }: RequestFormProps) {
   const { profile } = useAuth();
-  const { createRequest, loading } = useRequests();
+  const { requests, createRequest, saveDraft, loading } = useRequests();
+  const { policies } = useReimbursementPolicies();
+  const { caps } = useBenefitCaps();
+  const { activeBenefitTypes, getBenefitType } = useBenefitTypes();
+  const { activePolos } = usePolos();
+  const { activeDependents } = useDependents();
   const { toast } = useToast();
-  const [dependents, setDependents] = useState<Dependent[]>([]);
+  // Dependentes vêm do cadastro; a elegibilidade é conferida de novo em submit-request
+  const [selectedDependentIds, setSelectedDependentIds] = useState<string[]>(
+    (draft?.dependents ?? []).map(dependent => dependent.id).filter((id): id is string => !!id)
+  );
   const [showCalculator, setShowCalculator] = useState(false);
-  const [attachments, setAttachments] = useState<File[]>([]);
+  // O rascunho é criado no primeiro salvamento automático; o ref acompanha o id durante os envios em andamento
+  const [draftId, setDraftId] = useState<string | null>(draft?.id ?? null);
+  const draftIdRef = useRef<string | null>(draft?.id ?? null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(draft ? new Date(draft.updated_at) : null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const draftDirty = useRef(false);
+  const draftSave = useRef<Promise<void> | null>(null);
+  const submitting = useRef(false);
+  // Anexos do formulário que já foram para o rascunho e não devem ser enviados de novo
+  const savedAttachments = useRef(new WeakSet<PendingDocument>());
+  const { documents: draftDocuments, uploadDocuments, refetch: refetchDraftDocuments } = useDocuments(draftId);
+  const [attachments, setAttachments] = useState<PendingDocument[]>([]);
+  const [preparingFiles, setPreparingFiles] = useState(false);
+  const [showPdfBuilder, setShowPdfBuilder] = useState(false);
+  // Comprovantes aguardando a leitura automática; os lotes rodam um de cada vez
+  const [pendingReceipts, setPendingReceipts] = useState(0);
+  const receiptQueue = useRef<Promise<void>>(Promise.resolve());
   const [uploading, setUploading] = useState(false);
 
+  const emptyValues: FormData = {
+    type: undefined,
+    description: '',
+    amount: 0,
+    polo: profile?.polo || '',
+  };
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      type: undefined,
-      description: '',
-      amount: 0,
-      polo: '',
-      dependents: [],
-      salary: 0,
-    },
+    defaultValues: draft
+      ? {
+          type: draft.type ?? undefined,
+          description: draft.description ?? '',
+          amount: Number(draft.amount ?? 0),
+          polo: draft.polo || profile?.polo || '',
+        }
+      : emptyValues,
   });
 
-  const watchSalary = form.watch('salary');
   const watchType = form.watch('type');
+  const watchPolo = form.watch('polo');
+  const watchAmount = form.watch('amount');
 
-  // Cálculo automático baseado no salário
-  const calculateReimbursement = (salary: number, type: string) => {
-    if (salary <= 0) return 0;
-    
-    const maxReimbursable = salary * SALARY_PERCENTAGE;
-    
-    // Se o salário é menor ou igual ao piso, reembolso 100%
-    if (maxReimbursable <= BASE_SALARY) {
-      return BASE_SALARY;
-    }
-    
-    // Caso contrário, reembolsa 90% do salário
-    return maxReimbursable;
+  // Cálculo pela política vigente; a mesma avaliação é refeita na função submit-request
+  const activePolicy = selectPolicy(policies, {
+    type: watchType || '',
+    polo: watchPolo || '',
+    date: new Date(),
+  });
+  const selectedDependents = activeDependents.filter(dependent => selectedDependentIds.includes(dependent.id));
+  const validDependentsCount = selectedDependents.length;
+  const evaluation = activePolicy
+    ? evaluatePolicy(activePolicy, { salary: Number(profile?.salary ?? 0), dependents: validDependentsCount })
+    : null;
+  const suggestedAmount = evaluation?.amount ?? 0;
+
+  // Saldo anual restante; a aprovação em request-management confere novamente
+  const capBalances = watchType
+    ? computeCapBalances(caps, requests, {
+        type: watchType,
+        year: new Date().getFullYear(),
+        dependents: selectedDependents,
+      })
+    : [];
+  const capViolations = findCapViolations(capBalances, watchAmount || 0);
+
+  const toggleDependent = (dependentId: string, selected: boolean) => {
+    draftDirty.current = true;
+    setSelectedDependentIds(prev => selected ? [...prev, dependentId] : prev.filter(id => id !== dependentId));
   };
 
-  const suggestedAmount = calculateReimbursement(watchSalary || 0, watchType || '');
+  const resetForm = () => {
+    form.reset(emptyValues);
+    setSelectedDependentIds([]);
+    setAttachments([]);
+    setShowCalculator(false);
+    draftIdRef.current = null;
+    setDraftId(null);
+    setDraftSavedAt(null);
+    setDraftError(null);
+    draftDirty.current = false;
+  };
 
-  const addDependent = () => {
-    setDependents([...dependents, { name: '', relationship: '' }]);
+  const currentDraftValues = () => {
+    const values = form.getValues();
+    return {
+      type: values.type || undefined,
+      description: values.description,
+      amount: values.amount || undefined,
+      polo: values.polo || undefined,
+      dependentIds: selectedDependentIds,
+    };
   };
 
-  const removeDependent = (index: number) => {
-    setDependents(dependents.filter((_, i) => i !== index));
+  // Grava os valores do formulário no rascunho e, com o rascunho já criado, envia os anexos
+  // prontos; assim uma falha de upload no celular não faz o solicitante perder o que preencheu
+  const saveDraftNow = async () => {
+    const values = currentDraftValues();
+    const unsaved = attachments.filter(item => !savedAttachments.current.has(item));
+    const readyAttachments = draftIdRef.current && pendingReceipts === 0 && !preparingFiles ? unsaved : [];
+    const hasContent = !!values.type || !!values.description?.trim() || !!values.amount
+      || values.dependentIds.length > 0 || attachments.length > 0;
+
+    if (!hasContent || (!draftDirty.current && readyAttachments.length === 0)) return;
+
+    draftDirty.current = false;
+    try {
+      const saved = await saveDraft(values, draftIdRef.current ?? undefined);
+      if (!draftIdRef.current) {
+        draftIdRef.current = saved.id;
+        setDraftId(saved.id);
+        onDraftChange?.(saved.id);
+      }
+
+      for (const item of readyAttachments) {
+        try {
+          await uploadDocuments([item], saved.id);
+          savedAttachments.current.add(item);
+        } catch (uploadError) {
+          if (!(uploadError instanceof BlockedDocumentsError)) throw uploadError;
+          // O arquivo recusado aparece na lista do rascunho com o motivo
+          savedAttachments.current.add(item);
+          toast({
+            title: "Arquivo não aceito",
+            description: uploadError.message,
+            variant: "destructive",
+          });
+        }
+      }
+      if (readyAttachments.length > 0) {
+        setAttachments(prev => prev.filter(item => !savedAttachments.current.has(item)));
+      }
+
+      setDraftSavedAt(new Date());
+      setDraftError(null);
+    } catch (error) {
+      console.error('Erro ao salvar rascunho:', error);
+
+      // Enviado ou descartado em outro dispositivo: o formulário volta ao início
+      if (error instanceof RequestManagementError && error.code === 'not_draft') {
+        resetForm();
+        onDraftChange?.(null);
+        toast({
+          title: "Rascunho encerrado",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      draftDirty.current = true;
+      setDraftError(error instanceof Error ? error.message : 'Erro ao salvar o rascunho');
+    }
   };
 
-  const updateDependent = (index: number, field: keyof Dependent, value: string) => {
-    const updated = [...dependents];
-    updated[index] = { ...updated[index], [field]: value };
-    setDependents(updated);
+  // Um salvamento por vez; o intervalo chama sempre a versão mais recente da função
+  const autosave = useRef(saveDraftNow);
+  autosave.current = saveDraftNow;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (submitting.current || draftSave.current) return;
+      draftSave.current = autosave.current().finally(() => {
+        draftSave.current = null;
+      });
+    }, AUTOSAVE_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const subscription = form.watch(() => {
+      draftDirty.current = true;
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const removeDraftDocument = async (document: RequestDocument) => {
+    if (!draftIdRef.current) return;
+
+    try {
+      await draftSave.current;
+      await saveDraft({ ...currentDraftValues(), removedDocumentIds: [document.id] }, draftIdRef.current);
+      await refetchDraftDocuments();
+    } catch (error) {
+      console.error('Erro ao remover anexo do rascunho:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao remover o anexo",
+        variant: "destructive",
+      });
+    }
   };
 
+  // Valor e descrição vêm da nota; o solicitante ainda pode ajustar antes de enviar
+  const applyInvoice = (invoice: InvoiceData) => {
+    const issuer = invoice.issuer_name ?? formatCnpj(invoice.issuer_cnpj);
+    const issueDate = new Date(`${invoice.issue_date}T00:00:00`).toLocaleDateString('pt-BR');
 
-  const useSuggestedAmount = () => {
-    form.setValue('amount', suggestedAmount);
+    form.setValue('amount', invoice.total_amount, { shouldValidate: true });
+    form.setValue(
+      'description',
+      `${invoiceKindLabels[invoice.kind]} de ${issuer} (CNPJ ${formatCnpj(invoice.issuer_cnpj)}), emitida em ${issueDate}: ${invoice.description || 'sem descrição'}`,
+      { shouldValidate: true }
+    );
     toast({
-      title: "Valor atualizado",
-      description: `Valor sugerido de R$ ${suggestedAmount.toFixed(2)} aplicado.`,
+      title: "Dados da nota fiscal aplicados",
+      description: `Valor de R$ ${invoice.total_amount.toFixed(2)} e descrição preenchidos a partir do XML.`,
     });
   };
 
-  const uploadFiles = async (files: File[]) => {
-    if (!profile?.id || files.length === 0) return [];
-    
-    const uploadedUrls: string[] = [];
-    
-    try {
+  const readReceipts = (files: File[]) => {
+    if (files.length === 0) return;
+
+    setPendingReceipts(count => count + files.length);
+    receiptQueue.current = receiptQueue.current.then(async () => {
       for (const file of files) {
-        const fileExt = file.name.split('.').pop();
-        const sanitizedName = file.name.replace(/[^a-zA-Z0-9.\-_]/g, '');
-        const fileName = `${profile.id}/${Date.now()}-${sanitizedName}`;
-        
-        const { data, error } = await supabase.storage
-          .from('request-attachments')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-          
-        if (error) {
-          console.error('Upload error:', error);
-          throw new Error(`Erro ao fazer upload do arquivo ${file.name}: ${error.message}`);
+        try {
+          const ocr = await readReceipt(file);
+          setAttachments(prev => prev.map(item => item.file === file ? { ...item, ocr } : item));
+        } catch (error) {
+          console.error('Erro na leitura automática do comprovante:', error);
+        } finally {
+          setPendingReceipts(count => count - 1);
         }
-        
-        if (data) {
-          uploadedUrls.push(data.path);
+      }
+      await releaseOcrWorker();
+    });
+  };
+
+  // Fotos são reduzidas e perdem o EXIF antes da validação; formato e tamanho
+  // são conferidos já na seleção e o servidor repete a validação
+  const handleFilesSelected = async (files: File[]) => {
+    setPreparingFiles(true);
+    try {
+      const { compressed, failed } = await compressImages(files);
+      const selectedBytes = attachments.reduce((total, { file }) => total + file.size, attachedBytes(draftDocuments));
+      const { accepted, rejected } = await validateSelectedFiles(compressed, selectedBytes);
+
+      const problems = [
+        ...failed.map(file => `${file.name}: Não foi possível ler a imagem.`),
+        ...rejected.map(({ file, message }) => `${file.name}: ${message}`),
+      ];
+
+      const prepared: PendingDocument[] = [];
+      for (const file of accepted) {
+        if (!isInvoiceXml(file)) {
+          prepared.push({ file, category: 'comprovante' });
+          continue;
+        }
+
+        const invoice = await readInvoiceXml(file);
+        if ('error' in invoice) {
+          problems.push(`${file.name}: ${invoiceParseMessages[invoice.error]}`);
+        } else {
+          prepared.push({ file, category: 'nota_fiscal', invoice: invoice.data });
+          applyInvoice(invoice.data);
         }
       }
-      
-      return uploadedUrls;
-    } catch (error) {
-      console.error('Upload files error:', error);
-      throw error;
+
+      if (problems.length > 0) {
+        toast({
+          title: "Arquivos não aceitos",
+          description: problems.join(' '),
+          variant: "destructive",
+        });
+      }
+
+      setAttachments(prev => [...prev, ...prepared]);
+      readReceipts(prepared.filter(({ invoice, file }) => !invoice && canReadReceipt(file)).map(({ file }) => file));
+    } finally {
+      setPreparingFiles(false);
     }
   };
 
+  const useSuggestedAmount = () => {
+    form.setValue('amount', suggestedAmount);
+    toast({
+      title: "Valor atualizado",
+      description: `Valor sugerido de R$ ${suggestedAmount.toFixed(2)} aplicado.`,
+    });
+  };
+
   async function onSubmit(values: FormData) {
     if (!profile?.id) {
       toast({
@@ -152,46 +369,57 @@ export function RequestForm() {
       return;
     }
 
+    if (evaluation && values.amount > evaluation.amount) {
+      toast({
+        title: "Valor acima da política",
+        description: `O valor máximo para esta solicitação é R$ ${evaluation.amount.toFixed(2)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setUploading(true);
-      
-      // Validar dependentes se foram preenchidos
-      const validDependents = dependents.filter(dep => dep.name.trim() && dep.relationship.trim());
-      
-      // Upload attachments (opcional)
-      let uploadedFiles: string[] = [];
-      if (attachments.length > 0) {
+      // O salvamento automático em andamento termina antes do envio, para o rascunho não ficar para trás
+      submitting.current = true;
+      await draftSave.current;
+
+      const requestData = {
+        type: values.type,
+        description: values.description,
+        amount: values.amount,
+        polo: values.polo,
+        dependentIds: selectedDependents.map(dependent => dependent.id),
+        draftId: draftIdRef.current ?? undefined,
+      };
+
+      console.log('Dados da solicitação:', requestData);
+      const createdRequest = await createRequest(requestData);
+
+      // Documentos são vinculados à solicitação já criada; os salvos no rascunho já estão nela
+      const remainingAttachments = attachments.filter(item => !savedAttachments.current.has(item));
+      if (remainingAttachments.length > 0) {
         try {
-          console.log('Iniciando upload de', attachments.length, 'arquivos');
-          uploadedFiles = await uploadFiles(attachments);
-          console.log('Upload concluído. Arquivos:', uploadedFiles);
+          console.log('Iniciando upload de', remainingAttachments.length, 'arquivos');
+          await uploadDocuments(remainingAttachments, createdRequest.id);
         } catch (uploadError) {
           console.error('Erro no upload de arquivos:', uploadError);
           toast({
             title: "Aviso",
-            description: "Erro ao fazer upload dos anexos, mas a solicitação será criada.",
+            description: uploadError instanceof Error
+            ? `A solicitação foi criada, mas houve erro no upload dos anexos. ${uploadError.message}`
+            : "A solicitação foi criada, mas houve erro no upload dos anexos.",
             variant: "destructive",
           });
         }
       }
       
-      const requestData = {
-        type: values.type,
-        description: values.description,
-        amount: values.amount,
-        polo: values.polo,
-        dependents: validDependents,
-        attachments: uploadedFiles,
-      };
-
-      console.log('Dados da solicitação:', requestData);
-      await createRequest(requestData);
-      
-      // Reset form and dependents
-      form.reset();
-      setDependents([]);
-      setAttachments([]);
-      setShowCalculator(false);
+      // Reset form, dependents and draft
+      const submittedDraft = !!draftIdRef.current;
+      resetForm();
+      if (submittedDraft) {
+        onDraftChange?.(null);
+      }
       
       toast({
         title: "Sucesso!",
@@ -201,10 +429,13 @@ export function RequestForm() {
       console.error('Erro ao criar solicitação:', error);
       toast({
         title: "Erro",
-        description: "Erro ao criar solicitação. Tente novamente.",
+        description: error instanceof RequestManagementError
+          ? error.message
+          : "Erro ao criar solicitação. Tente novamente.",
         variant: "destructive",
       });
     } finally {
+      submitting.current = false;
       setUploading(false);
     }
   }
@@ -217,7 +448,8 @@ export function RequestForm() {
           Nova Solicitação
         </CardTitle>
         <CardDescription>
-          Preencha os dados para solicitar auxílio financeiro
+          Preencha os dados para solicitar auxílio financeiro. O preenchimento é salvo como rascunho
+          automaticamente e pode ser continuado em outro dispositivo
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -240,37 +472,39 @@ export function RequestForm() {
               
               {showCalculator && (
                 <div className="bg-gradient-subtle p-4 rounded-lg border border-primary/20 space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="salary"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Salário Bruto Mensal</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            placeholder="Digite seu salário"
-                            {...field}
-                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {/* O salário vem do cadastro mantido pelo RH; submit-request usa o mesmo valor */}
+                  <div>
+                    <p className="text-sm font-medium">Salário Bruto Mensal</p>
+                    <p className="text-sm text-muted-foreground">
+                      {profile?.salary != null
+                        ? `R$ ${Number(profile.salary).toFixed(2)} (cadastrado pelo RH)`
+                        : 'Não cadastrado pelo RH; vale apenas o piso da política.'}
+                    </p>
+                  </div>
                   
-                  {suggestedAmount > 0 && (
+                  {!activePolicy && (
+                    <p className="text-sm text-muted-foreground">
+                      Nenhuma política de reembolso vigente para o tipo e polo selecionados.
+                    </p>
+                  )}
+
+                  {evaluation && suggestedAmount > 0 && (
                     <div className="bg-success-light p-3 rounded-md border border-success/20">
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm font-medium text-success">💰 Valor Sugerido de Reembolso</p>
                           <p className="text-lg font-bold text-success">R$ {suggestedAmount.toFixed(2)}</p>
                           <p className="text-xs text-success/80">
-                            {suggestedAmount === BASE_SALARY 
-                              ? `Piso mínimo: 100% até R$ ${BASE_SALARY.toFixed(2)}`
-                              : `90% do salário: R$ ${(watchSalary * SALARY_PERCENTAGE).toFixed(2)}`
+                            {evaluation.ceilingApplied
+                              ? `Teto da política: R$ ${suggestedAmount.toFixed(2)}`
+                              : evaluation.floorApplied
+                                ? `Piso mínimo: 100% até R$ ${Number(evaluation.policy.floor).toFixed(2)}`
+                                : `${(Number(evaluation.policy.percentage) * 100).toFixed(0)}% do salário: R$ ${evaluation.salaryBased.toFixed(2)}`
                             }
+                            {validDependentsCount > 0 && Number(evaluation.policy.dependent_multiplier) > 0 && ` • inclui ${validDependentsCount} dependente(s)`}
+                          </p>
+                          <p className="text-xs text-success/80">
+                            Política: {evaluation.policy.name} (versão {evaluation.policy.version})
                           </p>
                         </div>
                         <Button
@@ -302,13 +536,18 @@ export function RequestForm() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="psicológico">Auxílio Psicológico</SelectItem>
-                      <SelectItem value="médico">Auxílio Médico</SelectItem>
-                      <SelectItem value="odontológico">Auxílio Odontológico</SelectItem>
-                      <SelectItem value="fisioterapia">Fisioterapia</SelectItem>
-                      <SelectItem value="outros">Outros</SelectItem>
+                      {activeBenefitTypes.map((benefitType) => (
+                        <SelectItem key={benefitType.code} value={benefitType.code}>
+                          <BenefitTypeLabel code={benefitType.code} benefitType={benefitType} />
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {(getBenefitType(field.value)?.required_documents.length ?? 0) > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Documentos necessários: {getBenefitType(field.value)?.required_documents.join(', ')}
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -328,10 +567,9 @@ export function RequestForm() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="sumare">Sumaré</SelectItem>
-                      <SelectItem value="itapetininga">Itapetininga</SelectItem>
-                      <SelectItem value="manaus">Manaus</SelectItem>
-                      <SelectItem value="ribeirao_preto">Ribeirão Preto</SelectItem>
+                      {activePolos.map((polo) => (
+                        <SelectItem key={polo.code} value={polo.code}>{polo.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -340,66 +578,40 @@ export function RequestForm() {
             />
 
             {/* Dependentes */}
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-foreground">Dependentes</h3>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={addDependent}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Adicionar Dependente
-                </Button>
-              </div>
-              
-              {dependents.length > 0 && (
-                <div className="space-y-3">
-                  {dependents.map((dependent, index) => (
-                    <div key={index} className="bg-gradient-subtle p-4 rounded-lg border border-primary/20">
-                      <div className="flex items-center justify-between mb-3">
-                        <Badge variant="secondary">Dependente {index + 1}</Badge>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeDependent(index)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div>
-                          <label className="text-sm font-medium">Nome do Dependente</label>
-                          <Input
-                            placeholder="Nome completo"
-                            value={dependent.name}
-                            onChange={(e) => updateDependent(index, 'name', e.target.value)}
-                          />
-                        </div>
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold text-foreground">Dependentes</h3>
+              {activeDependents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nenhum dependente cadastrado. Cadastre em "Meus Dependentes" para incluí-los na solicitação.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {activeDependents.map((dependent) => {
+                    const ineligibility = checkEligibility(dependent, new Date());
+
+                    return (
+                      <label
+                        key={dependent.id}
+                        className={`flex items-start gap-3 p-3 rounded-lg border border-primary/20 bg-gradient-subtle ${ineligibility ? 'opacity-60' : 'cursor-pointer'}`}
+                      >
+                        <Checkbox
+                          checked={selectedDependentIds.includes(dependent.id)}
+                          disabled={!!ineligibility}
+                          onCheckedChange={(checked) => toggleDependent(dependent.id, checked === true)}
+                        />
                         <div>
-                          <label className="text-sm font-medium">Parentesco</label>
-                          <Select
-                            value={dependent.relationship}
-                            onValueChange={(value) => updateDependent(index, 'relationship', value)}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Selecione" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="filho">Filho(a)</SelectItem>
-                              <SelectItem value="conjuge">Cônjuge</SelectItem>
-                              <SelectItem value="pai">Pai</SelectItem>
-                              <SelectItem value="mae">Mãe</SelectItem>
-                              <SelectItem value="irmao">Irmão(ã)</SelectItem>
-                              <SelectItem value="outro">Outro</SelectItem>
-                            </SelectContent>
-                          </Select>
+                          <p className="text-sm font-medium">{dependent.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {dependentRelationshipLabels[dependent.relationship]} • {ageOn(dependent.birthdate, new Date())} anos
+                            {dependent.is_student && ' • estudante'}
+                          </p>
+                          {ineligibility && (
+                            <p className="text-xs text-warning">{dependentIneligibilityMessages[ineligibility]}</p>
+                          )}
                         </div>
-                      </div>
-                    </div>
-                  ))}
+                      </label>
+                    );
+                  })}
                 </div>
               )}
             </div>
@@ -444,6 +656,29 @@ export function RequestForm() {
               )}
             />
 
+            {capBalances.length > 0 && (
+              <div className={`p-3 rounded-md border ${capViolations.length > 0 ? 'bg-warning-light border-warning/20' : 'bg-muted/50 border-border'}`}>
+                <p className="text-sm font-medium">Saldo anual disponível ({capBalances[0].year})</p>
+                {capBalances.map((balance) => (
+                  <div key={balance.cap.id} className="text-sm text-muted-foreground">
+                    <p>
+                      {balance.cap.request_type ? 'Teto do tipo' : 'Teto geral'}: R$ {balance.remaining.toFixed(2)} de R$ {balance.limit.toFixed(2)}
+                    </p>
+                    {balance.dependents.map((dependent) => (
+                      <p key={dependent.name} className="text-xs">
+                        {dependent.name}: R$ {dependent.remaining.toFixed(2)} de R$ {dependent.limit.toFixed(2)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+                {capViolations.length > 0 && (
+                  <p className="text-xs text-warning mt-1">
+                    O valor informado excede o saldo restante e dependerá de aprovação excepcional da gestora.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Anexos */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Anexos (PDF, Imagens)</label>
@@ -451,10 +686,10 @@ export function RequestForm() {
                 <Input
                   type="file"
                   multiple
-                  accept=".pdf,.jpg,.jpeg,.png,.gif,.webp"
+                  accept=".pdf,.jpg,.jpeg,.png,.webp,.xml"
                   onChange={(e) => {
-                    const files = Array.from(e.target.files || []);
-                    setAttachments(prev => [...prev, ...files]);
+                    handleFilesSelected(Array.from(e.target.files || []));
+                    e.target.value = '';
                   }}
                   className="hidden"
                   id="file-upload"
@@ -464,22 +699,91 @@ export function RequestForm() {
                     <Upload className="h-8 w-8 text-muted-foreground" />
                     <p className="text-sm text-muted-foreground text-center">
                       Clique para adicionar arquivos<br />
-                      (PDF, JPG, PNG, GIF, WebP - máx. 50MB)
+                      (PDF, JPG, PNG, WebP ou XML da NF-e/NFS-e - máx. 10MB por arquivo, 30MB no total)<br />
+                      O XML da nota preenche o valor e a descrição automaticamente<br />
+                      Fotos são reduzidas e têm a localização removida antes do envio
                     </p>
                   </div>
                 </label>
+
+                {preparingFiles && (
+                  <p className="text-sm text-muted-foreground text-center mt-2">Preparando arquivos...</p>
+                )}
+
+                <div className="mt-4">
+                  {showPdfBuilder ? (
+                    <ReceiptPdfBuilder
+                      onCreate={async (pdf) => {
+                        await handleFilesSelected([pdf]);
+                        setShowPdfBuilder(false);
+                      }}
+                      onCancel={() => setShowPdfBuilder(false)}
+                    />
+                  ) : (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setShowPdfBuilder(true)}>
+                      <FileStack className="h-4 w-4 mr-2" />
+                      Juntar fotos de um recibo em um PDF
+                    </Button>
+                  )}
+                </div>
                 
+                {draftId && draftDocuments.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">Salvos no rascunho</p>
+                    {draftDocuments.map((document) => (
+                      <div key={document.id} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                        <div className="flex items-center gap-2">
+                          <File className="h-4 w-4" />
+                          <span className="text-sm">{document.file_name}</span>
+                          <ScanStatusBadge status={document.scan_status as ScanStatus} />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeDraftDocument(document)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {attachments.length > 0 && (
                   <div className="mt-4 space-y-2">
-                    {attachments.map((file, index) => (
-                      <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+                    {attachments.map(({ file, category, invoice, ocr }, index) => (
+                      <div key={index} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
                         <div className="flex items-center gap-2">
                           <File className="h-4 w-4" />
-                          <span className="text-sm">{file.name}</span>
-                          <span className="text-xs text-muted-foreground">
-                            ({(file.size / 1024 / 1024).toFixed(1)} MB)
-                          </span>
+                          <div>
+                            <span className="text-sm">{file.name}</span>
+                            <span className="text-xs text-muted-foreground ml-1">
+                              ({(file.size / 1024 / 1024).toFixed(1)} MB)
+                            </span>
+                            {invoice && (
+                              <p className="text-xs text-muted-foreground">
+                                {invoiceKindLabels[invoice.kind]} • CNPJ {formatCnpj(invoice.issuer_cnpj)} • R$ {invoice.total_amount.toFixed(2)}
+                              </p>
+                            )}
+                            {ocr && <ReceiptOcrSummary ocr={ocr} expectedAmount={watchAmount || 0} />}
+                          </div>
                         </div>
+                        <Select
+                          value={category}
+                          onValueChange={(value: DocumentCategory) => {
+                            setAttachments(prev => prev.map((item, i) => i === index ? { ...item, category: value } : item));
+                          }}
+                        >
+                          <SelectTrigger className="w-48 ml-auto">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(documentCategoryLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <Button
                           type="button"
                           variant="ghost"
@@ -497,8 +801,22 @@ export function RequestForm() {
               </div>
             </div>
 
-            <Button type="submit" disabled={loading || uploading} className="w-full">
-              {uploading ? 'Fazendo upload...' : loading ? 'Enviando...' : 'Enviar Solicitação'}
+            {(draftSavedAt || draftError) && (
+              <p className={`text-xs text-center ${draftError ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {draftError
+                  ? `Não foi possível salvar o rascunho: ${draftError}`
+                  : `Rascunho salvo às ${draftSavedAt?.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`}
+              </p>
+            )}
+
+            <Button type="submit" disabled={loading || uploading || preparingFiles || pendingReceipts > 0} className="w-full">
+              {uploading
+                ? 'Fazendo upload...'
+                : loading
+                  ? 'Enviando...'
+                  : pendingReceipts > 0
+                    ? `Lendo comprovantes (${pendingReceipts})...`
+                    : 'Enviar Solicitação'}
             </Button>
           </form>
         </Form>
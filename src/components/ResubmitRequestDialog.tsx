@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { Request, ResubmissionChanges } from '@/hooks/useRequests';
+import { useDocuments, attachedBytes, validateSelectedFiles, isInvoiceXml, documentCategoryLabels, DocumentCategory, PendingDocument } from '@/hooks/useDocuments';
+import { compressImages } from '@/lib/documentPreparation';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { File, Upload, X, Send, Save } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+interface ResubmitRequestDialogProps {
+  request: Request | null;
+  onOpenChange: (open: boolean) => void;
+  resubmitRequest: (requestId: string, changes: ResubmissionChanges, response: string) => Promise<void>;
+  // Solicitação ainda pendente: edição direta, sem resposta à gestora
+  editRequest: (requestId: string, changes: ResubmissionChanges) => Promise<void>;
+}
+
+export function ResubmitRequestDialog({
+  request,
+  onOpenChange,
+  resubmitRequest,
+  editRequest,
+}: ResubmitRequestDialogProps) {
+  const { toast } = useToast();
+  const { documents, uploadDocuments } = useDocuments(request?.id ?? null);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [response, setResponse] = useState('');
+  const [removedDocumentIds, setRemovedDocumentIds] = useState<string[]>([]);
+  const [newFiles, setNewFiles] = useState<PendingDocument[]>([]);
+  // Arquivos já enviados nesta alteração, mesmo que a chamada seguinte tenha falhado
+  const [uploadedIds, setUploadedIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (request) {
+      setDescription(request.description);
+      setAmount(request.amount);
+      setResponse('');
+      setRemovedDocumentIds([]);
+      setNewFiles([]);
+      setUploadedIds([]);
+    }
+  }, [request]);
+
+  const isEditing = request?.status === 'pending';
+  const openRound = request?.info_rounds?.find(round => !round.responded_at);
+
+  // Os anexos removidos só são apagados no reenvio, depois do upload, por isso ainda contam no limite
+  const handleFilesSelected = async (files: File[]) => {
+    // Mesmo preparo do formulário: fotos reduzidas e sem EXIF
+    const { compressed, failed } = await compressImages(files);
+    const selectedBytes = newFiles.reduce((total, { file }) => total + file.size, 0);
+    const { accepted, rejected } = await validateSelectedFiles(compressed, attachedBytes(documents) + selectedBytes);
+
+    const problems = [
+      ...failed.map(file => `${file.name}: Não foi possível ler a imagem.`),
+      ...rejected.map(({ file, message }) => `${file.name}: ${message}`),
+    ];
+    if (problems.length > 0) {
+      toast({
+        title: 'Arquivos não aceitos',
+        description: problems.join(' '),
+        variant: 'destructive',
+      });
+    }
+
+    setNewFiles(prev => [
+      ...prev,
+      ...accepted.map(file => ({ file, category: (isInvoiceXml(file) ? 'nota_fiscal' : 'comprovante') as DocumentCategory })),
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    if (!request) return;
+
+    if (description.trim().length < 10) {
+      toast({
+        title: 'Descrição muito curta',
+        description: 'Descrição deve ter pelo menos 10 caracteres',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (amount <= 0) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Valor deve ser maior que zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const uploaded = await uploadDocuments(newFiles);
+      const addedDocumentIds = [...uploadedIds, ...uploaded.map(document => document.id)];
+      // Já enviados: uma nova tentativa de reenvio não duplica os arquivos
+      setUploadedIds(addedDocumentIds);
+      setNewFiles([]);
+
+      const changes = { description, amount, removedDocumentIds, addedDocumentIds };
+      if (isEditing) {
+        await editRequest(request.id, changes);
+      } else {
+        await resubmitRequest(request.id, changes, response);
+      }
+      toast({
+        title: isEditing ? 'Solicitação atualizada' : 'Solicitação reenviada',
+        description: isEditing
+          ? 'As alterações ficam registradas no histórico da solicitação.'
+          : 'Sua solicitação voltou para análise da gestora.',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: isEditing ? 'Erro ao salvar alterações' : 'Erro ao reenviar',
+        description: errorMessage(error, 'Não foi possível salvar a solicitação.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Editar Solicitação' : 'Complementar Solicitação'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Ajuste os dados enquanto a gestora não iniciou a análise'
+              : 'Responda à gestora, ajuste os dados se necessário e reenvie para análise'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            {openRound && (
+              <div className="bg-warning-light p-3 rounded-md border border-warning/20">
+                <p className="text-sm font-medium text-warning">Pergunta da gestora:</p>
+                <p className="text-sm">{openRound.question}</p>
+              </div>
+            )}
+
+            {!isEditing && (
+              <div>
+                <label className="text-sm font-medium">Sua resposta</label>
+                <Textarea
+                  placeholder="Explique o que foi ajustado ou enviado..."
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium">Descrição Detalhada</label>
+              <Textarea
+                className="min-h-[100px]"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Valor Solicitado (R$)</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Anexos</label>
+              {documents.filter(document => !removedDocumentIds.includes(document.id)).map((document) => (
+                <div key={document.id} className="flex items-center justify-between p-2 bg-muted rounded">
+                  <div className="flex items-center gap-2">
+                    <File className="h-4 w-4" />
+                    <span className="text-sm">{document.file_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      ({documentCategoryLabels[document.category as DocumentCategory] ?? document.category})
+                    </span>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRemovedDocumentIds(prev => [...prev, document.id])}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {newFiles.map(({ file, category }, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                  <div className="flex items-center gap-2">
+                    <Upload className="h-4 w-4" />
+                    <span className="text-sm">{file.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      ({(file.size / 1024 / 1024).toFixed(1)} MB)
+                    </span>
+                  </div>
+                  <Select
+                    value={category}
+                    onValueChange={(value: DocumentCategory) => {
+                      setNewFiles(prev => prev.map((item, i) => i === index ? { ...item, category: value } : item));
+                    }}
+                  >
+                    <SelectTrigger className="w-48 ml-auto">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(documentCategoryLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setNewFiles(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Input
+                type="file"
+                multiple
+                accept=".pdf,.jpg,.jpeg,.png,.webp,.xml"
+                onChange={(e) => {
+                  handleFilesSelected(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {isEditing ? <Save className="w-4 h-4 mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+            {submitting
+              ? (isEditing ? 'Salvando...' : 'Reenviando...')
+              : (isEditing ? 'Salvar Alterações' : 'Reenviar Solicitação')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
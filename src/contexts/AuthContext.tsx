@@ -2,15 +2,19 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
+export type UserRole = 'solicitante' | 'gestora' | 'admin' | 'financeiro';
+
 interface UserProfile {
   id: string;
   auth_id: string;
   name: string;
   email: string;
-  role: 'solicitante' | 'gestora';
+  role: UserRole;
   department?: string;
   phone?: string;
   polo?: string;
+  // Salário bruto mensal cadastrado pelo RH
+  salary?: number | null;
   privacy_consent: boolean;
   privacy_consent_date?: string;
   created_at: string;
@@ -23,7 +27,7 @@ interface AuthContextType {
   profile: UserProfile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, name: string, role?: 'solicitante' | 'gestora') => Promise<{ error: any }>;
+  signUp: (email: string, password: string, name: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   updatePrivacyConsent: () => Promise<void>;
   fetchUserProfile: (authId: string) => Promise<void>;
@@ -99,7 +103,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
-  const signUp = async (email: string, password: string, name: string, role: 'solicitante' | 'gestora' = 'solicitante') => {
+  // Novos cadastros são sempre solicitantes; papéis são atribuídos por um admin
+  const signUp = async (email: string, password: string, name: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
@@ -109,7 +114,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         emailRedirectTo: redirectUrl,
         data: {
           name,
-          role,
         },
       },
     });
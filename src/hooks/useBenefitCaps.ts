@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { BenefitCap } from '@shared/benefitCaps';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+
+export type NewBenefitCap = Pick<TablesInsert<'benefit_caps'>, 'request_type' | 'annual_limit' | 'per_dependent_limit'>;
+
+export function useBenefitCaps() {
+  const { profile } = useAuth();
+  const [caps, setCaps] = useState<BenefitCap[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCaps = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('benefit_caps')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setCaps(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar tetos'));
+      console.error('Error fetching benefit caps:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  const createCap = async (cap: NewBenefitCap) => {
+    if (!profile) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('benefit_caps')
+      .insert({ ...cap, created_by: profile.id });
+
+    if (error) throw error;
+
+    await fetchCaps();
+  };
+
+  const setCapActive = async (capId: string, active: boolean) => {
+    const { error } = await supabase
+      .from('benefit_caps')
+      .update({ active })
+      .eq('id', capId);
+
+    if (error) throw error;
+
+    await fetchCaps();
+  };
+
+  useEffect(() => {
+    if (profile) {
+      fetchCaps();
+    }
+  }, [profile, fetchCaps]);
+
+  return {
+    caps,
+    loading,
+    error,
+    createCap,
+    setCapActive,
+    refetch: fetchCaps,
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+
+export type BenefitType = Tables<'benefit_types'>;
+export type NewBenefitType = Omit<TablesInsert<'benefit_types'>, 'created_at' | 'updated_at'>;
+export type BenefitTypeChanges = Omit<TablesUpdate<'benefit_types'>, 'code' | 'created_at' | 'updated_at'>;
+
+export function useBenefitTypes() {
+  const { profile } = useAuth();
+  const [benefitTypes, setBenefitTypes] = useState<BenefitType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBenefitTypes = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('benefit_types')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('label', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setBenefitTypes(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar tipos de auxílio'));
+      console.error('Error fetching benefit types:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  const createBenefitType = async (benefitType: NewBenefitType) => {
+    const { error } = await supabase
+      .from('benefit_types')
+      .insert(benefitType);
+
+    if (error) throw error;
+
+    await fetchBenefitTypes();
+  };
+
+  // O código não muda: ele é a chave gravada em requests.type
+  const updateBenefitType = async (code: string, changes: BenefitTypeChanges) => {
+    const { error } = await supabase
+      .from('benefit_types')
+      .update(changes)
+      .eq('code', code);
+
+    if (error) throw error;
+
+    await fetchBenefitTypes();
+  };
+
+  // Tipos inativos continuam resolvendo o rótulo de solicitações antigas
+  const getBenefitType = (code: string) => benefitTypes.find(type => type.code === code);
+
+  useEffect(() => {
+    if (profile) {
+      fetchBenefitTypes();
+    }
+  }, [profile, fetchBenefitTypes]);
+
+  return {
+    benefitTypes,
+    activeBenefitTypes: benefitTypes.filter(type => type.active),
+    loading,
+    error,
+    getBenefitType,
+    createBenefitType,
+    updateBenefitType,
+    refetch: fetchBenefitTypes,
+  };
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { errorMessage } from '@/lib/errors';
+
+export interface Comment {
+  id: string;
+  request_id: string;
+  user_id: string;
+  comment: string;
+  is_internal: boolean;
+  created_at: string;
+  users?: {
+    name: string;
+    role: string;
+  } | null;
+}
+
+export function useComments(requestId: string | null) {
+  const { profile } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchComments = useCallback(async () => {
+    if (!profile || !requestId) return;
+
+    try {
+      setLoading(true);
+      // RLS já esconde as notas internas de quem não é gestora
+      const { data, error: fetchError } = await supabase
+        .from('comments')
+        .select(`
+          *,
+          users!comments_user_id_fkey (
+            name,
+            role
+          )
+        `)
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setComments(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar comentários'));
+      console.error('Error fetching comments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, requestId]);
+
+  const addComment = async (comment: string, isInternal = false) => {
+    if (!profile) throw new Error('User not authenticated');
+    if (!requestId) throw new Error('Request not selected');
+
+    const { error } = await supabase
+      .from('comments')
+      .insert({
+        request_id: requestId,
+        user_id: profile.id,
+        comment,
+        is_internal: isInternal,
+      });
+
+    if (error) throw error;
+
+    // O canal realtime também dispara, mas atualizamos já para quem enviou
+    await fetchComments();
+  };
+
+  useEffect(() => {
+    if (!profile || !requestId) return;
+
+    fetchComments();
+
+    const channel = supabase
+      .channel(`comments:${requestId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'comments',
+          filter: `request_id=eq.${requestId}`,
+        },
+        () => {
+          fetchComments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, requestId, fetchComments]);
+
+  return {
+    comments,
+    loading,
+    error,
+    addComment,
+    refetch: fetchComments,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Dependent } from '@shared/dependents';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+
+export type NewDependent = Pick<TablesInsert<'dependents'>, 'name' | 'cpf' | 'birthdate' | 'relationship' | 'is_student'>;
+
+// Violação de unicidade (user_id, cpf) no Postgres
+const UNIQUE_VIOLATION = '23505';
+
+export function useDependents() {
+  const { profile } = useAuth();
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDependents = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('dependents')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setDependents(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar dependentes'));
+      console.error('Error fetching dependents:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  const saveDependent = async (dependent: NewDependent, dependentId?: string) => {
+    if (!profile) throw new Error('User not authenticated');
+
+    const values = { ...dependent, name: dependent.name.trim(), cpf: dependent.cpf.replace(/\D/g, '') };
+    const { error } = dependentId
+      ? await supabase.from('dependents').update(values).eq('id', dependentId)
+      : await supabase.from('dependents').insert({ ...values, user_id: profile.id });
+
+    if (error) {
+      throw new Error(error.code === UNIQUE_VIOLATION ? 'Já existe um dependente cadastrado com este CPF.' : error.message);
+    }
+
+    await fetchDependents();
+  };
+
+  // Solicitações antigas apontam para o cadastro, por isso o dependente só é desativado
+  const setDependentActive = async (dependentId: string, active: boolean) => {
+    const { error } = await supabase
+      .from('dependents')
+      .update({ active })
+      .eq('id', dependentId);
+
+    if (error) throw error;
+
+    await fetchDependents();
+  };
+
+  useEffect(() => {
+    if (profile) {
+      fetchDependents();
+    }
+  }, [profile, fetchDependents]);
+
+  return {
+    dependents,
+    activeDependents: dependents.filter(dependent => dependent.active),
+    loading,
+    error,
+    saveDependent,
+    setDependentActive,
+    refetch: fetchDependents,
+  };
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { invokeEdgeFunction } from '@/hooks/useRequests';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { ReceiptOcrData } from '@/lib/receiptOcr';
+import { SIGNATURE_LENGTH, fileValidationMessages, validateFile, FileValidationError } from '@shared/fileValidation';
+import { invoiceParseMessages, parseInvoiceXml, InvoiceData, InvoiceParseError } from '@shared/invoiceXml';
+import { errorMessage } from '@/lib/errors';
+
+export type RequestDocument = Tables<'documents'>;
+
+export type DocumentCategory = 'comprovante' | 'nota_fiscal' | 'receita' | 'laudo' | 'outros';
+
+export const documentCategoryLabels: Record<DocumentCategory, string> = {
+  comprovante: 'Comprovante de pagamento',
+  nota_fiscal: 'Nota fiscal',
+  receita: 'Receita / pedido médico',
+  laudo: 'Laudo / relatório',
+  outros: 'Outros',
+};
+
+// Documentos comprobatórios do cadastro de dependentes
+export type DependentDocumentCategory = 'certidao' | 'matricula' | 'identidade';
+
+export const dependentDocumentCategoryLabels: Record<DependentDocumentCategory, string> = {
+  certidao: 'Certidão de nascimento / casamento',
+  matricula: 'Comprovante de matrícula',
+  identidade: 'Documento de identidade',
+};
+
+// Todo upload fica em quarentena até a função scan-document validar e verificar o arquivo
+export type ScanStatus = 'pending' | 'clean' | 'rejected' | 'infected' | 'error';
+
+export const scanStatusLabels: Record<ScanStatus, string> = {
+  pending: 'Em verificação',
+  clean: 'Verificado',
+  rejected: 'Recusado',
+  infected: 'Bloqueado pelo antivírus',
+  error: 'Falha na verificação',
+};
+
+// Arquivo escolhido no formulário, ainda não enviado
+export interface PendingDocument {
+  file: File;
+  category: DocumentCategory | DependentDocumentCategory;
+  // Dados lidos do XML da nota fiscal, só para exibição no formulário
+  invoice?: InvoiceData;
+  // Leitura automática do comprovante; gravada com o documento para a conferência da gestora
+  ocr?: ReceiptOcrData | null;
+}
+
+// Arquivos recusados pela verificação; o documento já foi gravado, com o status da recusa
+export class BlockedDocumentsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedDocumentsError';
+  }
+}
+
+export interface RejectedFile {
+  file: File;
+  message: string;
+}
+
+// Recusados e bloqueados não contam para o limite total da solicitação
+export const attachedBytes = (documents: RequestDocument[]) =>
+  documents
+    .filter(doc => doc.scan_status === 'pending' || doc.scan_status === 'clean')
+    .reduce((total, doc) => total + Number(doc.size ?? 0), 0);
+
+// Mesma validação que a função scan-document repete sobre o arquivo armazenado
+export const checkFile = async (file: File, otherFilesBytes = 0) => {
+  const header = new Uint8Array(await file.slice(0, SIGNATURE_LENGTH).arrayBuffer());
+  return validateFile({ header, size: file.size, mimeType: file.type }, otherFilesBytes);
+};
+
+export const validateSelectedFiles = async (files: File[], existingBytes = 0) => {
+  const accepted: File[] = [];
+  const rejected: RejectedFile[] = [];
+  let totalBytes = existingBytes;
+
+  for (const file of files) {
+    const validationError = await checkFile(file, totalBytes);
+    if (validationError) {
+      rejected.push({ file, message: fileValidationMessages[validationError] });
+    } else {
+      accepted.push(file);
+      totalBytes += file.size;
+    }
+  }
+
+  return { accepted, rejected };
+};
+
+// XML de nota fiscal: lido no navegador só para preencher o formulário; o valor gravado
+// no documento vem da leitura do arquivo armazenado, feita pela função scan-document
+export const isInvoiceXml = (file: File) =>
+  /\.xml$/i.test(file.name) || file.type === 'text/xml' || file.type === 'application/xml';
+
+export const readInvoiceXml = async (file: File) => parseInvoiceXml(await file.text());
+
+const scanFailureMessage = (status: ScanStatus, detail: string | null) => {
+  if (status === 'rejected' && detail && detail in fileValidationMessages) {
+    return fileValidationMessages[detail as FileValidationError];
+  }
+  if (status === 'rejected' && detail && detail in invoiceParseMessages) {
+    return invoiceParseMessages[detail as InvoiceParseError];
+  }
+  return scanStatusLabels[status];
+};
+
+const computeChecksum = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Os buckets são privados: toda leitura passa pela função document-access, que
+// confere o acesso, registra o evento e devolve uma URL assinada de curta duração
+const getSignedUrl = async (documentId: string, action: 'view' | 'download'): Promise<string> => {
+  const data = await invokeEdgeFunction('document-access', { documentId, action });
+  return data.signedUrl;
+};
+
+// Sem solicitação, os documentos pertencem ao dependente informado
+export function useDocuments(requestId: string | null, dependentId: string | null = null) {
+  const { profile } = useAuth();
+  const [documents, setDocuments] = useState<RequestDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    if (!profile || (!requestId && !dependentId)) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('documents')
+        .select('*')
+        .eq(requestId ? 'request_id' : 'dependent_id', requestId ?? dependentId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setDocuments(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar documentos'));
+      console.error('Error fetching documents:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, requestId, dependentId]);
+
+  // O formulário de nova solicitação só conhece o id depois do envio, por isso ele pode ser informado aqui;
+  // documentos de um recurso ficam na solicitação original, marcados com o recurso
+  const uploadDocuments = async (pending: PendingDocument[], targetRequestId = requestId, appealId?: string) => {
+    if (!profile) throw new Error('User not authenticated');
+    if (!targetRequestId && !dependentId) throw new Error('Request not selected');
+    if (pending.length === 0) return [];
+
+    // Recusa tudo antes de enviar qualquer arquivo
+    const existingBytes = targetRequestId === requestId ? attachedBytes(documents) : 0;
+    const { rejected } = await validateSelectedFiles(pending.map(({ file }) => file), existingBytes);
+    if (rejected.length > 0) {
+      throw new Error(rejected.map(({ file, message }) => `${file.name}: ${message}`).join(' '));
+    }
+
+    setUploading(true);
+    const uploaded: RequestDocument[] = [];
+    const blocked: string[] = [];
+
+    try {
+      for (const { file, category, ocr } of pending) {
+        const sanitizedName = file.name.replace(/[^a-zA-Z0-9.\-_]/g, '');
+        // A primeira pasta precisa ser o auth id para a policy de upload do storage
+        const folder = targetRequestId ?? `dependents/${dependentId}`;
+        const path = `${profile.auth_id}/${folder}/${Date.now()}-${sanitizedName}`;
+        const checksum = await computeChecksum(file);
+
+        const { error: uploadError } = await supabase.storage
+          .from('request-attachments')
+          .upload(path, file, {
+            cacheControl: '3600',
+            upsert: false
+          });
+
+        if (uploadError) {
+          throw new Error(`Erro ao fazer upload do arquivo ${file.name}: ${uploadError.message}`);
+        }
+
+        const { data: document, error: saveError } = await supabase
+          .from('documents')
+          .insert({
+            ...(targetRequestId ? { request_id: targetRequestId } : { dependent_id: dependentId }),
+            appeal_id: appealId ?? null,
+            uploaded_by: profile.id,
+            path,
+            file_name: file.name,
+            category,
+            mime_type: file.type || null,
+            size: file.size,
+            checksum,
+            ocr_data: (ocr ?? null) as unknown as Json,
+          })
+          .select()
+          .single();
+
+        if (saveError) {
+          throw saveError;
+        }
+
+        uploaded.push(document);
+
+        // Sem a verificação o documento fica em quarentena e pode ser verificado de novo depois
+        try {
+          const scan = await invokeEdgeFunction('scan-document', { documentId: document.id });
+          if (scan.status !== 'clean' && scan.status !== 'pending') {
+            blocked.push(`${file.name}: ${scanFailureMessage(scan.status, scan.detail)}`);
+          }
+        } catch (scanError) {
+          console.error('Error scanning document:', scanError);
+        }
+      }
+
+      if (blocked.length > 0) {
+        throw new BlockedDocumentsError(`Arquivos não aceitos: ${blocked.join(' ')}`);
+      }
+
+      return uploaded;
+    } finally {
+      setUploading(false);
+      if (targetRequestId === requestId) {
+        await fetchDocuments();
+      }
+    }
+  };
+
+  const rescanDocument = async (document: RequestDocument) => {
+    const scan = await invokeEdgeFunction('scan-document', { documentId: document.id });
+    await fetchDocuments();
+    return scan.status as ScanStatus;
+  };
+
+  // Usada pelo visualizador embutido; a URL expira logo, então o arquivo é carregado na hora
+  const getViewUrl = useCallback((document: RequestDocument) => getSignedUrl(document.id, 'view'), []);
+
+  const openDocument = async (document: RequestDocument) => {
+    // A aba é aberta antes da chamada para não ser bloqueada como pop-up
+    const viewer = window.open('', '_blank');
+    try {
+      const signedUrl = await getSignedUrl(document.id, 'view');
+      if (viewer) {
+        viewer.location.href = signedUrl;
+      } else {
+        window.open(signedUrl, '_blank');
+      }
+    } catch (err) {
+      viewer?.close();
+      throw err;
+    }
+  };
+
+  const downloadDocument = async (document: RequestDocument) => {
+    // A URL de download já vem com Content-Disposition: attachment
+    const signedUrl = await getSignedUrl(document.id, 'download');
+    const link = window.document.createElement('a');
+    link.href = signedUrl;
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+  };
+
+  useEffect(() => {
+    if (profile && (requestId || dependentId)) {
+      fetchDocuments();
+    }
+  }, [profile, requestId, dependentId, fetchDocuments]);
+
+  return {
+    documents,
+    loading,
+    uploading,
+    error,
+    uploadDocuments,
+    rescanDocument,
+    getViewUrl,
+    openDocument,
+    downloadDocument,
+    refetch: fetchDocuments,
+  };
+}
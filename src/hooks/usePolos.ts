@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+
+export type Polo = Tables<'polos'>;
+export type NewPolo = Omit<TablesInsert<'polos'>, 'created_at' | 'updated_at'>;
+export type PoloChanges = Omit<TablesUpdate<'polos'>, 'code' | 'created_at' | 'updated_at'>;
+
+export function usePolos() {
+  const { profile } = useAuth();
+  const [polos, setPolos] = useState<Polo[]>([]);
+  const [assignedCodes, setAssignedCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolos = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('polos')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setPolos(data || []);
+
+      // Gestoras só atuam nos polos atribuídos; o mesmo escopo é aplicado pelo RLS
+      if (profile.role === 'gestora') {
+        const { data: assignments, error: assignmentsError } = await supabase
+          .from('gestora_polos')
+          .select('polo')
+          .eq('user_id', profile.id);
+
+        if (assignmentsError) {
+          throw assignmentsError;
+        }
+
+        setAssignedCodes((assignments || []).map(assignment => assignment.polo));
+      }
+
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar polos'));
+      console.error('Error fetching polos:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  const createPolo = async (polo: NewPolo) => {
+    const { error } = await supabase
+      .from('polos')
+      .insert(polo);
+
+    if (error) throw error;
+
+    await fetchPolos();
+  };
+
+  // O código não muda: ele é a chave gravada em users, requests e gestora_polos
+  const updatePolo = async (code: string, changes: PoloChanges) => {
+    const { error } = await supabase
+      .from('polos')
+      .update(changes)
+      .eq('code', code);
+
+    if (error) throw error;
+
+    await fetchPolos();
+  };
+
+  // Polos inativos continuam resolvendo o nome de cadastros e solicitações antigas
+  const getPolo = (code: string) => polos.find(polo => polo.code === code);
+
+  const getPoloName = (code?: string | null) => (code ? getPolo(code)?.name ?? code : undefined);
+
+  useEffect(() => {
+    if (profile) {
+      fetchPolos();
+    }
+  }, [profile, fetchPolos]);
+
+  return {
+    polos,
+    activePolos: polos.filter(polo => polo.active),
+    managedPolos: profile?.role === 'gestora'
+      ? polos.filter(polo => polo.active && assignedCodes.includes(polo.code))
+      : polos.filter(polo => polo.active),
+    loading,
+    error,
+    getPolo,
+    getPoloName,
+    createPolo,
+    updatePolo,
+    refetch: fetchPolos,
+  };
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ReimbursementPolicy } from '@shared/reimbursementPolicy';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+
+export type NewReimbursementPolicy = Omit<TablesInsert<'reimbursement_policies'>, 'id' | 'version' | 'created_by' | 'created_at'>;
+
+export function useReimbursementPolicies() {
+  const { profile } = useAuth();
+  const [policies, setPolicies] = useState<ReimbursementPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('reimbursement_policies')
+        .select('*')
+        .order('effective_from', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setPolicies(data || []);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar políticas'));
+      console.error('Error fetching reimbursement policies:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  // Versões são imutáveis: alterar uma política significa criar uma nova linha
+  const createPolicy = async (policy: NewReimbursementPolicy) => {
+    if (!profile) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('reimbursement_policies')
+      .insert({ ...policy, created_by: profile.id });
+
+    if (error) throw error;
+
+    await fetchPolicies();
+  };
+
+  const setPolicyActive = async (policyId: string, active: boolean) => {
+    const { error } = await supabase
+      .from('reimbursement_policies')
+      .update({ active })
+      .eq('id', policyId);
+
+    if (error) throw error;
+
+    await fetchPolicies();
+  };
+
+  useEffect(() => {
+    if (profile) {
+      fetchPolicies();
+    }
+  }, [profile, fetchPolicies]);
+
+  return {
+    policies,
+    loading,
+    error,
+    createPolicy,
+    setPolicyActive,
+    refetch: fetchPolicies,
+  };
+}
@@ -1,33 +1,226 @@
 import { useState, useEffect } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { PaymentStatus } from '@shared/payments';
+import type { InvoiceData } from '@shared/invoiceXml';
+import type { ReceiptOcrData } from '@/lib/receiptOcr';
+import type { RequestDependent } from '@shared/dependents';
+import type { RequestAppeal } from '@shared/appeals';
 
 export interface Request {
   id: string;
   user_id: string;
-  type: 'psicológico' | 'médico' | 'odontológico' | 'fisioterapia' | 'outros';
+  // Código de benefit_types
+  type: string;
   description: string;
   amount: number;
-  status: 'pending' | 'approved' | 'rejected';
+  approved_amount?: number;
+  approval_justification?: string;
+  // Rascunhos só aparecem para o próprio solicitante, separados em `drafts`
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'info_requested' | 'cancelled';
   approved_by?: string;
   approved_at?: string;
   rejection_reason?: string;
+  cancelled_at?: string;
+  cancellation_reason?: string;
   created_at: string;
   updated_at: string;
   polo?: string;
-  attachments?: string[];
-  dependents?: Array<{
-    name: string;
-    relationship: string;
-  }>;
+  declared_salary?: number;
+  policy_id?: string;
+  policy_version?: number;
+  payment_status?: PaymentStatus;
+  payment_date?: string;
+  payment_method?: string;
+  payroll_reference?: string;
+  payment_reversal_reason?: string;
+  // Cópia do cadastro no envio; solicitações antigas só têm nome e parentesco
+  dependents?: RequestDependent[];
   users?: {
     name: string;
     email: string;
     department?: string;
     polo?: string;
   };
+  info_rounds?: RequestInfoRound[];
+  // Alterações feitas pelo solicitante, campo a campo, da mais antiga para a mais recente
+  changes?: RequestChange[];
+  // Resumo dos documentos anexados; o conteúdo é servido por useDocuments
+  documents?: Array<{
+    id: string;
+    file_name: string;
+    category: string;
+    // Preenchido pela função scan-document quando o anexo é o XML de uma nota fiscal
+    invoice_data: InvoiceData | null;
+    // Leitura automática feita no navegador do solicitante
+    ocr_data: ReceiptOcrData | null;
+  }>;
+  // Anexos iguais ou com mesmo prestador, data e valor em outras solicitações (visível só para gestoras)
+  duplicates?: RequestDuplicate[];
+  // Recurso contra a recusa; no máximo um por solicitação
+  appeal?: RequestAppeal | null;
+  // Prazo de recurso da versão da política aplicada; sem política vale o padrão
+  appeal_window_days?: number | null;
+}
+
+export type DuplicateMatchType = 'checksum' | 'invoice_reference' | 'receipt_data';
+
+export interface RequestDuplicate {
+  id: string;
+  duplicate_request_id: string;
+  match_type: DuplicateMatchType;
+  same_requester: boolean;
+}
+
+export const duplicateMatchLabels: Record<DuplicateMatchType, string> = {
+  checksum: 'arquivo idêntico',
+  invoice_reference: 'mesma nota fiscal',
+  receipt_data: 'mesmo prestador, data e valor',
+};
+
+export interface RequestInfoRound {
+  id: string;
+  question: string;
+  requested_at: string;
+  response?: string;
+  responded_at?: string;
 }
 
+export type RequestChangeField = 'description' | 'amount' | 'documents';
+
+export interface RequestChange {
+  id: string;
+  field: RequestChangeField;
+  // Texto, valor numérico ou lista de nomes de arquivo, conforme o campo
+  old_value: string | number | string[] | null;
+  new_value: string | number | string[] | null;
+  changed_at: string;
+}
+
+export const requestChangeFieldLabels: Record<RequestChangeField, string> = {
+  description: 'Descrição',
+  amount: 'Valor solicitado',
+  documents: 'Anexos',
+};
+
+// Valor efetivamente reembolsado; difere do solicitado em aprovações parciais
+export const getApprovedAmount = (request: Pick<Request, 'amount' | 'approved_amount'>) =>
+  Number(request.approved_amount ?? request.amount);
+
+export interface PaymentRecord {
+  paymentStatus: PaymentStatus;
+  paymentDate?: string;
+  paymentMethod?: string;
+  payrollReference?: string;
+  reversalReason?: string;
+}
+
+export interface PaymentBatchResult {
+  updated: string[];
+  failed: Array<{ requestId: string; code: string }>;
+}
+
+export interface ResubmissionChanges {
+  description: string;
+  amount: number;
+  // Documentos já enviados que o solicitante retirou; novos arquivos são enviados por useDocuments antes do reenvio
+  removedDocumentIds: string[];
+  // Arquivos enviados para esta alteração, registrados como novos no histórico
+  addedDocumentIds?: string[];
+}
+
+// Valores do formulário salvos automaticamente pela função request-drafts; todos podem estar vazios
+export interface DraftValues {
+  type?: string;
+  description?: string;
+  amount?: number;
+  polo?: string;
+  dependentIds?: string[];
+  // Anexos já enviados ao rascunho que o solicitante retirou do formulário
+  removedDocumentIds?: string[];
+}
+
+// Mensagens exibidas para os códigos de erro retornados pelas funções request-management, submit-request, request-drafts e request-appeals
+const requestManagementErrorMessages: Record<string, string> = {
+  unauthorized: 'Sessão expirada. Faça login novamente.',
+  forbidden: 'Você não tem permissão para executar esta ação.',
+  not_found: 'Solicitação não encontrada.',
+  invalid_transition: 'Esta solicitação já foi processada e não pode mais ser alterada.',
+  invalid_status: 'Status inválido para esta operação.',
+  missing_question: 'Informe a pergunta para o solicitante.',
+  invalid_changes: 'Revise a descrição e o valor antes de reenviar.',
+  invalid_request: 'Revise os dados da solicitação.',
+  invalid_type: 'Este tipo de auxílio não está mais disponível. Escolha outro tipo.',
+  invalid_polo: 'Este polo não está mais disponível. Escolha outro polo.',
+  out_of_scope: 'Esta solicitação pertence a um polo fora da sua gestão.',
+  no_policy: 'Nenhuma política de reembolso vigente para este tipo de auxílio e polo. Procure o RH.',
+  exceeds_policy: 'O valor solicitado excede o máximo permitido pela política de reembolso.',
+  invalid_approved_amount: 'O valor aprovado deve ser maior que zero e no máximo o valor solicitado.',
+  missing_justification: 'Justifique a aprovação de um valor menor que o solicitado.',
+  missing_payment_details: 'Informe a data e a forma de pagamento.',
+  missing_reversal_reason: 'Informe o motivo do estorno.',
+  exceeds_cap: 'O valor excede o saldo anual restante do colaborador. Confirme a exceção para aprovar.',
+  invalid_dependent: 'Dependente não encontrado no seu cadastro.',
+  dependent_ineligible: 'Um dos dependentes selecionados não atende às regras de elegibilidade.',
+  review_started: 'A gestora já iniciou a análise desta solicitação. Use os comentários para pedir alterações.',
+  not_draft: 'Este rascunho já foi enviado ou descartado em outro dispositivo.',
+  too_many_drafts: 'Você já tem muitos rascunhos salvos. Envie ou descarte algum antes de começar outro.',
+  invalid_appeal: 'Explique o motivo do recurso com pelo menos 10 caracteres.',
+  appeal_window_closed: 'O prazo para recorrer desta decisão já terminou.',
+  appeal_exists: 'Esta solicitação já tem um recurso.',
+  appeal_decided: 'Este recurso já foi decidido.',
+  own_decision: 'Você recusou esta solicitação; o recurso deve ser decidido por outra gestora ou pelo comitê.',
+  missing_decision_notes: 'Informe o parecer para indeferir o recurso.',
+  document_unavailable: 'Este arquivo ainda não passou pela verificação de segurança ou foi recusado.',
+  invalid_document_path: 'Este arquivo não está na pasta de quem o enviou e não pode ser aberto.',
+};
+
+export class RequestManagementError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'RequestManagementError';
+  }
+}
+
+const toRequestManagementError = async (error: unknown) => {
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => ({}));
+    const message = (body.code && requestManagementErrorMessages[body.code])
+      || body.error
+      || 'Erro ao atualizar status da solicitação';
+    return new RequestManagementError(message, response.status, body.code);
+  }
+
+  const message = error instanceof Error ? error.message : 'Erro ao atualizar status da solicitação';
+  return new RequestManagementError(message, 500);
+};
+
+// Reutilizada por outros hooks que chamam edge functions (ex.: useDocuments)
+export const invokeEdgeFunction = async (name: string, body: Record<string, unknown>) => {
+  // Get the current session to include the authorization token
+  const { data: { session } } = await supabase.auth.getSession();
+  
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data, error } = await supabase.functions.invoke(name, {
+    body,
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  });
+
+  if (error) {
+    console.error('Edge function error:', error);
+    throw await toRequestManagementError(error);
+  }
+
+  return data;
+};
+
 export function useRequests() {
   const { profile } = useAuth();
   const [requests, setRequests] = useState<Request[]>([]);
@@ -46,6 +239,39 @@ export function useRequests() {
           email,
           department,
           polo
+        ),
+        request_info_rounds (
+          id,
+          question,
+          requested_at,
+          response,
+          responded_at
+        ),
+        request_changes (
+          id,
+          field,
+          old_value,
+          new_value,
+          changed_at
+        ),
+        documents (
+          id,
+          file_name,
+          category,
+          invoice_data,
+          ocr_data
+        ),
+        document_duplicates!document_duplicates_request_id_fkey (
+          id,
+          duplicate_request_id,
+          match_type,
+          same_requester
+        ),
+        request_appeals (
+          *
+        ),
+        reimbursement_policies (
+          appeal_window_days
         )
       `);
 
@@ -64,11 +290,25 @@ export function useRequests() {
       }
 
       // Transform the data to match our Request interface
-      const transformedData = (data || []).map(request => ({
+      const transformedData = (data || []).map(({ request_info_rounds, request_changes, document_duplicates, request_appeals, reimbursement_policies, ...request }) => ({
         ...request,
         dependents: Array.isArray(request.dependents) 
-          ? request.dependents as Array<{ name: string; relationship: string }>
-          : []
+          ? request.dependents as unknown as RequestDependent[]
+          : [],
+        info_rounds: [...(request_info_rounds || [])].sort(
+          (a, b) => new Date(a.requested_at).getTime() - new Date(b.requested_at).getTime()
+        ),
+        changes: [...(request_changes || [])].sort(
+          (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+        ) as RequestChange[],
+        documents: (request.documents || []).map(document => ({
+          ...document,
+          invoice_data: document.invoice_data as unknown as InvoiceData | null,
+          ocr_data: document.ocr_data as unknown as ReceiptOcrData | null,
+        })),
+        duplicates: (document_duplicates || []) as RequestDuplicate[],
+        appeal: request_appeals as RequestAppeal | null,
+        appeal_window_days: reimbursement_policies?.appeal_window_days ?? null,
       }));
       setRequests(transformedData);
       setError(null);
@@ -80,62 +320,44 @@ export function useRequests() {
     }
   };
 
+  // A função submit-request aplica a política de reembolso e registra a versão usada
   const createRequest = async (requestData: {
     type: Request['type'];
     description: string;
     amount: number;
     polo: string;
-    dependents?: Array<{ name: string; relationship: string }>;
-    attachments?: string[];
+    dependentIds?: string[];
+    // Rascunho em edição; vira a solicitação enviada, com os anexos já salvos
+    draftId?: string;
   }) => {
     if (!profile) throw new Error('User not authenticated');
 
-    const { data, error } = await supabase
-      .from('requests')
-      .insert({
-        user_id: profile.id,
-        ...requestData,
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
+    const result = await invokeEdgeFunction('submit-request', requestData);
 
     // Refresh requests list
     await fetchRequests();
-    return data;
+    return result.data;
   };
 
-  const updateRequestStatus = async (
-    requestId: string,
-    status: 'approved' | 'rejected',
-    rejectionReason?: string
-  ) => {
+  // Cria o rascunho no primeiro salvamento e devolve a linha gravada
+  const saveDraft = async (values: DraftValues, draftId?: string): Promise<Request> => {
+    if (!profile) throw new Error('User not authenticated');
+
+    const result = await invokeEdgeFunction('request-drafts', { action: 'save', draftId, values });
+    return result.data;
+  };
+
+  const discardDraft = async (draftId: string) => {
+    await invokeEdgeFunction('request-drafts', { action: 'discard', draftId });
+    await fetchRequests();
+  };
+
+  // Todas as mudanças de status passam pela função request-management
+  const invokeRequestManagement = async (body: Record<string, unknown>) => {
     try {
-      console.log('Updating request status:', { requestId, status, rejectionReason });
-      
-      // Get the current session to include the authorization token
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('User not authenticated');
-      }
+      console.log('Invoking request-management:', body);
 
-      const { data, error } = await supabase.functions.invoke('request-management', {
-        body: {
-          requestId,
-          status,
-          rejectionReason,
-        },
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
-      });
-
-      if (error) {
-        console.error('Edge function error:', error);
-        throw new Error(error.message || 'Erro ao atualizar status da solicitação');
-      }
+      const data = await invokeEdgeFunction('request-management', body);
 
       console.log('Request status updated successfully:', data);
       
@@ -143,10 +365,74 @@ export function useRequests() {
       await fetchRequests();
     } catch (error: any) {
       console.error('UpdateRequestStatus error:', error);
+
+      // A solicitação mudou de status em outro lugar; atualiza a lista antes de avisar
+      if (error instanceof RequestManagementError && error.status === 409) {
+        await fetchRequests();
+      }
+
       throw error;
     }
   };
 
+  const updateRequestStatus = async (
+    requestId: string,
+    status: 'approved' | 'rejected',
+    rejectionReason?: string,
+    options: { overrideCap?: boolean; approvedAmount?: number; approvalJustification?: string } = {}
+  ) => {
+    await invokeRequestManagement({ requestId, status, rejectionReason, ...options });
+  };
+
+  const requestMoreInfo = async (requestId: string, question: string) => {
+    await invokeRequestManagement({ requestId, status: 'info_requested', question });
+  };
+
+  // Solicitante responde à gestora e devolve a solicitação para análise
+  const resubmitRequest = async (
+    requestId: string,
+    changes: ResubmissionChanges,
+    response: string
+  ) => {
+    await invokeRequestManagement({ requestId, status: 'pending', changes, response });
+  };
+
+  // Edição pelo próprio solicitante enquanto nenhuma gestora iniciou a análise
+  const editRequest = async (requestId: string, changes: ResubmissionChanges) => {
+    await invokeRequestManagement({ requestId, status: 'pending', changes });
+  };
+
+  const cancelRequest = async (requestId: string, cancellationReason?: string) => {
+    await invokeRequestManagement({ requestId, status: 'cancelled', cancellationReason });
+  };
+
+  // Recurso do solicitante contra a recusa; os novos documentos são enviados depois, ligados ao recurso
+  const submitAppeal = async (requestId: string, justification: string): Promise<RequestAppeal> => {
+    const result = await invokeEdgeFunction('request-appeals', { action: 'submit', requestId, justification });
+    await fetchRequests();
+    return result.data;
+  };
+
+  // Outra gestora do polo ou o comitê; deferir aprova a solicitação original
+  const decideAppeal = async (
+    appealId: string,
+    outcome: 'granted' | 'denied',
+    options: { decisionNotes?: string; approvedAmount?: number; overrideCap?: boolean } = {}
+  ) => {
+    try {
+      await invokeEdgeFunction('request-appeals', { action: 'decide', appealId, outcome, ...options });
+    } finally {
+      await fetchRequests();
+    }
+  };
+
+  // Registro de pagamento em lote; falhas individuais voltam em `failed` sem abortar o lote
+  const recordPayments = async (requestIds: string[], payment: PaymentRecord): Promise<PaymentBatchResult> => {
+    const data = await invokeEdgeFunction('payment-management', { requestIds, ...payment });
+    await fetchRequests();
+    return { updated: data.updated ?? [], failed: data.failed ?? [] };
+  };
+
   useEffect(() => {
     if (profile) {
       fetchRequests();
@@ -154,11 +440,21 @@ export function useRequests() {
   }, [profile]);
 
   return {
-    requests,
+    requests: requests.filter(request => request.status !== 'draft'),
+    drafts: requests.filter(request => request.status === 'draft'),
     loading,
     error,
     createRequest,
     updateRequestStatus,
+    requestMoreInfo,
+    resubmitRequest,
+    editRequest,
+    cancelRequest,
+    submitAppeal,
+    decideAppeal,
+    recordPayments,
+    saveDraft,
+    discardDraft,
     refetch: fetchRequests,
   };
 }
\ No newline at end of file
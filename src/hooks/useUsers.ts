@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { errorMessage } from '@/lib/errors';
+
+export interface ManagedUser {
+  id: string;
+  auth_id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  department?: string;
+  polo?: string;
+  // Salário bruto mensal usado na política de reembolso
+  salary: number | null;
+  created_at: string;
+  // Códigos dos polos sob responsabilidade da gestora
+  gestora_polos: string[];
+}
+
+export function useUsers() {
+  const { profile } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    if (!profile || profile.role !== 'admin') return;
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('users')
+        .select(`
+          id,
+          auth_id,
+          name,
+          email,
+          role,
+          department,
+          polo,
+          salary,
+          created_at,
+          gestora_polos (
+            polo
+          )
+        `)
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const transformedData = (data || []).map(user => ({
+        ...user,
+        gestora_polos: (user.gestora_polos || []).map(assignment => assignment.polo),
+      }));
+      setUsers(transformedData);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Erro ao carregar usuários'));
+      console.error('Error fetching users:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  // A mudança de papel é registrada em audit_logs pelo trigger guard_user_role_change
+  const updateUserRole = async (userId: string, role: UserRole) => {
+    const { error } = await supabase
+      .from('users')
+      .update({ role })
+      .eq('id', userId);
+
+    if (error) throw error;
+
+    await fetchUsers();
+  };
+
+  // Só administradores alteram o salário; o trigger guard_user_salary_change registra em audit_logs
+  const updateUserSalary = async (userId: string, salary: number | null) => {
+    const { error } = await supabase
+      .from('users')
+      .update({ salary })
+      .eq('id', userId);
+
+    if (error) throw error;
+
+    await fetchUsers();
+  };
+
+  const updateGestoraPolos = async (userId: string, polos: string[]) => {
+    const { error } = await supabase.rpc('set_gestora_polos', {
+      target_user_id: userId,
+      new_polos: polos,
+    });
+
+    if (error) throw error;
+
+    await fetchUsers();
+  };
+
+  useEffect(() => {
+    if (profile) {
+      fetchUsers();
+    }
+  }, [profile, fetchUsers]);
+
+  return {
+    users,
+    loading,
+    error,
+    updateUserRole,
+    updateUserSalary,
+    updateGestoraPolos,
+    refetch: fetchUsers,
+  };
+}
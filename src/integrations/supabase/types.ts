@@ -59,6 +59,87 @@ export type Database = {
           },
         ]
       }
+      benefit_caps: {
+        Row: {
+          active: boolean
+          annual_limit: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          per_dependent_limit: number | null
+          request_type: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          annual_limit: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          per_dependent_limit?: number | null
+          request_type?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          annual_limit?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          per_dependent_limit?: number | null
+          request_type?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "benefit_caps_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "benefit_caps_request_type_fkey"
+            columns: ["request_type"]
+            isOneToOne: false
+            referencedRelation: "benefit_types"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      benefit_types: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string | null
+          icon: string
+          label: string
+          required_documents: string[]
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string | null
+          icon?: string
+          label: string
+          required_documents?: string[]
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string | null
+          icon?: string
+          label?: string
+          required_documents?: string[]
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       comments: {
         Row: {
           comment: string
@@ -101,37 +182,560 @@ export type Database = {
           },
         ]
       }
-      invoices: {
+      dependents: {
+        Row: {
+          active: boolean
+          birthdate: string
+          cpf: string
+          created_at: string | null
+          id: string
+          is_student: boolean
+          name: string
+          relationship: Database["public"]["Enums"]["dependent_relationship"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          birthdate: string
+          cpf: string
+          created_at?: string | null
+          id?: string
+          is_student?: boolean
+          name: string
+          relationship: Database["public"]["Enums"]["dependent_relationship"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          birthdate?: string
+          cpf?: string
+          created_at?: string | null
+          id?: string
+          is_student?: boolean
+          name?: string
+          relationship?: Database["public"]["Enums"]["dependent_relationship"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dependents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_access_log: {
         Row: {
+          action: string
+          bucket: string
+          created_at: string | null
+          dependent_id: string | null
+          id: string
+          path: string
+          request_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          bucket: string
+          created_at?: string | null
+          dependent_id?: string | null
+          id?: string
+          path: string
+          request_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          bucket?: string
+          created_at?: string | null
+          dependent_id?: string | null
+          id?: string
+          path?: string
+          request_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_access_log_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_access_log_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_access_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_duplicates: {
+        Row: {
+          created_at: string | null
+          document_id: string
+          duplicate_document_id: string
+          duplicate_request_id: string
+          id: string
+          match_type: string
+          request_id: string
+          same_requester: boolean
+        }
+        Insert: {
+          created_at?: string | null
+          document_id: string
+          duplicate_document_id: string
+          duplicate_request_id: string
+          id?: string
+          match_type: string
+          request_id: string
+          same_requester: boolean
+        }
+        Update: {
+          created_at?: string | null
+          document_id?: string
+          duplicate_document_id?: string
+          duplicate_request_id?: string
+          id?: string
+          match_type?: string
+          request_id?: string
+          same_requester?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_duplicates_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_duplicates_duplicate_document_id_fkey"
+            columns: ["duplicate_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_duplicates_duplicate_request_id_fkey"
+            columns: ["duplicate_request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_duplicates_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          appeal_id: string | null
+          bucket: string
+          category: string
+          checksum: string | null
+          created_at: string | null
+          dependent_id: string | null
           file_name: string
-          file_size: number | null
-          file_url: string
           id: string
+          invoice_data: Json | null
           mime_type: string | null
-          request_id: string
-          uploaded_at: string | null
+          ocr_data: Json | null
+          path: string
+          request_id: string | null
+          scan_detail: string | null
+          scan_status: string
+          scanned_at: string | null
+          size: number | null
+          uploaded_by: string | null
         }
         Insert: {
+          appeal_id?: string | null
+          bucket?: string
+          category?: string
+          checksum?: string | null
+          created_at?: string | null
+          dependent_id?: string | null
           file_name: string
-          file_size?: number | null
-          file_url: string
           id?: string
+          invoice_data?: Json | null
           mime_type?: string | null
-          request_id: string
-          uploaded_at?: string | null
+          ocr_data?: Json | null
+          path: string
+          request_id?: string | null
+          scan_detail?: string | null
+          scan_status?: string
+          scanned_at?: string | null
+          size?: number | null
+          uploaded_by?: string | null
         }
         Update: {
+          appeal_id?: string | null
+          bucket?: string
+          category?: string
+          checksum?: string | null
+          created_at?: string | null
+          dependent_id?: string | null
           file_name?: string
-          file_size?: number | null
-          file_url?: string
           id?: string
+          invoice_data?: Json | null
           mime_type?: string | null
+          ocr_data?: Json | null
+          path?: string
+          request_id?: string | null
+          scan_detail?: string | null
+          scan_status?: string
+          scanned_at?: string | null
+          size?: number | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_appeal_id_fkey"
+            columns: ["appeal_id"]
+            isOneToOne: false
+            referencedRelation: "request_appeals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gestora_polos: {
+        Row: {
+          created_at: string | null
+          polo: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          polo: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          polo?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gestora_polos_polo_fkey"
+            columns: ["polo"]
+            isOneToOne: false
+            referencedRelation: "polos"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "gestora_polos_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_log: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          id: string
+          last_error: string | null
+          provider_message_id: string | null
+          recipient: string
+          request_id: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_status"]
+          subject: string
+          template: string
+          template_version: string
+          transport: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          request_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_status"]
+          subject: string
+          template: string
+          template_version: string
+          transport: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          request_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_status"]
+          subject?: string
+          template?: string
+          template_version?: string
+          transport?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_log_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      polos: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string | null
+          name: string
+          region: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string | null
+          name: string
+          region?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string | null
+          name?: string
+          region?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      reimbursement_policies: {
+        Row: {
+          active: boolean
+          appeal_window_days: number
+          ceiling: number | null
+          created_at: string | null
+          created_by: string | null
+          dependent_multiplier: number
+          effective_from: string
+          effective_to: string | null
+          floor: number
+          id: string
+          name: string
+          percentage: number
+          polo: string | null
+          request_type: string | null
+          version: number
+        }
+        Insert: {
+          active?: boolean
+          appeal_window_days?: number
+          ceiling?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          dependent_multiplier?: number
+          effective_from: string
+          effective_to?: string | null
+          floor?: number
+          id?: string
+          name: string
+          percentage: number
+          polo?: string | null
+          request_type?: string | null
+          version?: never
+        }
+        Update: {
+          active?: boolean
+          appeal_window_days?: number
+          ceiling?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          dependent_multiplier?: number
+          effective_from?: string
+          effective_to?: string | null
+          floor?: number
+          id?: string
+          name?: string
+          percentage?: number
+          polo?: string | null
+          request_type?: string | null
+          version?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reimbursement_policies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reimbursement_policies_polo_fkey"
+            columns: ["polo"]
+            isOneToOne: false
+            referencedRelation: "polos"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "reimbursement_policies_request_type_fkey"
+            columns: ["request_type"]
+            isOneToOne: false
+            referencedRelation: "benefit_types"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      request_appeals: {
+        Row: {
+          appellant_id: string
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_notes: string | null
+          id: string
+          justification: string
+          original_decider_id: string | null
+          request_id: string
+          status: string
+        }
+        Insert: {
+          appellant_id: string
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          id?: string
+          justification: string
+          original_decider_id?: string | null
+          request_id: string
+          status?: string
+        }
+        Update: {
+          appellant_id?: string
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          id?: string
+          justification?: string
+          original_decider_id?: string | null
+          request_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_appeals_appellant_id_fkey"
+            columns: ["appellant_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_appeals_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_appeals_original_decider_id_fkey"
+            columns: ["original_decider_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_appeals_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: true
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_changes: {
+        Row: {
+          changed_at: string | null
+          changed_by: string
+          field: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          request_id: string
+        }
+        Insert: {
+          changed_at?: string | null
+          changed_by: string
+          field: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          request_id: string
+        }
+        Update: {
+          changed_at?: string | null
+          changed_by?: string
+          field?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
           request_id?: string
-          uploaded_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_request_id_fkey"
+            foreignKeyName: "request_changes_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_changes_request_id_fkey"
             columns: ["request_id"]
             isOneToOne: false
             referencedRelation: "requests"
@@ -139,52 +743,142 @@ export type Database = {
           },
         ]
       }
+      request_info_rounds: {
+        Row: {
+          id: string
+          previous_values: Json | null
+          question: string
+          request_id: string
+          requested_at: string | null
+          requested_by: string
+          resubmitted_values: Json | null
+          responded_at: string | null
+          response: string | null
+        }
+        Insert: {
+          id?: string
+          previous_values?: Json | null
+          question: string
+          request_id: string
+          requested_at?: string | null
+          requested_by: string
+          resubmitted_values?: Json | null
+          responded_at?: string | null
+          response?: string | null
+        }
+        Update: {
+          id?: string
+          previous_values?: Json | null
+          question?: string
+          request_id?: string
+          requested_at?: string | null
+          requested_by?: string
+          resubmitted_values?: Json | null
+          responded_at?: string | null
+          response?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_info_rounds_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_info_rounds_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       requests: {
         Row: {
-          amount: number
+          amount: number | null
+          approval_justification: string | null
+          approved_amount: number | null
           approved_at: string | null
           approved_by: string | null
-          attachments: string[] | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
           created_at: string | null
+          declared_salary: number | null
           dependents: Json | null
-          description: string
+          description: string | null
           id: string
           polo: string | null
+          payment_date: string | null
+          payment_method: string | null
+          payment_reversal_reason: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"] | null
+          payment_updated_at: string | null
+          payment_updated_by: string | null
+          payroll_reference: string | null
+          policy_id: string | null
+          policy_version: number | null
           rejection_reason: string | null
           status: Database["public"]["Enums"]["request_status"]
-          type: Database["public"]["Enums"]["request_type"]
+          type: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
-          amount: number
+          amount?: number | null
+          approval_justification?: string | null
+          approved_amount?: number | null
           approved_at?: string | null
           approved_by?: string | null
-          attachments?: string[] | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
+          declared_salary?: number | null
           dependents?: Json | null
-          description: string
+          description?: string | null
           id?: string
           polo?: string | null
+          payment_date?: string | null
+          payment_method?: string | null
+          payment_reversal_reason?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          payment_updated_at?: string | null
+          payment_updated_by?: string | null
+          payroll_reference?: string | null
+          policy_id?: string | null
+          policy_version?: number | null
           rejection_reason?: string | null
           status?: Database["public"]["Enums"]["request_status"]
-          type: Database["public"]["Enums"]["request_type"]
+          type?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
-          amount?: number
+          amount?: number | null
+          approval_justification?: string | null
+          approved_amount?: number | null
           approved_at?: string | null
           approved_by?: string | null
-          attachments?: string[] | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
+          declared_salary?: number | null
           dependents?: Json | null
-          description?: string
+          description?: string | null
           id?: string
           polo?: string | null
+          payment_date?: string | null
+          payment_method?: string | null
+          payment_reversal_reason?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          payment_updated_at?: string | null
+          payment_updated_by?: string | null
+          payroll_reference?: string | null
+          policy_id?: string | null
+          policy_version?: number | null
           rejection_reason?: string | null
           status?: Database["public"]["Enums"]["request_status"]
-          type?: Database["public"]["Enums"]["request_type"]
+          type?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -196,6 +890,34 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "requests_payment_updated_by_fkey"
+            columns: ["payment_updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "requests_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "reimbursement_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "requests_polo_fkey"
+            columns: ["polo"]
+            isOneToOne: false
+            referencedRelation: "polos"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "requests_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "benefit_types"
+            referencedColumns: ["code"]
+          },
           {
             foreignKeyName: "requests_user_id_fkey"
             columns: ["user_id"]
@@ -214,10 +936,11 @@ export type Database = {
           id: string
           name: string
           phone: string | null
-          polo: Database["public"]["Enums"]["polo_type"] | null
+          polo: string | null
           privacy_consent: boolean
           privacy_consent_date: string | null
           role: Database["public"]["Enums"]["user_role"]
+          salary: number | null
           updated_at: string | null
         }
         Insert: {
@@ -228,10 +951,11 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
-          polo?: Database["public"]["Enums"]["polo_type"] | null
+          polo?: string | null
           privacy_consent?: boolean
           privacy_consent_date?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          salary?: number | null
           updated_at?: string | null
         }
         Update: {
@@ -242,34 +966,74 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
-          polo?: Database["public"]["Enums"]["polo_type"] | null
+          polo?: string | null
           privacy_consent?: boolean
           privacy_consent_date?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          salary?: number | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "users_polo_fkey"
+            columns: ["polo"]
+            isOneToOne: false
+            referencedRelation: "polos"
+            referencedColumns: ["code"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_manage_dependent: {
+        Args: { user_auth_id: string; target_dependent_id: string }
+        Returns: boolean
+      }
+      can_manage_payments: {
+        Args: { user_auth_id: string }
+        Returns: boolean
+      }
+      can_manage_polo: {
+        Args: { user_auth_id: string; target_polo: string }
+        Returns: boolean
+      }
+      can_manage_request: {
+        Args: { user_auth_id: string; target_request_id: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: { user_auth_id: string }
+        Returns: boolean
+      }
+      is_financeiro: {
+        Args: { user_auth_id: string }
+        Returns: boolean
+      }
       is_gestora: {
         Args: { user_auth_id: string }
         Returns: boolean
       }
+      is_valid_cpf: {
+        Args: { cpf: string }
+        Returns: boolean
+      }
+      set_gestora_polos: {
+        Args: {
+          target_user_id: string
+          new_polos: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      polo_type: "3M Sumaré" | "Manaus" | "Ribeirão Preto" | "Itapetininga"
-      request_status: "pending" | "approved" | "rejected"
-      request_type:
-        | "psicológico"
-        | "médico"
-        | "odontológico"
-        | "fisioterapia"
-        | "outros"
-      user_role: "solicitante" | "gestora"
+      dependent_relationship: "filho" | "conjuge" | "pai" | "mae" | "irmao" | "outro"
+      notification_status: "pending" | "sent" | "failed"
+      payment_status: "scheduled" | "paid" | "reversed"
+      request_status: "pending" | "approved" | "rejected" | "info_requested" | "draft" | "cancelled"
+      user_role: "solicitante" | "gestora" | "admin" | "financeiro"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -397,16 +1161,11 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      polo_type: ["3M Sumaré", "Manaus", "Ribeirão Preto", "Itapetininga"],
-      request_status: ["pending", "approved", "rejected"],
-      request_type: [
-        "psicológico",
-        "médico",
-        "odontológico",
-        "fisioterapia",
-        "outros",
-      ],
-      user_role: ["solicitante", "gestora"],
+      dependent_relationship: ["filho", "conjuge", "pai", "mae", "irmao", "outro"],
+      notification_status: ["pending", "sent", "failed"],
+      payment_status: ["scheduled", "paid", "reversed"],
+      request_status: ["pending", "approved", "rejected", "info_requested", "draft", "cancelled"],
+      user_role: ["solicitante", "gestora", "admin", "financeiro"],
     },
   },
 } as const
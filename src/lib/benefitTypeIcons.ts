@@ -0,0 +1,29 @@
+import {
+  Activity,
+  Brain,
+  Bus,
+  Eye,
+  GraduationCap,
+  Heart,
+  HelpCircle,
+  Pill,
+  Smile,
+  Stethoscope,
+  Utensils,
+  type LucideIcon,
+} from 'lucide-react';
+
+// Ícones que admins podem escolher para um tipo de auxílio (benefit_types.icon)
+export const benefitTypeIcons: Record<string, LucideIcon> = {
+  Activity,
+  Brain,
+  Bus,
+  Eye,
+  GraduationCap,
+  Heart,
+  HelpCircle,
+  Pill,
+  Smile,
+  Stethoscope,
+  Utensils,
+};
@@ -0,0 +1,98 @@
+// Fotos de celular passam de 4000px; 2000px no maior lado ainda deixa o recibo legível
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.8;
+
+// A4 em pontos, com margem para impressão
+const PDF_PAGE_WIDTH = 595.28;
+const PDF_PAGE_HEIGHT = 841.89;
+const PDF_PAGE_MARGIN = 24;
+
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isCompressibleImage = (file: File) => COMPRESSIBLE_TYPES.includes(file.type);
+
+const replaceExtension = (name: string, extension: string) =>
+  `${name.replace(/\.[^.]+$/, '') || 'documento'}.${extension}`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Não foi possível converter a imagem'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+
+// Redesenhar no canvas descarta os metadados EXIF (inclusive a localização, dado pessoal pela LGPD);
+// a orientação da câmera é aplicada antes, para a foto não sair girada
+export const compressImage = async (file: File): Promise<File> => {
+  if (!isCompressibleImage(file)) return file;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Não foi possível processar a imagem');
+
+    // JPEG não tem transparência: fundo branco para PNGs recortados
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const blob = await canvasToBlob(canvas);
+    return new File([blob], replaceExtension(file.name, 'jpg'), {
+      type: 'image/jpeg',
+      lastModified: file.lastModified,
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Imagens que o navegador não consegue decodificar são devolvidas à parte, sem envio
+export const compressImages = async (files: File[]) => {
+  const compressed: File[] = [];
+  const failed: File[] = [];
+
+  for (const file of files) {
+    try {
+      compressed.push(await compressImage(file));
+    } catch (err) {
+      console.error('Error compressing image:', err);
+      failed.push(file);
+    }
+  }
+
+  return { compressed, failed };
+};
+
+// Junta as fotos de um mesmo recibo em um PDF, uma por página A4, na ordem recebida.
+// O pdf-lib só é baixado quando alguém monta um PDF, fora do bundle principal
+export const mergeImagesToPdf = async (images: File[], fileName: string): Promise<File> => {
+  const { PDFDocument } = await import('pdf-lib');
+  const pdf = await PDFDocument.create();
+
+  for (const image of images) {
+    const compressed = await compressImage(image);
+    const embedded = await pdf.embedJpg(await compressed.arrayBuffer());
+
+    const maxWidth = PDF_PAGE_WIDTH - PDF_PAGE_MARGIN * 2;
+    const maxHeight = PDF_PAGE_HEIGHT - PDF_PAGE_MARGIN * 2;
+    const { width, height } = embedded.scaleToFit(maxWidth, maxHeight);
+
+    const page = pdf.addPage([PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT]);
+    page.drawImage(embedded, {
+      x: (PDF_PAGE_WIDTH - width) / 2,
+      y: (PDF_PAGE_HEIGHT - height) / 2,
+      width,
+      height,
+    });
+  }
+
+  const bytes = await pdf.save();
+  return new File([bytes], replaceExtension(fileName, 'pdf'), { type: 'application/pdf' });
+};
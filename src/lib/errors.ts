@@ -0,0 +1,10 @@
+// Erros do PostgREST chegam como objetos simples com `message`, não como instâncias de Error
+export const errorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return fallback;
+};
@@ -0,0 +1,21 @@
+import type { PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+export type { PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask };
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// O pdf.js fica fora do bundle principal: só é baixado quando um PDF é aberto ou lido
+export const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      // O worker do pdf.js é servido junto com a aplicação, sem CDN
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+      return pdfjs;
+    });
+    pdfjsPromise.catch(() => {
+      pdfjsPromise = null;
+    });
+  }
+  return pdfjsPromise;
+};
@@ -0,0 +1,158 @@
+import type { Worker } from 'tesseract.js';
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import ocrCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import portugueseDataUrl from '@tesseract.js-data/por/4.0.0_best_int/por.traineddata.gz?url';
+import { loadPdfjs } from '@/lib/pdfjs';
+import { isValidCnpj } from '@shared/invoiceXml';
+import { isValidCpf } from '@shared/dependents';
+
+// Leitura automática de comprovantes no navegador. Motor, worker e o idioma português
+// são servidos junto com a aplicação: a imagem do recibo nunca sai do aparelho para o OCR.
+export interface ReceiptOcrData {
+  amount: number | null;
+  // YYYY-MM-DD
+  date: string | null;
+  // Somente dígitos
+  provider_document: string | null;
+  provider_document_type: 'cnpj' | 'cpf' | null;
+  source: 'ocr' | 'pdf_text';
+  // 0-100, apenas quando o texto veio do OCR
+  confidence: number | null;
+}
+
+// PDFs com menos texto que isso são tratados como digitalizados
+const MIN_PDF_TEXT_LENGTH = 20;
+const MAX_PDF_TEXT_PAGES = 3;
+const PDF_RENDER_SCALE = 2;
+
+const MONEY_PATTERN = /(?:R\$\s*)?(\d{1,3}(?:\.\d{3})+,\d{2}|\d+,\d{2})(?!\d)/g;
+// "Valor pago" fica de fora: em dinheiro inclui o troco
+const TOTAL_LINE_PATTERN = /total|valor\s+a\s+pagar|l[ií]quido|quantia|import[âa]ncia/i;
+const IGNORED_LINE_PATTERN = /sub\s*-?\s*total|troco|desconto|tributos|impostos/i;
+const DATE_PATTERN = /\b(\d{2})[/.-](\d{2})[/.-](\d{4}|\d{2})\b/g;
+const CNPJ_PATTERN = /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g;
+const CPF_PATTERN = /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g;
+
+const parseMoney = (value: string) => Number(value.replace(/\./g, '').replace(',', '.'));
+
+const moneyValues = (text: string) =>
+  Array.from(text.matchAll(MONEY_PATTERN), match => parseMoney(match[1])).filter(value => value > 0);
+
+// O total é o maior valor nas linhas de total; sem elas, o maior valor do comprovante
+const extractAmount = (text: string) => {
+  const totalLines = text
+    .split('\n')
+    .filter(line => TOTAL_LINE_PATTERN.test(line) && !IGNORED_LINE_PATTERN.test(line));
+
+  const candidates = totalLines.flatMap(moneyValues);
+  const values = candidates.length > 0 ? candidates : moneyValues(text);
+  return values.length > 0 ? Math.max(...values) : null;
+};
+
+const extractDate = (text: string) => {
+  for (const [, day, month, rawYear] of text.matchAll(DATE_PATTERN)) {
+    const year = rawYear.length === 2 ? `20${rawYear}` : rawYear;
+    const date = new Date(`${year}-${month}-${day}T00:00:00`);
+    if (!Number.isNaN(date.getTime()) && date.getDate() === Number(day) && date <= new Date()) {
+      return `${year}-${month}-${day}`;
+    }
+  }
+  return null;
+};
+
+// Prestador pessoa jurídica tem prioridade; CPF só vale quando não há CNPJ válido
+const extractProviderDocument = (text: string): Pick<ReceiptOcrData, 'provider_document' | 'provider_document_type'> => {
+  const cnpj = Array.from(text.matchAll(CNPJ_PATTERN), match => match[0]).find(isValidCnpj);
+  if (cnpj) return { provider_document: cnpj.replace(/\D/g, ''), provider_document_type: 'cnpj' };
+
+  const cpf = Array.from(text.matchAll(CPF_PATTERN), match => match[0]).find(isValidCpf);
+  if (cpf) return { provider_document: cpf.replace(/\D/g, ''), provider_document_type: 'cpf' };
+
+  return { provider_document: null, provider_document_type: null };
+};
+
+export const extractReceiptFields = (text: string, source: ReceiptOcrData['source'], confidence: number | null = null): ReceiptOcrData => ({
+  amount: extractAmount(text),
+  date: extractDate(text),
+  ...extractProviderDocument(text),
+  source,
+  confidence,
+});
+
+// Divergência mínima para sinalizar: evita alertas por arredondamento
+export const ocrAmountDiffers = (ocr: ReceiptOcrData | null | undefined, amount: number) =>
+  ocr?.amount != null && Math.abs(ocr.amount - amount) >= 0.01;
+
+let workerPromise: Promise<Worker> | null = null;
+
+// O tesseract.js só é baixado no primeiro comprovante lido, fora do bundle principal
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js').then(({ createWorker, OEM }) =>
+      createWorker('por', OEM.LSTM_ONLY, {
+        workerPath: ocrWorkerUrl,
+        corePath: ocrCoreUrl,
+        // O tesseract.js procura `por.traineddata.gz` dentro desse diretório
+        langPath: new URL(portugueseDataUrl, window.location.href).href.replace(/\/[^/]*$/, ''),
+        workerBlobURL: false,
+      })
+    );
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+};
+
+// O worker ocupa dezenas de MB; o formulário libera ao terminar cada lote de arquivos
+export const releaseOcrWorker = async () => {
+  const pending = workerPromise;
+  workerPromise = null;
+  if (pending) {
+    await (await pending).terminate();
+  }
+};
+
+const recognize = async (image: File | HTMLCanvasElement) => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return extractReceiptFields(data.text, 'ocr', Math.round(data.confidence));
+};
+
+const readPdf = async (file: File) => {
+  const { getDocument } = await loadPdfjs();
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    let text = '';
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_TEXT_PAGES); pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      text += content.items.map(item => ('str' in item ? item.str : '')).join('\n') + '\n';
+    }
+
+    if (text.trim().length >= MIN_PDF_TEXT_LENGTH) {
+      return extractReceiptFields(text, 'pdf_text');
+    }
+
+    // PDF digitalizado: a primeira página vira imagem para o OCR
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+    return recognize(canvas);
+  } finally {
+    pdf.destroy();
+  }
+};
+
+export const canReadReceipt = (file: File) =>
+  file.type === 'application/pdf' || ['image/jpeg', 'image/png', 'image/webp'].includes(file.type);
+
+export const readReceipt = async (file: File): Promise<ReceiptOcrData | null> => {
+  if (!canReadReceipt(file)) return null;
+  return file.type === 'application/pdf' ? readPdf(file) : recognize(file);
+};
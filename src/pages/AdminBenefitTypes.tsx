@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBenefitTypes, BenefitType } from '@/hooks/useBenefitTypes';
+import { useReimbursementPolicies } from '@/hooks/useReimbursementPolicies';
+import { BenefitTypeLabel } from '@/components/BenefitTypeLabel';
+import { benefitTypeIcons } from '@/lib/benefitTypeIcons';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, LogOut, Plus, Tags, Pencil } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+const emptyForm = {
+  code: '',
+  label: '',
+  icon: 'HelpCircle',
+  required_documents: '',
+  sort_order: '0',
+};
+
+// Um documento por linha no formulário
+const parseDocuments = (value: string) =>
+  value.split('\n').map(doc => doc.trim()).filter(Boolean);
+
+export default function AdminBenefitTypes() {
+  const { profile, signOut } = useAuth();
+  const { benefitTypes, loading, createBenefitType, updateBenefitType } = useBenefitTypes();
+  const { policies } = useReimbursementPolicies();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [form, setForm] = useState(emptyForm);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile && profile.role !== 'admin') {
+      navigate(profile.role === 'solicitante' ? '/dashboard-solicitante' : '/dashboard-gestora');
+    }
+  }, [profile, navigate]);
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm({ ...form, [field]: value });
+  };
+
+  const startEditing = (benefitType: BenefitType) => {
+    setEditingCode(benefitType.code);
+    setForm({
+      code: benefitType.code,
+      label: benefitType.label,
+      icon: benefitType.icon,
+      required_documents: benefitType.required_documents.join('\n'),
+      sort_order: String(benefitType.sort_order),
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingCode(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!form.label.trim() || (!editingCode && !form.code.trim())) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Informe o código e o nome do tipo de auxílio.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const changes = {
+      label: form.label.trim(),
+      icon: form.icon,
+      required_documents: parseDocuments(form.required_documents),
+      sort_order: parseInt(form.sort_order) || 0,
+    };
+
+    setSaving(true);
+    try {
+      if (editingCode) {
+        await updateBenefitType(editingCode, changes);
+      } else {
+        await createBenefitType({ ...changes, code: form.code.trim().toLowerCase() });
+      }
+      toast({
+        title: editingCode ? 'Tipo de auxílio atualizado' : 'Tipo de auxílio criado',
+        description: `${changes.label} já está disponível no formulário de solicitação.`,
+      });
+      cancelEditing();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar tipo de auxílio',
+        description: errorMessage(error, 'Não foi possível salvar o tipo de auxílio.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (code: string, active: boolean) => {
+    try {
+      await updateBenefitType(code, { active });
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar tipo de auxílio',
+        description: errorMessage(error, 'Não foi possível atualizar o tipo de auxílio.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const linkedPolicies = (code: string) =>
+    policies.filter(policy => policy.active && policy.request_type === code);
+
+  if (!profile) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">Ombro Amigo - Tipos de Auxílio</h1>
+            <p className="text-muted-foreground">Catálogo de benefícios exibido no formulário, nos filtros e nos relatórios</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/dashboard-gestora')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                {editingCode ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+                {editingCode ? 'Editar Tipo de Auxílio' : 'Novo Tipo de Auxílio'}
+              </CardTitle>
+              <CardDescription>
+                O código é gravado nas solicitações e não pode ser alterado. Para retirar um tipo do formulário, desative-o.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Código</label>
+                  <Input
+                    placeholder="ex.: nutricionista"
+                    value={form.code}
+                    onChange={(e) => updateField('code', e.target.value)}
+                    disabled={!!editingCode}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Nome</label>
+                  <Input value={form.label} onChange={(e) => updateField('label', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Ícone</label>
+                  <Select value={form.icon} onValueChange={(value) => updateField('icon', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(benefitTypeIcons).map(([name, Icon]) => (
+                        <SelectItem key={name} value={name}>
+                          <span className="inline-flex items-center gap-2">
+                            <Icon className="w-4 h-4" />
+                            {name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Ordem</label>
+                  <Input type="number" value={form.sort_order} onChange={(e) => updateField('sort_order', e.target.value)} />
+                </div>
+                <div className="md:col-span-4">
+                  <label className="text-sm font-medium">Documentos necessários (um por linha)</label>
+                  <Textarea
+                    value={form.required_documents}
+                    onChange={(e) => updateField('required_documents', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Salvando...' : editingCode ? 'Salvar Alterações' : 'Criar Tipo'}
+                </Button>
+                {editingCode && (
+                  <Button variant="outline" onClick={cancelEditing}>
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                <Tags className="h-5 w-5" />
+                Tipos Cadastrados
+              </CardTitle>
+              <CardDescription>
+                Políticas de reembolso e tetos anuais se vinculam ao tipo pelo código
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  <p className="mt-2 text-muted-foreground">Carregando tipos de auxílio...</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Documentos necessários</TableHead>
+                      <TableHead>Políticas vinculadas</TableHead>
+                      <TableHead>Ativo</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {benefitTypes.map((benefitType) => (
+                      <TableRow key={benefitType.code}>
+                        <TableCell className="font-medium">
+                          <BenefitTypeLabel code={benefitType.code} benefitType={benefitType} />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{benefitType.code}</TableCell>
+                        <TableCell className="text-sm">
+                          {benefitType.required_documents.length > 0 ? benefitType.required_documents.join(', ') : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {linkedPolicies(benefitType.code).length > 0
+                            ? linkedPolicies(benefitType.code).map(policy => `${policy.name} (v${policy.version})`).join(', ')
+                            : 'Política geral'}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={benefitType.active}
+                            onCheckedChange={(checked) => handleToggleActive(benefitType.code, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" onClick={() => startEditing(benefitType)}>
+                            <Pencil className="w-3 h-3 mr-1" />
+                            Editar
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
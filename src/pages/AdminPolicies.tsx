@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReimbursementPolicies, NewReimbursementPolicy } from '@/hooks/useReimbursementPolicies';
+import { useBenefitCaps, NewBenefitCap } from '@/hooks/useBenefitCaps';
+import { useBenefitTypes } from '@/hooks/useBenefitTypes';
+import { usePolos } from '@/hooks/usePolos';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_APPEAL_WINDOW_DAYS } from '@shared/appeals';
+import { ArrowLeft, LogOut, Scale, Plus, Wallet } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+// Valor usado nos Selects para representar "qualquer" (coluna nula)
+const ANY = 'any';
+
+const emptyForm = {
+  name: '',
+  request_type: ANY,
+  polo: ANY,
+  effective_from: new Date().toISOString().slice(0, 10),
+  effective_to: '',
+  percentage: '90',
+  floor: '0',
+  ceiling: '',
+  dependent_multiplier: '0',
+  appeal_window_days: String(DEFAULT_APPEAL_WINDOW_DAYS),
+};
+
+const emptyCapForm = {
+  request_type: ANY,
+  annual_limit: '',
+  per_dependent_limit: '',
+};
+
+export default function AdminPolicies() {
+  const { profile, signOut } = useAuth();
+  const { policies, loading, createPolicy, setPolicyActive } = useReimbursementPolicies();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { caps, loading: capsLoading, createCap, setCapActive } = useBenefitCaps();
+  const [capForm, setCapForm] = useState(emptyCapForm);
+  const { benefitTypes, getBenefitType } = useBenefitTypes();
+  const { activePolos, getPoloName } = usePolos();
+
+  useEffect(() => {
+    if (profile && profile.role !== 'admin') {
+      navigate(profile.role === 'gestora' ? '/dashboard-gestora' : '/dashboard-solicitante');
+    }
+  }, [profile, navigate]);
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('pt-BR');
+  };
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm({ ...form, [field]: value });
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim() || !form.effective_from) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Informe o nome e o início da vigência.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const policy: NewReimbursementPolicy = {
+      name: form.name.trim(),
+      request_type: form.request_type === ANY ? null : form.request_type,
+      polo: form.polo === ANY ? null : form.polo,
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+      percentage: (parseFloat(form.percentage) || 0) / 100,
+      floor: parseFloat(form.floor) || 0,
+      ceiling: form.ceiling ? parseFloat(form.ceiling) : null,
+      dependent_multiplier: (parseFloat(form.dependent_multiplier) || 0) / 100,
+      appeal_window_days: Math.max(0, parseInt(form.appeal_window_days, 10) || 0),
+    };
+
+    setSaving(true);
+    try {
+      await createPolicy(policy);
+      setForm(emptyForm);
+      toast({
+        title: 'Política criada',
+        description: `${policy.name} passa a valer em ${formatDate(policy.effective_from)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao criar política',
+        description: errorMessage(error, 'Não foi possível criar a política.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (policyId: string, active: boolean) => {
+    try {
+      await setPolicyActive(policyId, active);
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar política',
+        description: errorMessage(error, 'Não foi possível atualizar a política.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreateCap = async () => {
+    const annualLimit = parseFloat(capForm.annual_limit);
+    if (!annualLimit || annualLimit <= 0) {
+      toast({
+        title: 'Limite obrigatório',
+        description: 'Informe o limite anual do teto.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const cap: NewBenefitCap = {
+      request_type: capForm.request_type === ANY ? null : capForm.request_type,
+      annual_limit: annualLimit,
+      per_dependent_limit: capForm.per_dependent_limit ? parseFloat(capForm.per_dependent_limit) : null,
+    };
+
+    setSaving(true);
+    try {
+      await createCap(cap);
+      setCapForm(emptyCapForm);
+      toast({
+        title: 'Teto criado',
+        description: `Limite anual de ${formatCurrency(annualLimit)} ativo.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao criar teto',
+        description: errorMessage(error, 'Não foi possível criar o teto.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleCap = async (capId: string, active: boolean) => {
+    try {
+      await setCapActive(capId, active);
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar teto',
+        description: errorMessage(error, 'Não foi possível atualizar o teto.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!profile) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">Ombro Amigo - Políticas de Reembolso</h1>
+            <p className="text-muted-foreground">Percentuais, pisos e tetos por tipo de auxílio, polo e vigência</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/dashboard-gestora')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Nova Versão de Política
+              </CardTitle>
+              <CardDescription>
+                Políticas não podem ser editadas depois de criadas. Para mudar uma regra, crie uma nova versão e desative a anterior.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Nome</label>
+                  <Input value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Tipo de Auxílio</label>
+                  <Select value={form.request_type} onValueChange={(value) => updateField('request_type', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Qualquer tipo</SelectItem>
+                      {benefitTypes.map((benefitType) => (
+                        <SelectItem key={benefitType.code} value={benefitType.code}>
+                          {benefitType.label}{!benefitType.active && ' (inativo)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Polo</label>
+                  <Select value={form.polo} onValueChange={(value) => updateField('polo', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Qualquer polo</SelectItem>
+                      {activePolos.map((polo) => (
+                        <SelectItem key={polo.code} value={polo.code}>{polo.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Início da vigência</label>
+                  <Input type="date" value={form.effective_from} onChange={(e) => updateField('effective_from', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Fim da vigência (opcional)</label>
+                  <Input type="date" value={form.effective_to} onChange={(e) => updateField('effective_to', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Percentual do salário (%)</label>
+                  <Input type="number" step="0.01" value={form.percentage} onChange={(e) => updateField('percentage', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Piso (R$)</label>
+                  <Input type="number" step="0.01" value={form.floor} onChange={(e) => updateField('floor', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Teto (R$, opcional)</label>
+                  <Input type="number" step="0.01" value={form.ceiling} onChange={(e) => updateField('ceiling', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Acréscimo por dependente (%)</label>
+                  <Input type="number" step="0.01" value={form.dependent_multiplier} onChange={(e) => updateField('dependent_multiplier', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Prazo para recurso após recusa (dias)</label>
+                  <Input type="number" step="1" min="0" value={form.appeal_window_days} onChange={(e) => updateField('appeal_window_days', e.target.value)} />
+                </div>
+              </div>
+              <Button onClick={handleCreate} disabled={saving}>
+                {saving ? 'Salvando...' : 'Criar Política'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                Políticas Cadastradas
+              </CardTitle>
+              <CardDescription>
+                A política mais específica (tipo e polo) vigente na data da solicitação é aplicada
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  <p className="mt-2 text-muted-foreground">Carregando políticas...</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Versão</TableHead>
+                      <TableHead>Nome</TableHead>
+                      <TableHead>Tipo / Polo</TableHead>
+                      <TableHead>Vigência</TableHead>
+                      <TableHead>Regra</TableHead>
+                      <TableHead>Ativa</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map((policy) => (
+                      <TableRow key={policy.id}>
+                        <TableCell>v{policy.version}</TableCell>
+                        <TableCell className="font-medium">{policy.name}</TableCell>
+                        <TableCell>
+                          {policy.request_type ? getBenefitType(policy.request_type)?.label ?? policy.request_type : 'Qualquer tipo'} / {getPoloName(policy.polo) || 'Qualquer polo'}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(policy.effective_from)}
+                          {policy.effective_to ? ` até ${formatDate(policy.effective_to)}` : ' em diante'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {(Number(policy.percentage) * 100).toFixed(0)}% do salário • piso {formatCurrency(Number(policy.floor))}
+                          {policy.ceiling !== null && ` • teto ${formatCurrency(Number(policy.ceiling))}`}
+                          {Number(policy.dependent_multiplier) > 0 && ` • +${(Number(policy.dependent_multiplier) * 100).toFixed(0)}% por dependente`}
+                          {` • recurso em até ${policy.appeal_window_days} dia(s)`}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={policy.active}
+                            onCheckedChange={(checked) => handleToggleActive(policy.id, checked)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Tetos Anuais
+              </CardTitle>
+              <CardDescription>
+                Soma máxima aprovada por colaborador no ano civil. Só pode haver um teto ativo por tipo de auxílio.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <label className="text-sm font-medium">Tipo de Auxílio</label>
+                  <Select value={capForm.request_type} onValueChange={(value) => setCapForm({ ...capForm, request_type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Todos os tipos (teto geral)</SelectItem>
+                      {benefitTypes.map((benefitType) => (
+                        <SelectItem key={benefitType.code} value={benefitType.code}>
+                          {benefitType.label}{!benefitType.active && ' (inativo)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Limite anual (R$)</label>
+                  <Input type="number" step="0.01" value={capForm.annual_limit} onChange={(e) => setCapForm({ ...capForm, annual_limit: e.target.value })} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Limite por dependente (R$, opcional)</label>
+                  <Input type="number" step="0.01" value={capForm.per_dependent_limit} onChange={(e) => setCapForm({ ...capForm, per_dependent_limit: e.target.value })} />
+                </div>
+                <Button onClick={handleCreateCap} disabled={saving}>
+                  Criar Teto
+                </Button>
+              </div>
+
+              {capsLoading ? (
+                <p className="text-sm text-muted-foreground">Carregando tetos...</p>
+              ) : caps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum teto cadastrado.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Limite anual</TableHead>
+                      <TableHead>Por dependente</TableHead>
+                      <TableHead>Ativo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {caps.map((cap) => (
+                      <TableRow key={cap.id}>
+                        <TableCell>
+                          {cap.request_type ? getBenefitType(cap.request_type)?.label ?? cap.request_type : 'Todos os tipos'}
+                        </TableCell>
+                        <TableCell>{formatCurrency(Number(cap.annual_limit))}</TableCell>
+                        <TableCell>
+                          {cap.per_dependent_limit !== null ? formatCurrency(Number(cap.per_dependent_limit)) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={cap.active}
+                            onCheckedChange={(checked) => handleToggleCap(cap.id, checked)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
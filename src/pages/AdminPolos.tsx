@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePolos, Polo } from '@/hooks/usePolos';
+import { useUsers } from '@/hooks/useUsers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, LogOut, Plus, MapPin, Pencil } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+const emptyForm = {
+  code: '',
+  name: '',
+  region: '',
+};
+
+export default function AdminPolos() {
+  const { profile, signOut } = useAuth();
+  const { polos, loading, createPolo, updatePolo } = usePolos();
+  const { users } = useUsers();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [form, setForm] = useState(emptyForm);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile && profile.role !== 'admin') {
+      navigate(profile.role === 'solicitante' ? '/dashboard-solicitante' : '/dashboard-gestora');
+    }
+  }, [profile, navigate]);
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm({ ...form, [field]: value });
+  };
+
+  const startEditing = (polo: Polo) => {
+    setEditingCode(polo.code);
+    setForm({
+      code: polo.code,
+      name: polo.name,
+      region: polo.region ?? '',
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingCode(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || (!editingCode && !form.code.trim())) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Informe o código e o nome do polo.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const changes = {
+      name: form.name.trim(),
+      region: form.region.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingCode) {
+        await updatePolo(editingCode, changes);
+      } else {
+        await createPolo({ ...changes, code: form.code.trim().toLowerCase() });
+      }
+      toast({
+        title: editingCode ? 'Polo atualizado' : 'Polo criado',
+        description: `${changes.name} já aparece nos cadastros, no formulário e nas abas da gestão.`,
+      });
+      cancelEditing();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar polo',
+        description: errorMessage(error, 'Não foi possível salvar o polo.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (code: string, active: boolean) => {
+    try {
+      await updatePolo(code, { active });
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar polo',
+        description: errorMessage(error, 'Não foi possível atualizar o polo.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Gestoras responsáveis vêm de gestora_polos, editado na tela de usuários
+  const responsibleGestoras = (code: string) =>
+    users.filter(user => user.gestora_polos.includes(code));
+
+  if (!profile) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">Ombro Amigo - Polos</h1>
+            <p className="text-muted-foreground">Unidades exibidas nos cadastros, no formulário de solicitação e nas abas da gestão</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/dashboard-gestora')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                {editingCode ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+                {editingCode ? 'Editar Polo' : 'Novo Polo'}
+              </CardTitle>
+              <CardDescription>
+                O código é gravado nos cadastros e nas solicitações e não pode ser alterado. Para retirar um polo das telas, desative-o.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Código</label>
+                  <Input
+                    placeholder="ex.: campinas"
+                    value={form.code}
+                    onChange={(e) => updateField('code', e.target.value)}
+                    disabled={!!editingCode}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Nome</label>
+                  <Input value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Região (opcional)</label>
+                  <Input
+                    placeholder="ex.: Sudeste"
+                    value={form.region}
+                    onChange={(e) => updateField('region', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Salvando...' : editingCode ? 'Salvar Alterações' : 'Criar Polo'}
+                </Button>
+                {editingCode && (
+                  <Button variant="outline" onClick={cancelEditing}>
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl text-primary flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Polos Cadastrados
+              </CardTitle>
+              <CardDescription>
+                As gestoras responsáveis por cada polo são definidas na tela de usuários
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  <p className="mt-2 text-muted-foreground">Carregando polos...</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Polo</TableHead>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Região</TableHead>
+                      <TableHead>Gestoras responsáveis</TableHead>
+                      <TableHead>Ativo</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {polos.map((polo) => (
+                      <TableRow key={polo.code}>
+                        <TableCell className="font-medium">{polo.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{polo.code}</TableCell>
+                        <TableCell className="text-sm">{polo.region || '—'}</TableCell>
+                        <TableCell className="text-sm">
+                          {responsibleGestoras(polo.code).length > 0
+                            ? responsibleGestoras(polo.code).map(user => user.name).join(', ')
+                            : 'Nenhuma gestora atribuída'}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={polo.active}
+                            onCheckedChange={(checked) => handleToggleActive(polo.code, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" onClick={() => startEditing(polo)}>
+                            <Pencil className="w-3 h-3 mr-1" />
+                            Editar
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { useUsers, ManagedUser } from '@/hooks/useUsers';
+import { usePolos } from '@/hooks/usePolos';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, LogOut, Users, MapPin, Save } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
+
+const roleLabels: Record<UserRole, string> = {
+  solicitante: 'Solicitante',
+  gestora: 'Gestora',
+  admin: 'Administrador',
+  financeiro: 'Financeiro',
+};
+
+export default function AdminUsers() {
+  const { profile, signOut } = useAuth();
+  const { users, loading, updateUserRole, updateUserSalary, updateGestoraPolos } = useUsers();
+  const { polos, getPoloName } = usePolos();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [poloDrafts, setPoloDrafts] = useState<Record<string, string[]>>({});
+  const [salaryDrafts, setSalaryDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (profile && profile.role !== 'admin') {
+      navigate(profile.role === 'gestora' ? '/dashboard-gestora' : '/dashboard-solicitante');
+    }
+  }, [profile, navigate]);
+
+  const getDraftPolos = (user: ManagedUser) => poloDrafts[user.id] ?? user.gestora_polos;
+
+  const togglePolo = (user: ManagedUser, polo: string, checked: boolean) => {
+    const current = getDraftPolos(user);
+    setPoloDrafts({
+      ...poloDrafts,
+      [user.id]: checked ? [...current, polo] : current.filter(p => p !== polo),
+    });
+  };
+
+  const handleRoleChange = async (user: ManagedUser, role: UserRole) => {
+    setSavingUserId(user.id);
+    try {
+      await updateUserRole(user.id, role);
+      toast({
+        title: 'Papel atualizado',
+        description: `${user.name} agora é ${roleLabels[role]}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao alterar papel',
+        description: errorMessage(error, 'Não foi possível alterar o papel.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const getDraftSalary = (user: ManagedUser) => salaryDrafts[user.id] ?? (user.salary != null ? String(user.salary) : '');
+
+  const handleSaveSalary = async (user: ManagedUser) => {
+    const value = getDraftSalary(user).trim();
+    const salary = value === '' ? null : Number(value);
+    if (salary !== null && !(salary >= 0)) {
+      toast({
+        title: 'Salário inválido',
+        description: 'Informe um valor maior ou igual a zero, ou deixe em branco.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingUserId(user.id);
+    try {
+      await updateUserSalary(user.id, salary);
+      const { [user.id]: _saved, ...remainingDrafts } = salaryDrafts;
+      setSalaryDrafts(remainingDrafts);
+      toast({
+        title: 'Salário atualizado',
+        description: `Salário de ${user.name} salvo com sucesso.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar salário',
+        description: errorMessage(error, 'Não foi possível salvar o salário.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const handleSavePolos = async (user: ManagedUser) => {
+    setSavingUserId(user.id);
+    try {
+      await updateGestoraPolos(user.id, getDraftPolos(user));
+      const { [user.id]: _saved, ...remainingDrafts } = poloDrafts;
+      setPoloDrafts(remainingDrafts);
+      toast({
+        title: 'Polos atualizados',
+        description: `Escopo de ${user.name} salvo com sucesso.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar polos',
+        description: errorMessage(error, 'Não foi possível salvar os polos.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  if (!profile) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">Ombro Amigo - Usuários</h1>
+            <p className="text-muted-foreground">Gerencie papéis, salários e polos de atuação</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/dashboard-gestora')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl text-primary flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Usuários
+            </CardTitle>
+            <CardDescription>
+              Promova ou rebaixe usuários, cadastre o salário usado na política de reembolso e defina os polos de cada gestora. Todas as alterações ficam registradas na auditoria.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                <p className="mt-2 text-muted-foreground">Carregando usuários...</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Papel</TableHead>
+                    <TableHead>Salário bruto mensal</TableHead>
+                    <TableHead>Polos sob gestão</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === profile.id;
+                    const draftPolos = getDraftPolos(user);
+                    const polosChanged = user.id in poloDrafts;
+                    const salaryChanged = user.id in salaryDrafts;
+
+                    return (
+                      <TableRow key={user.id}>
+                        <TableCell>
+                          <p className="font-medium">{user.name}</p>
+                          <p className="text-xs text-muted-foreground">{getPoloName(user.polo) || 'Polo não informado'}</p>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{user.email}</TableCell>
+                        <TableCell>
+                          {isSelf ? (
+                            <Badge variant="secondary">{roleLabels[user.role]}</Badge>
+                          ) : (
+                            <Select
+                              value={user.role}
+                              onValueChange={(value: UserRole) => handleRoleChange(user, value)}
+                              disabled={savingUserId === user.id}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="solicitante">{roleLabels.solicitante}</SelectItem>
+                                <SelectItem value="gestora">{roleLabels.gestora}</SelectItem>
+                                <SelectItem value="financeiro">{roleLabels.financeiro}</SelectItem>
+                                <SelectItem value="admin">{roleLabels.admin}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              className="w-36"
+                              placeholder="Não cadastrado"
+                              value={getDraftSalary(user)}
+                              onChange={(e) => setSalaryDrafts({ ...salaryDrafts, [user.id]: e.target.value })}
+                            />
+                            {salaryChanged && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleSaveSalary(user)}
+                                disabled={savingUserId === user.id}
+                              >
+                                <Save className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {user.role !== 'gestora' && user.role !== 'admin' ? (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          ) : (
+                            <div className="space-y-2">
+                              <div className="flex flex-wrap gap-3">
+                                {/* Polos inativos só aparecem enquanto ainda estiverem atribuídos */}
+                                {polos
+                                  .filter(polo => polo.active || draftPolos.includes(polo.code))
+                                  .map((polo) => (
+                                    <label key={polo.code} className="flex items-center gap-1 text-sm">
+                                      <Checkbox
+                                        checked={draftPolos.includes(polo.code)}
+                                        onCheckedChange={(checked) => togglePolo(user, polo.code, checked === true)}
+                                      />
+                                      {polo.name}
+                                    </label>
+                                  ))}
+                              </div>
+                              {polosChanged && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleSavePolos(user)}
+                                  disabled={savingUserId === user.id}
+                                >
+                                  <MapPin className="w-3 h-3 mr-1" />
+                                  {savingUserId === user.id ? 'Salvando...' : 'Salvar polos'}
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,58 @@
 import { useEffect, useState } from 'react';
 import { RequestAttachments } from '@/components/RequestAttachments';
+import { DocumentViewer } from '@/components/DocumentViewer';
+import { ocrAmountDiffers } from '@/lib/receiptOcr';
+import { RequestComments } from '@/components/RequestComments';
+import { DependentDocuments } from '@/components/DependentDocuments';
+import { PaymentBatchPanel, PaymentStatusBadge } from '@/components/PaymentBatchPanel';
+import { BenefitTypeLabel } from '@/components/BenefitTypeLabel';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRequests } from '@/hooks/useRequests';
-import { useInvoices } from '@/hooks/useInvoices';
+import { useRequests, Request, RequestInfoRound, RequestDuplicate, RequestChange, getApprovedAmount, duplicateMatchLabels, requestChangeFieldLabels } from '@/hooks/useRequests';
+import { useBenefitCaps } from '@/hooks/useBenefitCaps';
+import { useBenefitTypes } from '@/hooks/useBenefitTypes';
+import { usePolos } from '@/hooks/usePolos';
+import { capYear, computeCapBalances, findCapViolations } from '@shared/benefitCaps';
+import { paymentMethodLabels } from '@shared/payments';
+import { appealStatusLabels, AppealStatus } from '@shared/appeals';
+import { ageOn, dependentRelationshipLabels, DependentRelationship, RequestDependent } from '@shared/dependents';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { FileText, Clock, CheckCircle, XCircle, LogOut, Eye, ThumbsUp, ThumbsDown, Download, Paperclip, MapPin, File } from 'lucide-react';
+import { FileText, Clock, CheckCircle, XCircle, LogOut, Eye, ThumbsUp, ThumbsDown, Download, Paperclip, MapPin, File, Users, HelpCircle, Scale, AlertTriangle, Tags, FileCheck, Copy, Ban, Gavel } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
 
 export default function DashboardGestora() {
   const { profile, signOut } = useAuth();
-  const { requests, loading, updateRequestStatus } = useRequests();
-  const { getInvoicesForRequest } = useInvoices();
+  const { requests, loading, updateRequestStatus, requestMoreInfo, decideAppeal, recordPayments } = useRequests();
+  const { caps } = useBenefitCaps();
+  const { benefitTypes, getBenefitType } = useBenefitTypes();
+  const { managedPolos, getPoloName } = usePolos();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [selectedRequest, setSelectedRequest] = useState<any>(null);
+  // Documento aberto no visualizador embutido do modal de detalhes
+  const [viewingDocumentId, setViewingDocumentId] = useState<string | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [infoQuestion, setInfoQuestion] = useState('');
+  const [overrideCap, setOverrideCap] = useState(false);
+  const [approvedAmount, setApprovedAmount] = useState('');
+  const [approvalJustification, setApprovalJustification] = useState('');
+  const [appealNotes, setAppealNotes] = useState('');
   const [processing, setProcessing] = useState(false);
-  const [invoices, setInvoices] = useState<any[]>([]);
   const [selectedPolo, setSelectedPolo] = useState<string>('todos');
+  const [selectedType, setSelectedType] = useState<string>('todos');
 
   useEffect(() => {
-    if (profile && profile.role !== 'gestora') {
+    if (profile && profile.role === 'solicitante') {
       navigate('/dashboard-solicitante');
     }
   }, [profile, navigate]);
@@ -40,6 +65,10 @@ export default function DashboardGestora() {
         return <Badge variant="secondary" className="bg-success-light text-success"><CheckCircle className="w-3 h-3 mr-1" />Aprovado</Badge>;
       case 'rejected':
         return <Badge variant="secondary" className="bg-destructive-light text-destructive"><XCircle className="w-3 h-3 mr-1" />Recusado</Badge>;
+      case 'info_requested':
+        return <Badge variant="secondary" className="bg-warning-light text-warning"><HelpCircle className="w-3 h-3 mr-1" />Aguardando informações</Badge>;
+      case 'cancelled':
+        return <Badge variant="secondary" className="bg-muted text-muted-foreground"><Ban className="w-3 h-3 mr-1" />Cancelada</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -56,14 +85,77 @@ export default function DashboardGestora() {
     return new Date(dateString).toLocaleDateString('pt-BR');
   };
 
-  const handleApprove = async (requestId: string) => {
+  const formatChangeValue = (change: RequestChange, value: RequestChange['old_value']) => {
+    if (change.field === 'amount') return formatCurrency(Number(value ?? 0));
+    if (change.field === 'documents') {
+      return Array.isArray(value) && value.length > 0 ? value.join(', ') : 'nenhum anexo';
+    }
+    return String(value ?? '');
+  };
+
+  // Prévia da checagem de teto feita em request-management, a partir das solicitações já carregadas
+  const getCapViolations = (request: Request, amount = Number(request.amount)) => {
+    const balances = computeCapBalances(
+      caps,
+      requests.filter(r => r.user_id === request.user_id && r.id !== request.id),
+      {
+        type: request.type,
+        year: capYear(request.created_at),
+        dependents: request.dependents || [],
+      }
+    );
+    return findCapViolations(balances, amount);
+  };
+
+  // Comprovantes cujo total lido automaticamente não bate com o valor solicitado
+  const getOcrMismatches = (request: Request) =>
+    (request.documents || []).filter(document =>
+      !document.invoice_data && ocrAmountDiffers(document.ocr_data, Number(request.amount))
+    );
+
+  // Soma das notas fiscais lidas dos XMLs anexados; null quando não há XML
+  const getInvoiceTotal = (request: Request) => {
+    const invoices = (request.documents || []).filter(document => document.invoice_data);
+    if (invoices.length === 0) return null;
+    return Math.round(invoices.reduce((total, document) => total + document.invoice_data!.total_amount, 0) * 100) / 100;
+  };
+
+  // Uma entrada por solicitação repetida, com a coincidência mais forte entre os anexos
+  const getDuplicates = (request: Request) => {
+    const strength = Object.keys(duplicateMatchLabels);
+    const sorted = [...(request.duplicates || [])].sort(
+      (a, b) => strength.indexOf(a.match_type) - strength.indexOf(b.match_type)
+    );
+    return sorted.filter((duplicate, index) =>
+      sorted.findIndex(other => other.duplicate_request_id === duplicate.duplicate_request_id) === index
+    );
+  };
+
+  const handleOpenDuplicate = (duplicate: RequestDuplicate) => {
+    const other = requests.find(r => r.id === duplicate.duplicate_request_id);
+    if (other) {
+      setOverrideCap(false);
+      setRejectionReason('');
+      setInfoQuestion('');
+      handleViewRequest(other);
+    }
+  };
+
+  const handleApprove = async (
+    requestId: string,
+    options: { overrideCap?: boolean; approvedAmount?: number; approvalJustification?: string } = {}
+  ) => {
     setProcessing(true);
     try {
-      await updateRequestStatus(requestId, 'approved');
+      await updateRequestStatus(requestId, 'approved', undefined, options);
       toast({
         title: 'Solicitação aprovada!',
         description: 'O solicitante foi notificado por email.',
       });
+      setSelectedRequest(null);
+      setOverrideCap(false);
+      setApprovedAmount('');
+      setApprovalJustification('');
     } catch (error: any) {
       toast({
         title: 'Erro ao aprovar',
@@ -105,53 +197,111 @@ export default function DashboardGestora() {
     }
   };
 
-  const loadInvoices = async (requestId: string) => {
+  const handleRequestInfo = async (requestId: string, question: string) => {
+    if (!question.trim()) {
+      toast({
+        title: 'Pergunta obrigatória',
+        description: 'Informe quais informações o solicitante deve enviar.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setProcessing(true);
     try {
-      const requestInvoices = await getInvoicesForRequest(requestId);
-      setInvoices(requestInvoices);
+      await requestMoreInfo(requestId, question);
+      toast({
+        title: 'Informações solicitadas',
+        description: 'O solicitante foi notificado por email.',
+      });
+      setSelectedRequest(null);
+      setInfoQuestion('');
     } catch (error) {
-      console.error('Error loading invoices:', error);
-      setInvoices([]);
+      toast({
+        title: 'Erro ao solicitar informações',
+        description: errorMessage(error, 'Não foi possível solicitar as informações.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
     }
   };
 
-  const handleViewRequest = async (request: any) => {
-    setSelectedRequest(request);
-    await loadInvoices(request.id);
+  // Quem recusou não decide o recurso: fica para outra gestora do polo ou para o comitê (administradores)
+  const canDecideAppeal = (request: Request) =>
+    request.appeal?.status === 'pending'
+    && (profile?.role === 'gestora' || profile?.role === 'admin')
+    && request.appeal.original_decider_id !== profile?.id;
+
+  const handleDecideAppeal = async (request: Request, outcome: 'granted' | 'denied') => {
+    if (outcome === 'denied' && !appealNotes.trim()) {
+      toast({
+        title: 'Parecer obrigatório',
+        description: 'Explique por que a recusa foi mantida.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      await decideAppeal(request.appeal!.id, outcome, {
+        decisionNotes: appealNotes,
+        ...(outcome === 'granted' ? { approvedAmount: parseFloat(approvedAmount) || 0, overrideCap } : {}),
+      });
+      toast({
+        title: outcome === 'granted' ? 'Recurso deferido' : 'Recurso indeferido',
+        description: outcome === 'granted'
+          ? 'A solicitação foi aprovada e o solicitante foi notificado por email.'
+          : 'O solicitante foi notificado por email.',
+      });
+      setSelectedRequest(null);
+      setAppealNotes('');
+      setOverrideCap(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao decidir recurso',
+        description: errorMessage(error, 'Não foi possível decidir o recurso.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
   };
 
-  const downloadInvoice = (invoice: any) => {
-    console.log('Opening invoice:', invoice);
-    // Força a abertura em nova aba
-    const link = document.createElement('a');
-    link.href = invoice.file_url;
-    link.target = '_blank';
-    link.rel = 'noopener noreferrer';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleViewRequest = async (request: any) => {
+    setSelectedRequest(request);
+    setApprovedAmount(String(request.amount));
+    setApprovalJustification('');
   };
 
   // Função para filtrar por polo
   const filterByPolo = (requestList: any[]) => {
     if (selectedPolo === 'todos') return requestList;
-    return requestList.filter(r => r.users?.polo === selectedPolo);
+    return requestList.filter(r => r.polo === selectedPolo);
+  };
+
+  const filterByType = (requestList: any[]) => {
+    if (selectedType === 'todos') return requestList;
+    return requestList.filter(r => r.type === selectedType);
   };
 
   // Função para agrupar por polo
   const groupByPolo = (requestList: any[]) => {
-    const polos = ['3M Sumaré', 'Manaus', 'Ribeirão Preto', 'Itapetininga'];
-    return polos.reduce((acc, polo) => {
-      acc[polo] = requestList.filter(r => r.users?.polo === polo);
+    return managedPolos.reduce((acc, polo) => {
+      acc[polo.code] = requestList.filter(r => r.polo === polo.code);
       return acc;
     }, {} as Record<string, any[]>);
   };
 
   const pendingRequests = requests.filter(r => r.status === 'pending');
   const processedRequests = requests.filter(r => r.status !== 'pending');
+  const approvedRequests = requests.filter(r => r.status === 'approved');
+  const appealRequests = requests.filter(r => r.appeal?.status === 'pending');
   
-  const filteredPendingRequests = filterByPolo(pendingRequests);
-  const filteredProcessedRequests = filterByPolo(processedRequests);
+  const filteredPendingRequests = filterByType(filterByPolo(pendingRequests));
+  const filteredProcessedRequests = filterByType(filterByPolo(processedRequests));
+  const filteredAppealRequests = filterByType(filterByPolo(appealRequests));
   
   const groupedPendingRequests = groupByPolo(pendingRequests);
   const groupedProcessedRequests = groupByPolo(processedRequests);
@@ -169,10 +319,32 @@ export default function DashboardGestora() {
             <h1 className="text-3xl font-bold text-primary">Ombro Amigo - Gestão</h1>
             <p className="text-muted-foreground">Bem-vinda, {profile.name}</p>
           </div>
-          <Button variant="outline" onClick={signOut}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Sair
-          </Button>
+          <div className="flex gap-2">
+            {profile.role === 'admin' && (
+              <>
+                <Button variant="outline" onClick={() => navigate('/admin/usuarios')}>
+                  <Users className="w-4 h-4 mr-2" />
+                  Usuários
+                </Button>
+                <Button variant="outline" onClick={() => navigate('/admin/politicas')}>
+                  <Scale className="w-4 h-4 mr-2" />
+                  Políticas
+                </Button>
+                <Button variant="outline" onClick={() => navigate('/admin/beneficios')}>
+                  <Tags className="w-4 h-4 mr-2" />
+                  Benefícios
+                </Button>
+                <Button variant="outline" onClick={() => navigate('/admin/polos')}>
+                  <MapPin className="w-4 h-4 mr-2" />
+                  Polos
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
         </div>
 
         {/* Estatísticas Rápidas */}
@@ -194,8 +366,10 @@ export default function DashboardGestora() {
               <div className="flex items-center space-x-2">
                 <CheckCircle className="h-8 w-8 text-success" />
                 <div>
-                  <p className="text-2xl font-bold">{requests.filter(r => r.status === 'approved').length}</p>
-                  <p className="text-sm text-muted-foreground">Aprovadas</p>
+                  <p className="text-2xl font-bold">{approvedRequests.length}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Aprovadas • {formatCurrency(approvedRequests.reduce((sum, r) => sum + getApprovedAmount(r), 0))}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -215,13 +389,28 @@ export default function DashboardGestora() {
         </div>
 
         {/* Tabs por Polo */}
+        <div className="flex justify-end mb-4">
+          <Select value={selectedType} onValueChange={setSelectedType}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todos">Todos os tipos de auxílio</SelectItem>
+              {benefitTypes.map((benefitType) => (
+                <SelectItem key={benefitType.code} value={benefitType.code}>
+                  <BenefitTypeLabel code={benefitType.code} benefitType={benefitType} />
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Tabs value={selectedPolo} onValueChange={setSelectedPolo} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="todos">Todos os Polos</TabsTrigger>
-            <TabsTrigger value="3M Sumaré">3M Sumaré</TabsTrigger>
-            <TabsTrigger value="Manaus">Manaus</TabsTrigger>
-            <TabsTrigger value="Ribeirão Preto">Ribeirão Preto</TabsTrigger>
-            <TabsTrigger value="Itapetininga">Itapetininga</TabsTrigger>
+          <TabsList className="flex flex-wrap h-auto w-full justify-start">
+            <TabsTrigger value="todos">{profile.role === 'gestora' ? 'Todos os Meus Polos' : 'Todos os Polos'}</TabsTrigger>
+            {managedPolos.map((polo) => (
+              <TabsTrigger key={polo.code} value={polo.code}>{polo.name}</TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value={selectedPolo} className="space-y-6">
@@ -235,7 +424,7 @@ export default function DashboardGestora() {
                     {selectedPolo !== 'todos' && (
                       <Badge variant="outline" className="ml-2">
                         <MapPin className="h-3 w-3 mr-1" />
-                        {selectedPolo}
+                        {getPoloName(selectedPolo)}
                       </Badge>
                     )}
                   </CardTitle>
@@ -253,7 +442,7 @@ export default function DashboardGestora() {
                     <div className="text-center py-8">
                       <CheckCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                       <p className="text-muted-foreground">
-                        {selectedPolo === 'todos' ? 'Nenhuma solicitação pendente' : `Nenhuma solicitação pendente em ${selectedPolo}`}
+                        {selectedPolo === 'todos' ? 'Nenhuma solicitação pendente' : `Nenhuma solicitação pendente em ${getPoloName(selectedPolo)}`}
                       </p>
                     </div>
                   ) : (
@@ -262,15 +451,31 @@ export default function DashboardGestora() {
                         <div key={request.id} className="border rounded-lg p-4 space-y-3">
                           <div className="flex justify-between items-start">
                             <div>
-                              <h3 className="font-semibold text-foreground capitalize">{request.type}</h3>
+                              <h3 className="font-semibold text-foreground">
+                                <BenefitTypeLabel code={request.type} benefitType={getBenefitType(request.type)} />
+                              </h3>
                               <p className="text-sm text-muted-foreground">
-                                {request.users?.name} • {request.users?.polo} • {formatDate(request.created_at)}
+                                {request.users?.name} • {getPoloName(request.users?.polo)} • {formatDate(request.created_at)}
                               </p>
                             </div>
                             {getStatusBadge(request.status)}
                           </div>
                           
                           <p className="text-sm text-foreground line-clamp-2">{request.description}</p>
+
+                          {getDuplicates(request).length > 0 && (
+                            <Badge variant="secondary" className="bg-destructive-light text-destructive">
+                              <Copy className="w-3 h-3 mr-1" />
+                              Possível duplicata de {getDuplicates(request).map(duplicate => `#${duplicate.duplicate_request_id.slice(0, 8)}`).join(', ')}
+                            </Badge>
+                          )}
+
+                          {getCapViolations(request).length > 0 && (
+                            <p className="text-xs text-warning flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              Excede o saldo anual restante do colaborador
+                            </p>
+                          )}
                           
                           <div className="flex justify-between items-center pt-2 border-t">
                             <span className="font-semibold text-primary">{formatCurrency(request.amount)}</span>
@@ -285,7 +490,9 @@ export default function DashboardGestora() {
                               </Button>
                               <Button
                                 size="sm"
-                                onClick={() => handleApprove(request.id)}
+                                onClick={() => getCapViolations(request).length > 0
+                                  ? handleViewRequest(request)
+                                  : handleApprove(request.id)}
                                 disabled={processing}
                                 className="bg-gradient-success"
                               >
@@ -310,7 +517,7 @@ export default function DashboardGestora() {
                     {selectedPolo !== 'todos' && (
                       <Badge variant="outline" className="ml-2">
                         <MapPin className="h-3 w-3 mr-1" />
-                        {selectedPolo}
+                        {getPoloName(selectedPolo)}
                       </Badge>
                     )}
                   </CardTitle>
@@ -323,7 +530,7 @@ export default function DashboardGestora() {
                     <div className="text-center py-8">
                       <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                       <p className="text-muted-foreground">
-                        {selectedPolo === 'todos' ? 'Nenhuma solicitação processada' : `Nenhuma solicitação processada em ${selectedPolo}`}
+                        {selectedPolo === 'todos' ? 'Nenhuma solicitação processada' : `Nenhuma solicitação processada em ${getPoloName(selectedPolo)}`}
                       </p>
                     </div>
                   ) : (
@@ -333,17 +540,26 @@ export default function DashboardGestora() {
                              onClick={() => handleViewRequest(request)}>
                           <div className="flex justify-between items-start">
                             <div>
-                              <h3 className="font-semibold text-foreground capitalize">{request.type}</h3>
+                              <h3 className="font-semibold text-foreground">
+                                <BenefitTypeLabel code={request.type} benefitType={getBenefitType(request.type)} />
+                              </h3>
                               <p className="text-sm text-muted-foreground">
-                                {request.users?.name} • {request.users?.polo} • {formatDate(request.created_at)}
+                                {request.users?.name} • {getPoloName(request.users?.polo)} • {formatDate(request.created_at)}
                               </p>
                             </div>
                             {getStatusBadge(request.status)}
                           </div>
                           
                           <div className="flex justify-between items-center">
-                            <span className="font-semibold text-primary">{formatCurrency(request.amount)}</span>
-                            <span className="text-xs text-muted-foreground">#{request.id.slice(0, 8)}</span>
+                            <span className="font-semibold text-primary">
+                              {request.status === 'approved' && getApprovedAmount(request) < Number(request.amount)
+                                ? `${formatCurrency(getApprovedAmount(request))} de ${formatCurrency(request.amount)}`
+                                : formatCurrency(request.amount)}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              {request.status === 'approved' && <PaymentStatusBadge status={request.payment_status} />}
+                              <span className="text-xs text-muted-foreground">#{request.id.slice(0, 8)}</span>
+                            </div>
                           </div>
                         </div>
                       ))}
@@ -352,19 +568,86 @@ export default function DashboardGestora() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Recursos contra recusas */}
+            {appealRequests.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl text-primary flex items-center gap-2">
+                    <Gavel className="h-5 w-5" />
+                    Recursos
+                    <Badge variant="outline" className="ml-2">{filteredAppealRequests.length}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Recursos contra solicitações recusadas, decididos por outra gestora do polo ou pelo comitê
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {filteredAppealRequests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">Nenhum recurso aguardando decisão neste filtro</p>
+                  ) : (
+                    <div className="grid lg:grid-cols-2 gap-4">
+                      {filteredAppealRequests.map((request) => (
+                        <div key={request.id} className="border rounded-lg p-4 space-y-3">
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <h3 className="font-semibold text-foreground">
+                                <BenefitTypeLabel code={request.type} benefitType={getBenefitType(request.type)} />
+                              </h3>
+                              <p className="text-sm text-muted-foreground">
+                                {request.users?.name} • {getPoloName(request.users?.polo)} • recurso em {formatDate(request.appeal!.created_at)}
+                              </p>
+                            </div>
+                            {getStatusBadge(request.status)}
+                          </div>
+
+                          <p className="text-sm text-foreground line-clamp-2">{request.appeal!.justification}</p>
+
+                          <div className="flex justify-between items-center pt-2 border-t">
+                            <span className="font-semibold text-primary">{formatCurrency(request.amount)}</span>
+                            <div className="flex items-center gap-2">
+                              {!canDecideAppeal(request) && (
+                                <span className="text-xs text-muted-foreground">Aguardando outra gestora ou o comitê</span>
+                              )}
+                              <Button size="sm" variant="outline" onClick={() => handleViewRequest(request)}>
+                                <Eye className="w-3 h-3 mr-1" />
+                                {canDecideAppeal(request) ? 'Analisar' : 'Ver'}
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
+
+        <div className="mt-8">
+          <PaymentBatchPanel
+            requests={filterByType(filterByPolo(approvedRequests))}
+            recordPayments={recordPayments}
+            getBenefitType={getBenefitType}
+          />
+        </div>
       </div>
 
       {/* Modal de Detalhes */}
       <Dialog open={!!selectedRequest} onOpenChange={(open) => {
         if (!open) {
           setSelectedRequest(null);
-          setInvoices([]);
+          setViewingDocumentId(null);
           setRejectionReason('');
+          setInfoQuestion('');
+          setOverrideCap(false);
+          setApprovedAmount('');
+          setApprovalJustification('');
+          setAppealNotes('');
         }
       }}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className={`${viewingDocumentId ? 'max-w-6xl' : 'max-w-2xl'} max-h-[90vh] overflow-y-auto`}>
           <DialogHeader>
             <DialogTitle>Detalhes da Solicitação</DialogTitle>
             <DialogDescription>
@@ -372,8 +655,86 @@ export default function DashboardGestora() {
             </DialogDescription>
           </DialogHeader>
           
-          {selectedRequest && (
+          {selectedRequest && viewingDocumentId && (
+            <DocumentViewer
+              requestId={selectedRequest.id}
+              initialDocumentId={viewingDocumentId}
+              expectedAmount={Number(selectedRequest.amount)}
+              onClose={() => setViewingDocumentId(null)}
+              aside={
+                <>
+                  <div>
+                    <p className="font-medium">Solicitante:</p>
+                    <p className="text-muted-foreground">{selectedRequest.users?.name}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium">Tipo:</p>
+                    <p className="text-muted-foreground">
+                      <BenefitTypeLabel code={selectedRequest.type} benefitType={getBenefitType(selectedRequest.type)} />
+                    </p>
+                  </div>
+                  <div>
+                    <p className="font-medium">Valor solicitado:</p>
+                    <p className="text-muted-foreground">{formatCurrency(selectedRequest.amount)}</p>
+                  </div>
+                  {selectedRequest.status === 'approved' && (
+                    <div>
+                      <p className="font-medium">Valor aprovado:</p>
+                      <p className="text-muted-foreground">{formatCurrency(getApprovedAmount(selectedRequest))}</p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium">Data:</p>
+                    <p className="text-muted-foreground">{formatDate(selectedRequest.created_at)}</p>
+                  </div>
+                  {selectedRequest.dependents && selectedRequest.dependents.length > 0 && (
+                    <div>
+                      <p className="font-medium">Dependentes:</p>
+                      <p className="text-muted-foreground">
+                        {selectedRequest.dependents.map((dependent: any) => dependent.name).join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium">Descrição:</p>
+                    <p className="text-muted-foreground bg-muted p-3 rounded-md">{selectedRequest.description}</p>
+                  </div>
+                </>
+              }
+            />
+          )}
+
+          {selectedRequest && !viewingDocumentId && (
             <div className="space-y-4">
+              {getDuplicates(selectedRequest).length > 0 && (
+                <div className="bg-destructive-light p-3 rounded-md border border-destructive/20 space-y-2">
+                  <p className="text-sm font-medium text-destructive flex items-center gap-2">
+                    <Copy className="w-4 h-4" />
+                    Comprovante possivelmente já apresentado
+                  </p>
+                  {getDuplicates(selectedRequest).map((duplicate) => {
+                    const other = requests.find(r => r.id === duplicate.duplicate_request_id);
+                    return (
+                      <div key={duplicate.id} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                        <span className="text-muted-foreground">
+                          Possível duplicata da solicitação #{duplicate.duplicate_request_id.slice(0, 8)}
+                          {' '}({duplicateMatchLabels[duplicate.match_type]}, {duplicate.same_requester ? 'mesmo colaborador' : 'outro colaborador'})
+                          {other && ` • ${formatDate(other.created_at)} • ${formatCurrency(other.amount)}`}
+                        </span>
+                        {other ? (
+                          <Button size="sm" variant="outline" onClick={() => handleOpenDuplicate(duplicate)}>
+                            <Eye className="w-3 h-3 mr-1" />
+                            Abrir
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground italic">Solicitação de um polo que você não gerencia</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm font-medium">Solicitante:</p>
@@ -385,20 +746,76 @@ export default function DashboardGestora() {
                 </div>
                 <div>
                   <p className="text-sm font-medium">Polo:</p>
-                  <p className="text-sm text-muted-foreground">{selectedRequest.users?.polo || 'Não informado'}</p>
+                  <p className="text-sm text-muted-foreground">{getPoloName(selectedRequest.users?.polo) || 'Não informado'}</p>
                 </div>
                 <div>
                   <p className="text-sm font-medium">Tipo:</p>
-                  <p className="text-sm text-muted-foreground capitalize">{selectedRequest.type}</p>
+                  <p className="text-sm text-muted-foreground">
+                    <BenefitTypeLabel code={selectedRequest.type} benefitType={getBenefitType(selectedRequest.type)} />
+                  </p>
                 </div>
                 <div>
-                  <p className="text-sm font-medium">Valor:</p>
+                  <p className="text-sm font-medium">Valor solicitado:</p>
                   <p className="text-sm text-muted-foreground">{formatCurrency(selectedRequest.amount)}</p>
+                  {getInvoiceTotal(selectedRequest) !== null && (
+                    getInvoiceTotal(selectedRequest) === Number(selectedRequest.amount) ? (
+                      <Badge variant="secondary" className="bg-success-light text-success mt-1">
+                        <FileCheck className="w-3 h-3 mr-1" />
+                        Validado pelo XML
+                      </Badge>
+                    ) : (
+                      <p className="text-xs text-warning mt-1">
+                        Total das notas em XML: {formatCurrency(getInvoiceTotal(selectedRequest)!)}
+                      </p>
+                    )
+                  )}
+                  {getOcrMismatches(selectedRequest).map((document) => (
+                    <p key={document.id} className="text-xs text-warning mt-1 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      {document.file_name}: leitura automática indica {formatCurrency(document.ocr_data!.amount!)}
+                    </p>
+                  ))}
                 </div>
+                {selectedRequest.status === 'approved' && (
+                  <>
+                    <div>
+                      <p className="text-sm font-medium">Valor aprovado:</p>
+                      <p className="text-sm text-muted-foreground">{formatCurrency(getApprovedAmount(selectedRequest))}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium">Pagamento:</p>
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <PaymentStatusBadge status={selectedRequest.payment_status} />
+                        {selectedRequest.payment_date && (
+                          <p>
+                            {formatDate(`${selectedRequest.payment_date}T00:00:00`)}
+                            {selectedRequest.payment_method && ` • ${paymentMethodLabels[selectedRequest.payment_method] ?? selectedRequest.payment_method}`}
+                            {selectedRequest.payroll_reference && ` • ${selectedRequest.payroll_reference}`}
+                          </p>
+                        )}
+                        {selectedRequest.payment_status === 'reversed' && selectedRequest.payment_reversal_reason && (
+                          <p>Estorno: {selectedRequest.payment_reversal_reason}</p>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
                 <div>
                   <p className="text-sm font-medium">Data:</p>
                   <p className="text-sm text-muted-foreground">{formatDate(selectedRequest.created_at)}</p>
                 </div>
+                <div>
+                  <p className="text-sm font-medium">Política aplicada:</p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedRequest.policy_version ? `Versão ${selectedRequest.policy_version}` : 'Não registrada'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium">Salário cadastrado no envio:</p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedRequest.declared_salary ? formatCurrency(selectedRequest.declared_salary) : 'Não cadastrado'}
+                  </p>
+                </div>
               </div>
               
               <div>
@@ -413,10 +830,17 @@ export default function DashboardGestora() {
                 <div>
                   <p className="text-sm font-medium mb-2">Dependentes:</p>
                   <div className="space-y-2">
-                    {selectedRequest.dependents.map((dependent: any, index: number) => (
-                      <div key={index} className="p-2 bg-muted rounded-md">
+                    {selectedRequest.dependents.map((dependent: RequestDependent, index: number) => (
+                      <div key={dependent.id ?? index} className="p-2 bg-muted rounded-md space-y-1">
                         <p className="text-sm font-medium">{dependent.name}</p>
-                        <p className="text-xs text-muted-foreground capitalize">{dependent.relationship}</p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {dependentRelationshipLabels[dependent.relationship as DependentRelationship] ?? dependent.relationship}
+                          {/* Idade na data do envio, quando a elegibilidade foi conferida */}
+                          {dependent.birthdate && ` • ${ageOn(dependent.birthdate, new Date(selectedRequest.created_at))} anos no envio`}
+                          {dependent.is_student && ' • estudante'}
+                        </p>
+                        {/* Solicitações antigas não têm cadastro nem documentos */}
+                        {dependent.id && <DependentDocuments dependentId={dependent.id} />}
                       </div>
                     ))}
                   </div>
@@ -424,20 +848,191 @@ export default function DashboardGestora() {
               )}
 
               {/* Anexos da Solicitação */}
-              <RequestAttachments 
-                requestId={selectedRequest.id} 
-                attachments={selectedRequest.attachments} 
+              <RequestAttachments
+                requestId={selectedRequest.id}
+                expectedAmount={Number(selectedRequest.amount)}
+                onView={(document) => setViewingDocumentId(document.id)}
               />
 
+              <RequestComments requestId={selectedRequest.id} />
 
-              <div>
-                <p className="text-sm font-medium mb-2">Motivo da recusa (opcional):</p>
-                <Textarea
-                  placeholder="Informe o motivo caso vá recusar a solicitação..."
-                  value={rejectionReason}
-                  onChange={(e) => setRejectionReason(e.target.value)}
-                />
-              </div>
+
+              {/* Rodadas de informações adicionais */}
+              {selectedRequest.info_rounds && selectedRequest.info_rounds.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Histórico de informações solicitadas:</p>
+                  <div className="space-y-2">
+                    {selectedRequest.info_rounds.map((round: RequestInfoRound, index: number) => (
+                      <div key={round.id} className="p-3 bg-warning-light rounded-md space-y-1">
+                        <p className="text-xs text-muted-foreground">
+                          Rodada {index + 1} • {formatDate(round.requested_at)}
+                        </p>
+                        <p className="text-sm"><strong>Pergunta:</strong> {round.question}</p>
+                        {round.responded_at ? (
+                          <p className="text-sm">
+                            <strong>Resposta ({formatDate(round.responded_at)}):</strong> {round.response || 'Sem comentário'}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">Aguardando resposta do solicitante</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Alterações feitas pelo solicitante (edição antes da análise ou reenvio) */}
+              {selectedRequest.changes && selectedRequest.changes.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Histórico de alterações do solicitante:</p>
+                  <div className="space-y-2">
+                    {selectedRequest.changes.map((change: RequestChange) => (
+                      <div key={change.id} className="p-3 bg-muted rounded-md space-y-1">
+                        <p className="text-xs text-muted-foreground">
+                          {requestChangeFieldLabels[change.field] ?? change.field} • {formatDate(change.changed_at)}
+                        </p>
+                        <p className="text-sm"><strong>Antes:</strong> {formatChangeValue(change, change.old_value)}</p>
+                        <p className="text-sm"><strong>Depois:</strong> {formatChangeValue(change, change.new_value)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedRequest.status === 'cancelled' && (
+                <div className="bg-muted p-3 rounded-md border">
+                  <p className="text-sm font-medium">
+                    Cancelada pelo solicitante{selectedRequest.cancelled_at && ` em ${formatDate(selectedRequest.cancelled_at)}`}
+                  </p>
+                  {selectedRequest.cancellation_reason && (
+                    <p className="text-sm text-muted-foreground"><strong>Motivo:</strong> {selectedRequest.cancellation_reason}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Recurso do solicitante contra a recusa */}
+              {selectedRequest.appeal && (
+                <div className="bg-muted p-3 rounded-md border space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <Gavel className="w-4 h-4" />
+                    {appealStatusLabels[selectedRequest.appeal.status as AppealStatus]}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      • enviado em {formatDate(selectedRequest.appeal.created_at)}
+                      {selectedRequest.appeal.decided_at && ` • decidido em ${formatDate(selectedRequest.appeal.decided_at)}`}
+                    </span>
+                  </p>
+                  <p className="text-sm"><strong>Motivo da recusa:</strong> {selectedRequest.rejection_reason || 'Não informado'}</p>
+                  <p className="text-sm"><strong>Justificativa do recurso:</strong> {selectedRequest.appeal.justification}</p>
+                  {selectedRequest.appeal.decision_notes && (
+                    <p className="text-sm"><strong>Parecer:</strong> {selectedRequest.appeal.decision_notes}</p>
+                  )}
+                  {selectedRequest.appeal.status === 'pending' && !canDecideAppeal(selectedRequest) && (
+                    <p className="text-sm text-muted-foreground">
+                      {selectedRequest.appeal.original_decider_id === profile.id
+                        ? 'Você recusou esta solicitação; o recurso será decidido por outra gestora do polo ou pelo comitê.'
+                        : 'Aguardando decisão de uma gestora do polo ou do comitê.'}
+                    </p>
+                  )}
+                  {canDecideAppeal(selectedRequest) && (
+                    <div className="grid grid-cols-2 gap-4 pt-2">
+                      <div>
+                        <p className="text-sm font-medium mb-2">Valor aprovado se deferido (R$):</p>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={approvedAmount}
+                          onChange={(e) => setApprovedAmount(e.target.value)}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <p className="text-sm font-medium mb-2">Parecer:</p>
+                        <Textarea
+                          placeholder="Obrigatório para indeferir ou para aprovar um valor menor que o solicitado..."
+                          value={appealNotes}
+                          onChange={(e) => setAppealNotes(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedRequest.approval_justification && (
+                <div>
+                  <p className="text-sm font-medium">Justificativa do valor aprovado:</p>
+                  <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md">{selectedRequest.approval_justification}</p>
+                </div>
+              )}
+
+              {selectedRequest.status === 'pending' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm font-medium mb-2">Valor aprovado (R$):</p>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={approvedAmount}
+                      onChange={(e) => setApprovedAmount(e.target.value)}
+                    />
+                  </div>
+                  {(parseFloat(approvedAmount) || 0) < Number(selectedRequest.amount) && (
+                    <div className="col-span-2">
+                      <p className="text-sm font-medium mb-2">Justificativa da aprovação parcial:</p>
+                      <Textarea
+                        placeholder="Ex.: o recibo cobre apenas parte do valor solicitado..."
+                        value={approvalJustification}
+                        onChange={(e) => setApprovalJustification(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {(selectedRequest.status === 'pending' || canDecideAppeal(selectedRequest)) && getCapViolations(selectedRequest, parseFloat(approvedAmount) || 0).length > 0 && (
+                <div className="bg-warning-light p-3 rounded-md border border-warning/20 space-y-2">
+                  <p className="text-sm font-medium text-warning flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    Excede o saldo anual restante
+                  </p>
+                  {getCapViolations(selectedRequest, parseFloat(approvedAmount) || 0).map((violation, index) => (
+                    <p key={index} className="text-xs text-muted-foreground">
+                      {violation.dependent
+                        ? `Teto por dependente (${violation.dependent})`
+                        : violation.cap.request_type ? 'Teto do tipo' : 'Teto geral'}
+                      : saldo de {formatCurrency(violation.remaining)} para {formatCurrency(violation.amount)} solicitados
+                    </p>
+                  ))}
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={overrideCap}
+                      onCheckedChange={(checked) => setOverrideCap(checked === true)}
+                    />
+                    Aprovar mesmo assim (a exceção fica registrada na auditoria)
+                  </label>
+                </div>
+              )}
+
+              {selectedRequest.status === 'pending' && (
+                <>
+                  <div>
+                    <p className="text-sm font-medium mb-2">Motivo da recusa (opcional):</p>
+                    <Textarea
+                      placeholder="Informe o motivo caso vá recusar a solicitação..."
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                    />
+                  </div>
+
+                  <div>
+                    <p className="text-sm font-medium mb-2">Pedir mais informações (opcional):</p>
+                    <Textarea
+                      placeholder="Ex.: envie o recibo da consulta com o CNPJ da clínica..."
+                      value={infoQuestion}
+                      onChange={(e) => setInfoQuestion(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
             </div>
           )}
           
@@ -445,22 +1040,58 @@ export default function DashboardGestora() {
             <Button variant="outline" onClick={() => setSelectedRequest(null)}>
               Fechar
             </Button>
-            <Button
-              variant="destructive"
-              onClick={() => selectedRequest && handleReject(selectedRequest.id, rejectionReason)}
-              disabled={processing}
-            >
-              <ThumbsDown className="w-4 h-4 mr-2" />
-              Recusar
-            </Button>
-            <Button
-              onClick={() => selectedRequest && handleApprove(selectedRequest.id)}
-              disabled={processing}
-              className="bg-gradient-success"
-            >
-              <ThumbsUp className="w-4 h-4 mr-2" />
-              Aprovar
-            </Button>
+            {selectedRequest?.status === 'pending' && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => handleRequestInfo(selectedRequest.id, infoQuestion)}
+                  disabled={processing}
+                >
+                  <HelpCircle className="w-4 h-4 mr-2" />
+                  Pedir informações
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleReject(selectedRequest.id, rejectionReason)}
+                  disabled={processing}
+                >
+                  <ThumbsDown className="w-4 h-4 mr-2" />
+                  Recusar
+                </Button>
+                <Button
+                  onClick={() => handleApprove(selectedRequest.id, {
+                    overrideCap,
+                    approvedAmount: parseFloat(approvedAmount) || 0,
+                    approvalJustification,
+                  })}
+                  disabled={processing || (getCapViolations(selectedRequest, parseFloat(approvedAmount) || 0).length > 0 && !overrideCap)}
+                  className="bg-gradient-success"
+                >
+                  <ThumbsUp className="w-4 h-4 mr-2" />
+                  Aprovar
+                </Button>
+              </>
+            )}
+            {selectedRequest && canDecideAppeal(selectedRequest) && (
+              <>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDecideAppeal(selectedRequest, 'denied')}
+                  disabled={processing}
+                >
+                  <ThumbsDown className="w-4 h-4 mr-2" />
+                  Indeferir recurso
+                </Button>
+                <Button
+                  onClick={() => handleDecideAppeal(selectedRequest, 'granted')}
+                  disabled={processing || (getCapViolations(selectedRequest, parseFloat(approvedAmount) || 0).length > 0 && !overrideCap)}
+                  className="bg-gradient-success"
+                >
+                  <ThumbsUp className="w-4 h-4 mr-2" />
+                  Deferir recurso
+                </Button>
+              </>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1,18 +1,55 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRequests } from '@/hooks/useRequests';
+import { useRequests, Request, getApprovedAmount } from '@/hooks/useRequests';
+import { paymentMethodLabels } from '@shared/payments';
+import { dependentRelationshipLabels, DependentRelationship } from '@shared/dependents';
+import { appealDeadline, appealStatusLabels, canAppeal } from '@shared/appeals';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RequestForm } from '@/components/RequestForm';
 import { ProfileSettings } from '@/components/ProfileSettings';
+import { DependentsManager } from '@/components/DependentsManager';
+import { ResubmitRequestDialog } from '@/components/ResubmitRequestDialog';
+import { AppealDialog } from '@/components/AppealDialog';
+import { PaymentStatusBadge } from '@/components/PaymentBatchPanel';
+import { BenefitTypeLabel } from '@/components/BenefitTypeLabel';
+import { useBenefitTypes } from '@/hooks/useBenefitTypes';
+import { usePolos } from '@/hooks/usePolos';
+import { RequestDetailDialog } from '@/components/RequestDetailDialog';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Clock, CheckCircle, XCircle, LogOut, File } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, Clock, CheckCircle, XCircle, LogOut, File, HelpCircle, Send, Eye, Pencil, Trash2, Ban, Scale } from 'lucide-react';
+import { errorMessage } from '@/lib/errors';
 
 export default function DashboardSolicitante() {
   const { profile, signOut } = useAuth();
-  const { requests, loading } = useRequests();
+  const { requests, drafts, loading, resubmitRequest, editRequest, cancelRequest, submitAppeal, discardDraft, refetch } = useRequests();
+  const { getBenefitType } = useBenefitTypes();
+  const { getPoloName } = usePolos();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [resubmittingRequest, setResubmittingRequest] = useState<Request | null>(null);
+  const [detailRequest, setDetailRequest] = useState<Request | null>(null);
+  // Rascunho carregado no formulário; a chave remonta o formulário ao trocar de rascunho
+  const [editingDraft, setEditingDraft] = useState<Request | null>(null);
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [discardingDraft, setDiscardingDraft] = useState<Request | null>(null);
+  const [cancellingRequest, setCancellingRequest] = useState<Request | null>(null);
+  const [cancellationReason, setCancellationReason] = useState('');
+  const [appealingRequest, setAppealingRequest] = useState<Request | null>(null);
 
   useEffect(() => {
     if (profile && profile.role !== 'solicitante') {
@@ -28,6 +65,10 @@ export default function DashboardSolicitante() {
         return <Badge variant="secondary" className="bg-success-light text-success"><CheckCircle className="w-3 h-3 mr-1" />Aprovado</Badge>;
       case 'rejected':
         return <Badge variant="secondary" className="bg-destructive-light text-destructive"><XCircle className="w-3 h-3 mr-1" />Recusado</Badge>;
+      case 'info_requested':
+        return <Badge variant="secondary" className="bg-warning-light text-warning"><HelpCircle className="w-3 h-3 mr-1" />Aguardando informações</Badge>;
+      case 'cancelled':
+        return <Badge variant="secondary" className="bg-muted text-muted-foreground"><Ban className="w-3 h-3 mr-1" />Cancelada</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -44,6 +85,62 @@ export default function DashboardSolicitante() {
     return new Date(dateString).toLocaleDateString('pt-BR');
   };
 
+  // Sem rodada de informações a gestora ainda não pediu nada; a função request-management
+  // também confere comentários e anexos abertos antes de aceitar a alteração
+  const canChangeRequest = (request: Request) =>
+    request.status === 'pending' && (request.info_rounds ?? []).length === 0;
+
+  const handleCancelRequest = async (request: Request) => {
+    try {
+      await cancelRequest(request.id, cancellationReason);
+      toast({
+        title: "Solicitação cancelada",
+        description: "A solicitação foi retirada da fila de análise.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao cancelar solicitação",
+        description: errorMessage(error, 'Não foi possível cancelar a solicitação.'),
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingRequest(null);
+      setCancellationReason('');
+    }
+  };
+
+  const openDraftInForm = (draft: Request | null) => {
+    setEditingDraft(draft);
+    setActiveDraftId(draft?.id ?? null);
+    setFormKey(key => key + 1);
+  };
+
+  const handleContinueDraft = (draft: Request) => {
+    openDraftInForm(draft);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDiscardDraft = async (draft: Request) => {
+    try {
+      await discardDraft(draft.id);
+      if (draft.id === activeDraftId) {
+        openDraftInForm(null);
+      }
+      toast({
+        title: "Rascunho descartado",
+        description: "O rascunho e os anexos salvos nele foram removidos.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao descartar rascunho",
+        description: errorMessage(error, 'Não foi possível descartar o rascunho.'),
+        variant: "destructive",
+      });
+    } finally {
+      setDiscardingDraft(null);
+    }
+  };
+
   if (!profile) {
     return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
   }
@@ -56,7 +153,7 @@ export default function DashboardSolicitante() {
           <div>
             <h1 className="text-3xl font-bold text-primary">Ombro Amigo</h1>
             <p className="text-muted-foreground">
-              Bem-vindo, {profile.name} • Polo: {profile.polo || 'Não informado'}
+              Bem-vindo, {profile.name} • Polo: {getPoloName(profile.polo) || 'Não informado'}
             </p>
           </div>
           <Button variant="outline" onClick={signOut}>
@@ -68,17 +165,77 @@ export default function DashboardSolicitante() {
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Formulário de Nova Solicitação */}
           <div className="space-y-6">
-            <RequestForm />
+            <RequestForm
+              key={formKey}
+              draft={editingDraft}
+              onDraftChange={(draftId) => {
+                setActiveDraftId(draftId);
+                refetch();
+              }}
+            />
+            <DependentsManager />
             <ProfileSettings />
           </div>
 
           {/* Lista de Solicitações */}
           <div className="space-y-6">
+            {drafts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl text-primary">Rascunhos</CardTitle>
+                  <CardDescription>
+                    Solicitações ainda não enviadas; a gestora só as recebe depois do envio
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {drafts.map((draft) => (
+                    <div key={draft.id} className="border border-dashed rounded-lg p-3 space-y-2">
+                      <div className="flex justify-between items-start gap-2">
+                        <div>
+                          <h3 className="font-semibold text-foreground">
+                            {draft.type
+                              ? <BenefitTypeLabel code={draft.type} benefitType={getBenefitType(draft.type)} />
+                              : 'Tipo de auxílio não informado'}
+                          </h3>
+                          <p className="text-xs text-muted-foreground">
+                            Salvo em {new Date(draft.updated_at).toLocaleString('pt-BR')}
+                            {draft.amount ? ` • ${formatCurrency(Number(draft.amount))}` : ''}
+                            {draft.documents && draft.documents.length > 0 && ` • ${draft.documents.length} anexo(s)`}
+                          </p>
+                        </div>
+                        {draft.id === activeDraftId && <Badge variant="outline">Em edição</Badge>}
+                      </div>
+                      {draft.description && (
+                        <p className="text-sm text-foreground line-clamp-2">{draft.description}</p>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        {draft.id !== activeDraftId && (
+                          <Button size="sm" variant="outline" onClick={() => handleContinueDraft(draft)}>
+                            <Pencil className="w-3 h-3 mr-1" />
+                            Continuar editando
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => setDiscardingDraft(draft)}>
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Descartar
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-xl text-primary">Minhas Solicitações</CardTitle>
                 <CardDescription>
                   Acompanhe o status das suas solicitações de auxílio
+                  {requests.some(r => r.status === 'approved') && (
+                    <> • Total aprovado: {formatCurrency(
+                      requests.filter(r => r.status === 'approved').reduce((sum, r) => sum + getApprovedAmount(r), 0)
+                    )}</>
+                  )}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -99,9 +256,11 @@ export default function DashboardSolicitante() {
                       <div key={request.id} className="border rounded-lg p-4 space-y-3">
                         <div className="flex justify-between items-start">
                           <div>
-                            <h3 className="font-semibold text-foreground capitalize">{request.type}</h3>
+                            <h3 className="font-semibold text-foreground">
+                              <BenefitTypeLabel code={request.type} benefitType={getBenefitType(request.type)} />
+                            </h3>
                             <p className="text-sm text-muted-foreground">
-                              {formatDate(request.created_at)} • Polo: {profile.polo || 'Não informado'}
+                              {formatDate(request.created_at)} • Polo: {getPoloName(profile.polo) || 'Não informado'}
                             </p>
                           </div>
                           {getStatusBadge(request.status)}
@@ -116,7 +275,7 @@ export default function DashboardSolicitante() {
                             <div className="space-y-1">
                               {request.dependents.map((dependent, idx) => (
                                 <p key={idx} className="text-xs text-muted-foreground">
-                                  • {dependent.name} ({dependent.relationship})
+                                  • {dependent.name} ({dependentRelationshipLabels[dependent.relationship as DependentRelationship] ?? dependent.relationship})
                                 </p>
                               ))}
                             </div>
@@ -124,15 +283,15 @@ export default function DashboardSolicitante() {
                         )}
 
                         {/* Mostrar anexos se existirem */}
-                        {request.attachments && request.attachments.length > 0 && (
+                        {request.documents && request.documents.length > 0 && (
                           <div className="mt-2 p-2 bg-blue-50 rounded-md">
                             <p className="text-xs font-semibold text-blue-700 mb-1">Anexos enviados:</p>
                             <div className="space-y-1">
-                              {request.attachments.map((attachment, idx) => (
-                                <div key={idx} className="flex items-center gap-2">
+                              {request.documents.map((document) => (
+                                <div key={document.id} className="flex items-center gap-2">
                                   <File className="h-3 w-3 text-blue-600" />
                                   <span className="text-xs text-blue-600">
-                                    Anexo {idx + 1}
+                                    {document.file_name}
                                   </span>
                                 </div>
                               ))}
@@ -141,22 +300,136 @@ export default function DashboardSolicitante() {
                         )}
                         
                         <div className="flex justify-between items-center pt-2 border-t">
-                          <span className="font-semibold text-primary">{formatCurrency(request.amount)}</span>
-                          <span className="text-xs text-muted-foreground">#{request.id.slice(0, 8)}</span>
+                          <span className="font-semibold text-primary">
+                            {formatCurrency(request.amount)}
+                            {request.status === 'approved' && getApprovedAmount(request) < Number(request.amount) && (
+                              <span className="text-sm font-normal text-success"> • aprovado {formatCurrency(getApprovedAmount(request))}</span>
+                            )}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">#{request.id.slice(0, 8)}</span>
+                            <Button size="sm" variant="outline" onClick={() => setDetailRequest(request)}>
+                              <Eye className="w-3 h-3 mr-1" />
+                              Detalhes
+                            </Button>
+                          </div>
                         </div>
 
+                        {canChangeRequest(request) && (
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setResubmittingRequest(request)}>
+                              <Pencil className="w-3 h-3 mr-1" />
+                              Editar
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setCancellingRequest(request)}>
+                              <Ban className="w-3 h-3 mr-1" />
+                              Cancelar solicitação
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Notificações de Status */}
                         {request.status === 'approved' && (
                           <div className="bg-success-light p-3 rounded-md border border-success/20">
                             <p className="text-sm font-medium text-success">✅ Solicitação Aprovada!</p>
-                            <p className="text-sm text-success">Você será contatado em breve com mais informações.</p>
+                            <p className="text-sm text-success">
+                              Valor aprovado: {formatCurrency(getApprovedAmount(request))}
+                              {getApprovedAmount(request) < Number(request.amount) && ` de ${formatCurrency(request.amount)} solicitados`}
+                            </p>
+                            {request.approval_justification && (
+                              <p className="text-sm text-success"><strong>Justificativa:</strong> {request.approval_justification}</p>
+                            )}
+                            <div className="flex items-center gap-2 text-sm text-success">
+                              <PaymentStatusBadge status={request.payment_status} />
+                              {request.payment_status === 'scheduled' && request.payment_date && (
+                                <span>Previsto para {formatDate(`${request.payment_date}T00:00:00`)}</span>
+                              )}
+                              {request.payment_status === 'paid' && request.payment_date && (
+                                <span>Pago em {formatDate(`${request.payment_date}T00:00:00`)}</span>
+                              )}
+                              {request.payment_status !== 'reversed' && request.payment_method && (
+                                <span>• {paymentMethodLabels[request.payment_method] ?? request.payment_method}</span>
+                              )}
+                            </div>
+                            {request.payment_status === 'reversed' && request.payment_reversal_reason && (
+                              <p className="text-sm text-destructive"><strong>Estorno:</strong> {request.payment_reversal_reason}</p>
+                            )}
+                            {!request.payment_status && (
+                              <p className="text-sm text-success">Você será avisado por email quando o pagamento for agendado.</p>
+                            )}
                           </div>
                         )}
                         
-                        {request.rejection_reason && (
-                          <div className="bg-destructive-light p-3 rounded-md border border-destructive/20">
+                        {request.status === 'info_requested' && (
+                          <div className="bg-warning-light p-3 rounded-md border border-warning/20 space-y-2">
+                            <p className="text-sm font-medium text-warning">📝 A gestora precisa de mais informações</p>
+                            <p className="text-sm">
+                              <strong>Pergunta:</strong> {request.info_rounds?.find(round => !round.responded_at)?.question}
+                            </p>
+                            <Button size="sm" onClick={() => setResubmittingRequest(request)}>
+                              <Send className="w-3 h-3 mr-1" />
+                              Responder e reenviar
+                            </Button>
+                          </div>
+                        )}
+
+                        {/* Rodadas anteriores de informações */}
+                        {request.info_rounds && request.info_rounds.some(round => round.responded_at) && (
+                          <div className="p-2 bg-muted rounded-md space-y-1">
+                            <p className="text-xs font-semibold">Informações já enviadas:</p>
+                            {request.info_rounds.filter(round => round.responded_at).map((round) => (
+                              <p key={round.id} className="text-xs text-muted-foreground">
+                                • {formatDate(round.responded_at!)}: {round.question} → {round.response || 'Sem comentário'}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+
+                        {request.status === 'cancelled' && (
+                          <div className="bg-muted p-3 rounded-md border">
+                            <p className="text-sm font-medium">Solicitação cancelada por você</p>
+                            {request.cancelled_at && (
+                              <p className="text-sm text-muted-foreground">Em {formatDate(request.cancelled_at)}</p>
+                            )}
+                            {request.cancellation_reason && (
+                              <p className="text-sm text-muted-foreground"><strong>Motivo:</strong> {request.cancellation_reason}</p>
+                            )}
+                          </div>
+                        )}
+
+                        {request.status === 'rejected' && (
+                          <div className="bg-destructive-light p-3 rounded-md border border-destructive/20 space-y-2">
                             <p className="text-sm font-medium text-destructive">❌ Solicitação Recusada</p>
-                            <p className="text-sm text-destructive"><strong>Motivo:</strong> {request.rejection_reason}</p>
+                            <p className="text-sm text-destructive"><strong>Motivo:</strong> {request.rejection_reason || 'Não informado'}</p>
+                            {canAppeal(request, request.appeal_window_days, !!request.appeal, new Date()) && (
+                              <div className="flex items-center justify-between gap-2">
+                                <p className="text-xs text-muted-foreground">
+                                  Você pode recorrer até {appealDeadline(request.approved_at!, request.appeal_window_days).toLocaleDateString('pt-BR')}
+                                </p>
+                                <Button size="sm" variant="outline" onClick={() => setAppealingRequest(request)}>
+                                  <Scale className="w-3 h-3 mr-1" />
+                                  Recorrer
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Recurso contra a recusa; deferido, a solicitação passa a aprovada */}
+                        {request.appeal && (
+                          <div className="bg-muted p-3 rounded-md border space-y-1">
+                            <p className="text-sm font-medium flex items-center gap-1">
+                              <Scale className="w-3 h-3" />
+                              {appealStatusLabels[request.appeal.status]}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Enviado em {formatDate(request.appeal.created_at)}
+                              {request.appeal.decided_at && ` • decidido em ${formatDate(request.appeal.decided_at)}`}
+                            </p>
+                            <p className="text-sm"><strong>Sua justificativa:</strong> {request.appeal.justification}</p>
+                            {request.appeal.decision_notes && (
+                              <p className="text-sm"><strong>Parecer:</strong> {request.appeal.decision_notes}</p>
+                            )}
                           </div>
                         )}
                       </div>
@@ -168,6 +441,83 @@ export default function DashboardSolicitante() {
           </div>
         </div>
       </div>
+
+      <ResubmitRequestDialog
+        request={resubmittingRequest}
+        onOpenChange={(open) => {
+          if (!open) setResubmittingRequest(null);
+        }}
+        resubmitRequest={resubmitRequest}
+        editRequest={editRequest}
+      />
+
+      <AppealDialog
+        request={appealingRequest}
+        onOpenChange={(open) => {
+          if (!open) setAppealingRequest(null);
+        }}
+        submitAppeal={submitAppeal}
+      />
+
+      <AlertDialog
+        open={!!cancellingRequest}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCancellingRequest(null);
+            setCancellationReason('');
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar solicitação?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A solicitação sai da fila da gestora e não pode ser reaberta. Para pedir o auxílio de novo, crie outra solicitação.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Motivo do cancelamento (opcional)"
+            value={cancellationReason}
+            onChange={(e) => setCancellationReason(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => cancellingRequest && handleCancelRequest(cancellingRequest)}>
+              Cancelar solicitação
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!discardingDraft}
+        onOpenChange={(open) => {
+          if (!open) setDiscardingDraft(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Descartar rascunho?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os dados preenchidos e os anexos salvos no rascunho serão removidos. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => discardingDraft && handleDiscardDraft(discardingDraft)}>
+              Descartar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RequestDetailDialog
+        request={detailRequest}
+        benefitType={detailRequest ? getBenefitType(detailRequest.type) : undefined}
+        onOpenChange={(open) => {
+          if (!open) setDetailRequest(null);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -4,14 +4,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ConsentModal } from '@/components/ConsentModal';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  const [role, setRole] = useState<'solicitante' | 'gestora'>('solicitante');
   const [isSignUp, setIsSignUp] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showConsent, setShowConsent] = useState(false);
@@ -25,7 +23,7 @@ export default function Login() {
         setShowConsent(true);
       } else {
         // Redirect based on role
-        if (profile.role === 'gestora') {
+        if (profile.role !== 'solicitante') {
           navigate('/dashboard-gestora');
         } else {
           navigate('/dashboard-solicitante');
@@ -40,7 +38,7 @@ export default function Login() {
 
     try {
       if (isSignUp) {
-        const { error } = await signUp(email, password, name, role);
+        const { error } = await signUp(email, password, name);
         if (error) throw error;
       } else {
         const { error } = await signIn(email, password);
@@ -67,24 +65,13 @@ export default function Login() {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             {isSignUp && (
-              <>
-                <Input
-                  type="text"
-                  placeholder="Nome completo"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  required
-                />
-                <Select value={role} onValueChange={(value: 'solicitante' | 'gestora') => setRole(value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione o tipo de usuário" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="solicitante">Solicitante</SelectItem>
-                    <SelectItem value="gestora">Gestora</SelectItem>
-                  </SelectContent>
-                </Select>
-              </>
+              <Input
+                type="text"
+                placeholder="Nome completo"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
             )}
             <Input
               type="email"
@@ -121,7 +108,7 @@ export default function Login() {
         onOpenChange={(open) => {
           if (!open && profile?.privacy_consent) {
             // Redirect after consent
-            if (profile.role === 'gestora') {
+            if (profile.role !== 'solicitante') {
               navigate('/dashboard-gestora');
             } else {
               navigate('/dashboard-solicitante');
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { appealDeadline, canAppeal, DEFAULT_APPEAL_WINDOW_DAYS } from './appeals.ts';
+
+const rejectedAt = '2025-03-10T18:45:00Z';
+const rejected = { status: 'rejected', approved_at: rejectedAt };
+
+describe('appealDeadline', () => {
+  it('counts whole days from the rejection time', () => {
+    expect(appealDeadline(rejectedAt, 15).toISOString()).toBe('2025-03-25T18:45:00.000Z');
+    expect(appealDeadline(rejectedAt, 0).toISOString()).toBe('2025-03-10T18:45:00.000Z');
+  });
+
+  it('falls back to the default window when the policy has none', () => {
+    expect(appealDeadline(rejectedAt, null)).toEqual(appealDeadline(rejectedAt, DEFAULT_APPEAL_WINDOW_DAYS));
+    expect(appealDeadline(rejectedAt, undefined)).toEqual(appealDeadline(rejectedAt, DEFAULT_APPEAL_WINDOW_DAYS));
+  });
+});
+
+describe('canAppeal', () => {
+  it('allows an appeal up to and including the deadline', () => {
+    expect(canAppeal(rejected, 15, false, new Date('2025-03-25T18:45:00Z'))).toBe(true);
+    expect(canAppeal(rejected, 15, false, new Date('2025-03-25T18:45:00.001Z'))).toBe(false);
+  });
+
+  it('allows a single appeal, only for rejected requests', () => {
+    const date = new Date('2025-03-12T00:00:00Z');
+
+    expect(canAppeal(rejected, 15, true, date)).toBe(false);
+    expect(canAppeal({ ...rejected, status: 'approved' }, 15, false, date)).toBe(false);
+    expect(canAppeal({ status: 'rejected', approved_at: null }, 15, false, date)).toBe(false);
+  });
+});
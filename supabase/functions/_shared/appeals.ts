@@ -0,0 +1,44 @@
+// Appeal rules shared by the browser (deadline shown to the requester) and the
+// request-appeals function, which enforces them. Must not import anything runtime-specific.
+
+export type AppealStatus = 'pending' | 'granted' | 'denied';
+
+export const appealStatusLabels: Record<AppealStatus, string> = {
+  pending: 'Recurso em análise',
+  granted: 'Recurso deferido',
+  denied: 'Recurso indeferido',
+};
+
+export interface RequestAppeal {
+  id: string;
+  request_id: string;
+  appellant_id: string;
+  // Who rejected the request; never the one deciding the appeal
+  original_decider_id: string | null;
+  justification: string;
+  status: AppealStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_notes: string | null;
+  created_at: string;
+}
+
+// Used when the request has no recorded policy version (requests created before policies existed)
+export const DEFAULT_APPEAL_WINDOW_DAYS = 15;
+
+export const MIN_APPEAL_JUSTIFICATION_LENGTH = 10;
+
+// Counted from the rejection time, in whole days, so browser and server agree regardless of timezone
+export const appealDeadline = (rejectedAt: string, windowDays: number | null | undefined) =>
+  new Date(new Date(rejectedAt).getTime() + (windowDays ?? DEFAULT_APPEAL_WINDOW_DAYS) * 24 * 60 * 60 * 1000);
+
+export const canAppeal = (
+  request: { status: string; approved_at?: string | null },
+  windowDays: number | null | undefined,
+  hasAppeal: boolean,
+  date: Date
+) =>
+  request.status === 'rejected'
+  && !!request.approved_at
+  && !hasAppeal
+  && date <= appealDeadline(request.approved_at, windowDays);
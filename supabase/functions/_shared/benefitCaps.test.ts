@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { BenefitCap, CapRequest, computeCapBalances } from './benefitCaps.ts';
+
+const cap: BenefitCap = {
+  id: 'cap-1',
+  request_type: null,
+  annual_limit: 10000,
+  per_dependent_limit: 1000,
+  active: true,
+};
+
+const approved = (id: string, amount: number, dependents: CapRequest['dependents']): CapRequest => ({
+  id,
+  type: 'Consulta médica',
+  amount,
+  status: 'approved',
+  created_at: '2025-03-10T12:00:00Z',
+  dependents,
+});
+
+const dependentUsage = (requests: CapRequest[], dependents: Array<{ id?: string; name: string }>) =>
+  computeCapBalances([cap], requests, { type: 'Consulta médica', year: 2025, dependents })[0]
+    .dependents.map(({ id, name, used }) => ({ id, name, used }));
+
+describe('computeCapBalances per-dependent usage', () => {
+  it('matches registered dependents by id, not by name', () => {
+    const requests = [
+      approved('r1', 300, [{ id: 'dep-1', name: 'Ana Souza' }]),
+      approved('r2', 200, [{ id: 'dep-2', name: 'Ana Souza' }]),
+    ];
+
+    expect(dependentUsage(requests, [{ id: 'dep-1', name: 'Ana Souza' }])).toEqual([
+      { id: 'dep-1', name: 'Ana Souza', used: 300 },
+    ]);
+  });
+
+  it('follows a renamed dependent by id', () => {
+    const requests = [approved('r1', 300, [{ id: 'dep-1', name: 'Ana Souza' }])];
+
+    expect(dependentUsage(requests, [{ id: 'dep-1', name: 'Ana Souza Lima' }])[0].used).toBe(300);
+  });
+
+  it('falls back to the name for legacy entries without id', () => {
+    const requests = [approved('r1', 300, [{ name: ' ana souza ' }])];
+
+    expect(dependentUsage(requests, [{ id: 'dep-1', name: 'Ana Souza' }])[0].used).toBe(300);
+  });
+});
@@ -0,0 +1,123 @@
+// Annual cap accounting shared by the browser (remaining balance) and the
+// request-management function (approval check). Must stay runtime-agnostic.
+
+export interface BenefitCap {
+  id: string;
+  request_type: string | null;
+  annual_limit: number;
+  per_dependent_limit: number | null;
+  active: boolean;
+}
+
+// Registry id of the dependent; entries saved before the registry only have the name
+export interface CapDependent {
+  id?: string;
+  name: string;
+}
+
+export interface CapRequest {
+  id: string;
+  type: string;
+  amount: number;
+  // Counts instead of amount when the request was partially approved
+  approved_amount?: number | null;
+  status: string;
+  created_at: string;
+  dependents?: CapDependent[] | null;
+}
+
+export interface DependentBalance {
+  id?: string;
+  name: string;
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface CapBalance {
+  cap: BenefitCap;
+  year: number;
+  limit: number;
+  used: number;
+  remaining: number;
+  dependents: DependentBalance[];
+}
+
+export interface CapViolation {
+  cap: BenefitCap;
+  // Nome do dependente quando o teto excedido é o individual
+  dependent?: string;
+  remaining: number;
+  amount: number;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Same registry dependent; the name is compared only when one side is a legacy entry without id
+const sameDependent = (a: CapDependent, b: CapDependent) =>
+  a.id && b.id ? a.id === b.id : normalizeName(a.name) === normalizeName(b.name);
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const approvedValue = (request: CapRequest) => Number(request.approved_amount ?? request.amount);
+
+export const capYear = (date: Date | string) => new Date(date).getFullYear();
+
+/**
+ * Balance of every active cap that applies to `type` for one employee in one
+ * calendar year. `requests` must contain only that employee's requests; only
+ * approved ones count towards usage.
+ */
+export const computeCapBalances = (
+  caps: BenefitCap[],
+  requests: CapRequest[],
+  context: { type: string; year: number; dependents?: CapDependent[] }
+): CapBalance[] => {
+  const approved = requests.filter(request =>
+    request.status === 'approved' && capYear(request.created_at) === context.year
+  );
+
+  return caps
+    .filter(cap => cap.active && (!cap.request_type || cap.request_type === context.type))
+    .map((cap) => {
+      const counted = approved.filter(request => !cap.request_type || request.type === cap.request_type);
+      const used = counted.reduce((sum, request) => sum + approvedValue(request), 0);
+      const limit = Number(cap.annual_limit);
+
+      const dependents = cap.per_dependent_limit === null
+        ? []
+        : (context.dependents ?? []).map((dependent) => {
+            const dependentUsed = counted
+              .filter(request => (request.dependents ?? []).some(dep => sameDependent(dep, dependent)))
+              .reduce((sum, request) => sum + approvedValue(request), 0);
+            const dependentLimit = Number(cap.per_dependent_limit);
+            return {
+              id: dependent.id,
+              name: dependent.name,
+              limit: dependentLimit,
+              used: roundCurrency(dependentUsed),
+              remaining: roundCurrency(Math.max(dependentLimit - dependentUsed, 0)),
+            };
+          });
+
+      return {
+        cap,
+        year: context.year,
+        limit,
+        used: roundCurrency(used),
+        remaining: roundCurrency(Math.max(limit - used, 0)),
+        dependents,
+      };
+    });
+};
+
+// Caps (employee-wide or per dependent) that `amount` would exceed
+export const findCapViolations = (balances: CapBalance[], amount: number): CapViolation[] =>
+  balances.flatMap((balance) => [
+    ...(amount > balance.remaining
+      ? [{ cap: balance.cap, remaining: balance.remaining, amount }]
+      : []),
+    ...balance.dependents
+      .filter(dependent => amount > dependent.remaining)
+      .map(dependent => ({ cap: balance.cap, dependent: dependent.name, remaining: dependent.remaining, amount })),
+  ]);
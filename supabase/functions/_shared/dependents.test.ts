@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ageOn, checkEligibility, isValidCpf } from './dependents.ts';
+
+describe('isValidCpf', () => {
+  it('checks both verification digits', () => {
+    expect(isValidCpf('529.982.247-25')).toBe(true);
+    expect(isValidCpf('52998224725')).toBe(true);
+    expect(isValidCpf('529.982.247-24')).toBe(false);
+    expect(isValidCpf('111.111.111-11')).toBe(false);
+    expect(isValidCpf('5299822472')).toBe(false);
+  });
+});
+
+describe('ageOn', () => {
+  it('counts the birthday itself as completed', () => {
+    expect(ageOn('2004-03-10', new Date(2025, 2, 9))).toBe(20);
+    expect(ageOn('2004-03-10', new Date(2025, 2, 10))).toBe(21);
+  });
+});
+
+describe('checkEligibility', () => {
+  const child = (birthdate: string, isStudent = false) => ({
+    birthdate,
+    relationship: 'filho' as const,
+    is_student: isStudent,
+    active: true,
+  });
+
+  // Checked on 2025-03-10
+  const date = new Date(2025, 2, 10);
+
+  it('accepts children up to 21, including the day they turn 21', () => {
+    expect(checkEligibility(child('2004-03-10'), date)).toBeNull();
+    // Turns 22 on the check date
+    expect(checkEligibility(child('2003-03-10'), date)).toBe('over_age_limit');
+    // Turns 22 the next day
+    expect(checkEligibility(child('2003-03-11'), date)).toBeNull();
+  });
+
+  it('extends the limit to 24 for students', () => {
+    expect(checkEligibility(child('2003-03-10', true), date)).toBeNull();
+    expect(checkEligibility(child('2000-03-11', true), date)).toBeNull();
+    expect(checkEligibility(child('2000-03-10', true), date)).toBe('over_student_age_limit');
+  });
+
+  it('has no age limit for spouses and parents', () => {
+    expect(checkEligibility({ ...child('1950-01-01'), relationship: 'conjuge' }, date)).toBeNull();
+    expect(checkEligibility({ ...child('1940-01-01'), relationship: 'mae' }, date)).toBeNull();
+  });
+
+  it('rejects removed dependents', () => {
+    expect(checkEligibility({ ...child('2015-01-01'), active: false }, date)).toBe('inactive');
+  });
+});
@@ -0,0 +1,110 @@
+// Dependent registry rules shared by the browser (registration and request form) and
+// the submit-request function, which re-checks eligibility before storing the request.
+
+export type DependentRelationship = 'filho' | 'conjuge' | 'pai' | 'mae' | 'irmao' | 'outro';
+
+export const dependentRelationshipLabels: Record<DependentRelationship, string> = {
+  filho: 'Filho(a)',
+  conjuge: 'Cônjuge',
+  pai: 'Pai',
+  mae: 'Mãe',
+  irmao: 'Irmão(ã)',
+  outro: 'Outro',
+};
+
+export interface Dependent {
+  id: string;
+  user_id: string;
+  name: string;
+  // Digits only
+  cpf: string;
+  // YYYY-MM-DD
+  birthdate: string;
+  relationship: DependentRelationship;
+  is_student: boolean;
+  active: boolean;
+}
+
+// Copy kept on the request, so the review shows the dependent as registered at submission time
+export interface RequestDependent {
+  id?: string;
+  name: string;
+  relationship: string;
+  birthdate?: string;
+  is_student?: boolean;
+}
+
+export interface EligibilityRule {
+  maxAge?: number;
+  // Higher limit while the dependent is enrolled in school or college
+  maxAgeStudent?: number;
+}
+
+// Same age limits as the income tax dependent rules: children and siblings up to 21, or 24 if students
+export const eligibilityRules: Record<DependentRelationship, EligibilityRule> = {
+  filho: { maxAge: 21, maxAgeStudent: 24 },
+  conjuge: {},
+  pai: {},
+  mae: {},
+  irmao: { maxAge: 21, maxAgeStudent: 24 },
+  outro: {},
+};
+
+export type DependentIneligibility = 'inactive' | 'over_age_limit' | 'over_student_age_limit';
+
+export const dependentIneligibilityMessages: Record<DependentIneligibility, string> = {
+  inactive: 'Dependente removido do cadastro.',
+  over_age_limit: 'Acima da idade limite para este parentesco.',
+  over_student_age_limit: 'Acima da idade limite, mesmo como estudante.',
+};
+
+export const isValidCpf = (value: string) => {
+  const cpf = value.replace(/\D/g, '');
+  if (cpf.length !== 11 || /^(\d)\1+$/.test(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    const sum = Array.from(cpf.slice(0, length)).reduce(
+      (total, digit, index) => total + Number(digit) * (length + 1 - index),
+      0
+    );
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+};
+
+export const formatCpf = (value: string) =>
+  value.replace(/\D/g, '').replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+
+// Completed years on `date`, compared as calendar dates to avoid timezone shifts
+export const ageOn = (birthdate: string, date: Date) => {
+  const [year, month, day] = birthdate.split('-').map(Number);
+  const age = date.getFullYear() - year;
+  const hadBirthday = date.getMonth() + 1 > month || (date.getMonth() + 1 === month && date.getDate() >= day);
+  return hadBirthday ? age : age - 1;
+};
+
+export const checkEligibility = (
+  dependent: Pick<Dependent, 'birthdate' | 'relationship' | 'is_student' | 'active'>,
+  date: Date
+): DependentIneligibility | null => {
+  if (!dependent.active) return 'inactive';
+
+  const rule = eligibilityRules[dependent.relationship] ?? {};
+  if (rule.maxAge === undefined) return null;
+
+  const age = ageOn(dependent.birthdate, date);
+  if (age <= rule.maxAge) return null;
+  if (!dependent.is_student) return 'over_age_limit';
+  if (rule.maxAgeStudent !== undefined && age <= rule.maxAgeStudent) return null;
+  return 'over_student_age_limit';
+};
+
+export const toRequestDependent = (dependent: Dependent): RequestDependent => ({
+  id: dependent.id,
+  name: dependent.name,
+  relationship: dependent.relationship,
+  birthdate: dependent.birthdate,
+  is_student: dependent.is_student,
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { detectFileType, MAX_FILE_SIZE_BYTES, MAX_REQUEST_TOTAL_BYTES, validateFile } from './fileValidation.ts';
+
+const bytes = (...values: number[]) => {
+  const header = new Uint8Array(12);
+  header.set(values);
+  return header;
+};
+
+const ascii = (text: string) => bytes(...Array.from(text, char => char.charCodeAt(0)));
+
+const pdf = ascii('%PDF-1.7');
+const jpeg = bytes(0xff, 0xd8, 0xff, 0xe0);
+const png = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+const webp = ascii('RIFF\0\0\0\0WEBP');
+
+describe('detectFileType', () => {
+  it('recognises the allowed signatures', () => {
+    expect(detectFileType(pdf)).toBe('pdf');
+    expect(detectFileType(jpeg)).toBe('jpeg');
+    expect(detectFileType(png)).toBe('png');
+    expect(detectFileType(webp)).toBe('webp');
+    expect(detectFileType(ascii('<?xml versi'))).toBe('xml');
+    expect(detectFileType(bytes(0xef, 0xbb, 0xbf, ...Array.from('<nfeProc', char => char.charCodeAt(0))))).toBe('xml');
+  });
+
+  it('rejects anything else, whatever the name or declared type', () => {
+    expect(detectFileType(ascii('MZ'))).toBeNull(); // Windows executable
+    expect(detectFileType(ascii('PK\x03\x04'))).toBeNull(); // zip / docx
+    expect(detectFileType(ascii('RIFF\0\0\0\0WAVE'))).toBeNull();
+    expect(detectFileType(ascii('< script'))).toBeNull();
+  });
+});
+
+describe('validateFile', () => {
+  it('accepts a matching file within the limits', () => {
+    expect(validateFile({ header: pdf, size: 1024, mimeType: 'application/pdf' })).toBeNull();
+    // Browsers leave the type empty for unknown extensions
+    expect(validateFile({ header: png, size: 1024, mimeType: '' })).toBeNull();
+  });
+
+  it('rejects empty, unknown and mismatched files', () => {
+    expect(validateFile({ header: pdf, size: 0, mimeType: 'application/pdf' })).toBe('empty_file');
+    expect(validateFile({ header: ascii('MZ'), size: 1024, mimeType: 'application/pdf' })).toBe('unsupported_type');
+    expect(validateFile({ header: jpeg, size: 1024, mimeType: 'application/pdf' })).toBe('type_mismatch');
+  });
+
+  it('enforces the per-file and per-request size limits', () => {
+    expect(validateFile({ header: pdf, size: MAX_FILE_SIZE_BYTES, mimeType: 'application/pdf' })).toBeNull();
+    expect(validateFile({ header: pdf, size: MAX_FILE_SIZE_BYTES + 1, mimeType: 'application/pdf' })).toBe('file_too_large');
+
+    const otherFilesBytes = MAX_REQUEST_TOTAL_BYTES - 1024;
+    expect(validateFile({ header: pdf, size: 1024, mimeType: 'application/pdf' }, otherFilesBytes)).toBeNull();
+    expect(validateFile({ header: pdf, size: 1025, mimeType: 'application/pdf' }, otherFilesBytes)).toBe('request_too_large');
+  });
+});
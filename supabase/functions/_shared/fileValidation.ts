@@ -0,0 +1,70 @@
+// Upload validation shared by the browser (before uploading) and the scan-document
+// function (after uploading, on the stored bytes). Must stay runtime-agnostic.
+
+export type AllowedFileType = 'pdf' | 'jpeg' | 'png' | 'webp' | 'xml';
+
+// XML de nota fiscal chega como text/xml ou application/xml, conforme o navegador
+export const allowedFileTypes: Record<AllowedFileType, { mimeTypes: string[]; label: string }> = {
+  pdf: { mimeTypes: ['application/pdf'], label: 'PDF' },
+  jpeg: { mimeTypes: ['image/jpeg'], label: 'JPEG' },
+  png: { mimeTypes: ['image/png'], label: 'PNG' },
+  webp: { mimeTypes: ['image/webp'], label: 'WebP' },
+  xml: { mimeTypes: ['text/xml', 'application/xml'], label: 'XML' },
+};
+
+export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+export const MAX_REQUEST_TOTAL_BYTES = 30 * 1024 * 1024;
+
+// Enough leading bytes to recognise every allowed signature
+export const SIGNATURE_LENGTH = 12;
+
+const startsWith = (header: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => header[offset + index] === byte);
+
+// Identifies the real file type from its magic bytes, ignoring name and declared MIME type
+export const detectFileType = (header: Uint8Array): AllowedFileType | null => {
+  if (startsWith(header, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf'; // %PDF-
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(header, [0x52, 0x49, 0x46, 0x46]) && startsWith(header, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp'; // RIFF....WEBP
+
+  // XML has no magic number: optional UTF-8 BOM, then "<?xml" or a root element
+  const xmlStart = startsWith(header, [0xef, 0xbb, 0xbf]) ? 3 : 0;
+  if (startsWith(header, [0x3c, 0x3f, 0x78, 0x6d, 0x6c], xmlStart)) return 'xml'; // <?xml
+  if (header[xmlStart] === 0x3c && /[A-Za-z]/.test(String.fromCharCode(header[xmlStart + 1] ?? 0))) return 'xml';
+
+  return null;
+};
+
+export type FileValidationError = 'empty_file' | 'unsupported_type' | 'type_mismatch' | 'file_too_large' | 'request_too_large';
+
+export const fileValidationMessages: Record<FileValidationError, string> = {
+  empty_file: 'O arquivo está vazio.',
+  unsupported_type: 'Formato não aceito. Envie PDF, JPEG, PNG, WebP ou o XML da nota fiscal.',
+  type_mismatch: 'O conteúdo do arquivo não corresponde à extensão informada.',
+  file_too_large: `O arquivo excede o limite de ${MAX_FILE_SIZE_BYTES / 1024 / 1024} MB.`,
+  request_too_large: `Os anexos da solicitação excedem o limite total de ${MAX_REQUEST_TOTAL_BYTES / 1024 / 1024} MB.`,
+};
+
+interface FileToValidate {
+  header: Uint8Array;
+  size: number;
+  // Declared MIME type; browsers leave it empty for unknown extensions
+  mimeType?: string | null;
+}
+
+// `otherFilesBytes` is the size of every other document already attached to the same request
+export const validateFile = (file: FileToValidate, otherFilesBytes = 0): FileValidationError | null => {
+  if (file.size === 0) return 'empty_file';
+
+  const detected = detectFileType(file.header);
+  if (!detected) return 'unsupported_type';
+
+  if (file.mimeType && !allowedFileTypes[detected].mimeTypes.includes(file.mimeType)) return 'type_mismatch';
+
+  if (file.size > MAX_FILE_SIZE_BYTES) return 'file_too_large';
+
+  if (otherFilesBytes + file.size > MAX_REQUEST_TOTAL_BYTES) return 'request_too_large';
+
+  return null;
+};
@@ -0,0 +1,7 @@
+// Errors with an HTTP status and a machine-readable code the frontend maps to messages
+export class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { isValidCnpj, parseInvoiceXml } from './invoiceXml.ts';
+
+const accessKey = '35250311222333000181550010000012341000012345';
+
+const nfe = `<?xml version="1.0" encoding="UTF-8"?>
+<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00">
+  <NFe>
+    <infNFe Id="NFe${accessKey}" versao="4.00">
+      <ide><dhEmi>2025-03-10T14:30:00-03:00</dhEmi></ide>
+      <emit><CNPJ>11222333000181</CNPJ><xNome>Farmácia &amp; Drogaria Central</xNome></emit>
+      <det nItem="1"><prod><xProd>Dipirona 500mg</xProd></prod></det>
+      <det nItem="2"><prod><xProd><![CDATA[Soro fisiológico]]></xProd></prod></det>
+      <total><ICMSTot><vNF>87.40</vNF></ICMSTot></total>
+    </infNFe>
+  </NFe>
+</nfeProc>`;
+
+const nfseAbrasf = `<?xml version="1.0" encoding="UTF-8"?>
+<CompNfse xmlns="http://www.abrasf.org.br/nfse.xsd">
+  <Nfse>
+    <InfNfse>
+      <Numero>4521</Numero>
+      <DataEmissao>2025-04-02T09:00:00</DataEmissao>
+      <Servico>
+        <Valores><ValorServicos>350,00</ValorServicos></Valores>
+        <Discriminacao>Sessão de fisioterapia</Discriminacao>
+      </Servico>
+      <PrestadorServico>
+        <IdentificacaoPrestador><Cnpj>11.222.333/0001-81</Cnpj></IdentificacaoPrestador>
+        <RazaoSocial>Clínica Movimento</RazaoSocial>
+      </PrestadorServico>
+    </InfNfse>
+  </Nfse>
+</CompNfse>`;
+
+describe('parseInvoiceXml', () => {
+  it('reads an NF-e', () => {
+    expect(parseInvoiceXml(nfe)).toEqual({
+      data: {
+        kind: 'nfe',
+        issuer_cnpj: '11222333000181',
+        issuer_name: 'Farmácia & Drogaria Central',
+        issue_date: '2025-03-10',
+        total_amount: 87.4,
+        description: 'Dipirona 500mg; Soro fisiológico',
+        reference: accessKey,
+      },
+    });
+  });
+
+  it('reads an ABRASF NFS-e with a comma decimal', () => {
+    expect(parseInvoiceXml(nfseAbrasf)).toEqual({
+      data: {
+        kind: 'nfse',
+        issuer_cnpj: '11222333000181',
+        issuer_name: 'Clínica Movimento',
+        issue_date: '2025-04-02',
+        total_amount: 350,
+        description: 'Sessão de fisioterapia',
+        reference: '4521',
+      },
+    });
+  });
+
+  it('rejects XML that is not an invoice', () => {
+    expect(parseInvoiceXml('<?xml version="1.0"?><html><body>recibo</body></html>')).toEqual({ error: 'not_invoice' });
+  });
+
+  it('rejects malformed invoices', () => {
+    expect(parseInvoiceXml(nfe.replace('<CNPJ>11222333000181</CNPJ>', '<CNPJ>11222333000182</CNPJ>'))).toEqual({ error: 'invalid_invoice' });
+    expect(parseInvoiceXml(nfe.replace('<vNF>87.40</vNF>', '<vNF>abc</vNF>'))).toEqual({ error: 'invalid_invoice' });
+    expect(parseInvoiceXml(nfe.replace(/<ide>.*<\/ide>/, ''))).toEqual({ error: 'invalid_invoice' });
+    // Truncated upload: the closing tags never arrive
+    expect(parseInvoiceXml(nfe.slice(0, nfe.indexOf('<total>')))).toEqual({ error: 'not_invoice' });
+  });
+});
+
+describe('isValidCnpj', () => {
+  it('checks both verification digits', () => {
+    expect(isValidCnpj('11.222.333/0001-81')).toBe(true);
+    expect(isValidCnpj('11222333000180')).toBe(false);
+    expect(isValidCnpj('11111111111111')).toBe(false);
+    expect(isValidCnpj('1122233300018')).toBe(false);
+  });
+});
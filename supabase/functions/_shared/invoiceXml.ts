@@ -0,0 +1,162 @@
+// NF-e / NFS-e XML extraction shared by the browser (form prefill) and the
+// scan-document function (authoritative data stored on the document). Must stay
+// runtime-agnostic, so it reads tags with regular expressions instead of a DOM parser.
+
+export type InvoiceKind = 'nfe' | 'nfse';
+
+export interface InvoiceData {
+  kind: InvoiceKind;
+  issuer_cnpj: string;
+  issuer_name: string | null;
+  // YYYY-MM-DD
+  issue_date: string;
+  total_amount: number;
+  description: string;
+  // NF-e access key (44 digits) or NFS-e number
+  reference: string | null;
+}
+
+export const invoiceKindLabels: Record<InvoiceKind, string> = {
+  nfe: 'NF-e',
+  nfse: 'NFS-e',
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Contents of every <tag>...</tag>, ignoring namespace prefixes and attributes
+const findAll = (xml: string, tag: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+};
+
+// Follows a path of nested tags and returns the first text found, e.g. ['emit', 'CNPJ']
+const findText = (xml: string, ...path: string[]): string | null => {
+  let scope = [xml];
+  for (const tag of path) {
+    scope = scope.flatMap(block => findAll(block, tag));
+    if (scope.length === 0) return null;
+  }
+  const text = decodeEntities(scope[0]).trim();
+  return text || null;
+};
+
+const firstText = (xml: string, paths: string[][]) => {
+  for (const path of paths) {
+    const text = findText(xml, ...path);
+    if (text) return text;
+  }
+  return null;
+};
+
+const onlyDigits = (value: string | null) => value?.replace(/\D/g, '') ?? '';
+
+export const isValidCnpj = (value: string) => {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || /^(\d)\1+$/.test(cnpj)) return false;
+
+  const checkDigit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, index) => total + Number(cnpj[index]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13]);
+};
+
+export const formatCnpj = (value: string) =>
+  onlyDigits(value).replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+
+const parseDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+};
+
+const parseAmount = (value: string | null) => {
+  if (!value) return null;
+  const amount = Number(value.replace(',', '.'));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+// Goods invoice (modelo 55/65): one <det><prod> per item
+const parseNfe = (xml: string): InvoiceData | null => {
+  const infNFe = findAll(xml, 'infNFe')[0];
+  if (!infNFe) return null;
+
+  const products = findAll(infNFe, 'det')
+    .map(item => findText(item, 'prod', 'xProd'))
+    .filter((name): name is string => !!name);
+
+  const accessKey = xml.match(/<(?:[\w-]+:)?infNFe[^>]*\sId="NFe(\d{44})"/)?.[1] ?? findText(xml, 'protNFe', 'infProt', 'chNFe');
+
+  return {
+    kind: 'nfe',
+    issuer_cnpj: onlyDigits(findText(infNFe, 'emit', 'CNPJ')),
+    issuer_name: findText(infNFe, 'emit', 'xNome'),
+    issue_date: parseDate(firstText(infNFe, [['ide', 'dhEmi'], ['ide', 'dEmi']])) ?? '',
+    total_amount: parseAmount(findText(infNFe, 'total', 'ICMSTot', 'vNF')) ?? 0,
+    description: products.join('; '),
+    reference: accessKey,
+  };
+};
+
+// Service invoice: ABRASF municipal layouts and the national NFS-e standard
+const parseNfse = (xml: string): InvoiceData | null => {
+  const isNational = findAll(xml, 'infNFSe').length > 0 || findAll(xml, 'infDPS').length > 0;
+  const isAbrasf = findAll(xml, 'InfNfse').length > 0 || findAll(xml, 'Nfse').length > 0;
+  if (!isNational && !isAbrasf) return null;
+
+  if (isNational) {
+    return {
+      kind: 'nfse',
+      issuer_cnpj: onlyDigits(firstText(xml, [['emit', 'CNPJ'], ['prest', 'CNPJ']])),
+      issuer_name: firstText(xml, [['emit', 'xNome'], ['prest', 'xNome']]),
+      issue_date: parseDate(firstText(xml, [['infDPS', 'dhEmi'], ['dhProc'], ['dhEmi']])) ?? '',
+      total_amount: parseAmount(firstText(xml, [['valores', 'vLiq'], ['vServPrest', 'vServ'], ['vServ']])) ?? 0,
+      description: firstText(xml, [['cServ', 'xDescServ'], ['xDescServ']]) ?? '',
+      reference: firstText(xml, [['infNFSe', 'nNFSe'], ['nNFSe']]),
+    };
+  }
+
+  return {
+    kind: 'nfse',
+    issuer_cnpj: onlyDigits(firstText(xml, [
+      ['PrestadorServico', 'IdentificacaoPrestador', 'Cnpj'],
+      ['Prestador', 'CpfCnpj', 'Cnpj'],
+      ['Prestador', 'Cnpj'],
+      ['IdentificacaoPrestador', 'Cnpj'],
+    ])),
+    issuer_name: firstText(xml, [['PrestadorServico', 'RazaoSocial'], ['RazaoSocial']]),
+    issue_date: parseDate(firstText(xml, [['InfNfse', 'DataEmissao'], ['DataEmissao']])) ?? '',
+    total_amount: parseAmount(firstText(xml, [['Valores', 'ValorLiquidoNfse'], ['Valores', 'ValorServicos'], ['ValorServicos']])) ?? 0,
+    description: firstText(xml, [['Servico', 'Discriminacao'], ['Discriminacao']]) ?? '',
+    reference: firstText(xml, [['InfNfse', 'Numero'], ['Numero']]),
+  };
+};
+
+export type InvoiceParseError = 'not_invoice' | 'invalid_invoice';
+
+export const invoiceParseMessages: Record<InvoiceParseError, string> = {
+  not_invoice: 'O XML não é uma NF-e nem uma NFS-e reconhecida.',
+  invalid_invoice: 'O XML da nota não traz CNPJ do emitente, data de emissão e valor total válidos.',
+};
+
+export const parseInvoiceXml = (xml: string): { data: InvoiceData } | { error: InvoiceParseError } => {
+  const data = parseNfe(xml) ?? parseNfse(xml);
+  if (!data) return { error: 'not_invoice' };
+
+  if (!isValidCnpj(data.issuer_cnpj) || !data.issue_date || data.total_amount <= 0) {
+    return { error: 'invalid_invoice' };
+  }
+
+  return { data };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { canTransitionPayment, PaymentStatus } from './payments.ts';
+
+describe('canTransitionPayment', () => {
+  it.each<[PaymentStatus | null, PaymentStatus, boolean]>([
+    [null, 'scheduled', true],
+    [null, 'paid', true],
+    [null, 'reversed', false],
+    ['scheduled', 'paid', true],
+    ['scheduled', 'reversed', true],
+    ['scheduled', 'scheduled', false],
+    ['paid', 'reversed', true],
+    ['paid', 'scheduled', false],
+    ['paid', 'paid', false],
+    ['reversed', 'scheduled', true],
+    ['reversed', 'paid', false],
+    ['reversed', 'reversed', false],
+  ])('%s -> %s is %s', (from, to, allowed) => {
+    expect(canTransitionPayment(from, to)).toBe(allowed);
+  });
+
+  it('treats a missing payment status as no payment recorded', () => {
+    expect(canTransitionPayment(undefined, 'paid')).toBe(true);
+    expect(canTransitionPayment(undefined, 'reversed')).toBe(false);
+  });
+});
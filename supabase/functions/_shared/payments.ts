@@ -0,0 +1,27 @@
+// Payment sub-lifecycle of approved requests, shared by the browser (bulk
+// payment panel) and the payment-management function. Must stay runtime-agnostic.
+
+export type PaymentStatus = 'scheduled' | 'paid' | 'reversed';
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  scheduled: 'Pagamento agendado',
+  paid: 'Pago',
+  reversed: 'Estornado',
+};
+
+export const paymentMethodLabels: Record<string, string> = {
+  folha: 'Folha de pagamento',
+  pix: 'PIX',
+  transferencia: 'Transferência bancária',
+};
+
+// Legal transitions; `null` is an approved request with no payment recorded yet
+export const allowedPaymentTransitions: Record<PaymentStatus | 'none', PaymentStatus[]> = {
+  none: ['scheduled', 'paid'],
+  scheduled: ['paid', 'reversed'],
+  paid: ['reversed'],
+  reversed: ['scheduled'],
+};
+
+export const canTransitionPayment = (from: PaymentStatus | null | undefined, to: PaymentStatus) =>
+  allowedPaymentTransitions[from ?? 'none'].includes(to);
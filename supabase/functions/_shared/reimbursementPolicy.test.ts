@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { evaluatePolicy, ReimbursementPolicy, selectPolicy } from './reimbursementPolicy.ts';
+
+const policy = (overrides: Partial<ReimbursementPolicy> = {}): ReimbursementPolicy => ({
+  id: 'general',
+  version: 1,
+  name: 'Política geral',
+  request_type: null,
+  polo: null,
+  effective_from: '2025-01-01',
+  effective_to: null,
+  percentage: 0.9,
+  floor: 2018.36,
+  ceiling: null,
+  dependent_multiplier: 0,
+  appeal_window_days: 15,
+  active: true,
+  ...overrides,
+});
+
+const context = { type: 'consulta', polo: 'sp', date: new Date('2025-06-15T12:00:00Z') };
+
+describe('selectPolicy', () => {
+  it('prefers the most specific match, then the latest effective date and version', () => {
+    const policies = [
+      policy(),
+      policy({ id: 'polo', polo: 'sp' }),
+      policy({ id: 'type', request_type: 'consulta' }),
+      policy({ id: 'type-old', request_type: 'consulta', effective_from: '2024-01-01' }),
+      policy({ id: 'type-v2', request_type: 'consulta', version: 2 }),
+    ];
+
+    expect(selectPolicy(policies, context)?.id).toBe('type-v2');
+  });
+
+  it('ignores inactive, other type or polo, and policies not in effect on the date', () => {
+    const policies = [
+      policy({ id: 'inactive', request_type: 'consulta', active: false }),
+      policy({ id: 'other-polo', polo: 'rj' }),
+      policy({ id: 'other-type', request_type: 'exame' }),
+      policy({ id: 'future', request_type: 'consulta', effective_from: '2025-07-01' }),
+      // effective_to is exclusive
+      policy({ id: 'ended', request_type: 'consulta', effective_to: '2025-06-15' }),
+    ];
+
+    expect(selectPolicy(policies, context)).toBeNull();
+    expect(selectPolicy([...policies, policy()], context)?.id).toBe('general');
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('applies the percentage above the floor', () => {
+    const evaluation = evaluatePolicy(policy(), { salary: 5000, dependents: 0 });
+
+    expect(evaluation).toMatchObject({ amount: 4500, salaryBased: 4500, floorApplied: false, ceilingApplied: false });
+  });
+
+  it('raises low salaries to the floor, including a missing salary', () => {
+    expect(evaluatePolicy(policy(), { salary: 1000, dependents: 0 })).toMatchObject({ amount: 2018.36, floorApplied: true });
+    expect(evaluatePolicy(policy(), { salary: -500, dependents: 0 })).toMatchObject({ amount: 2018.36, salaryBased: 0 });
+  });
+
+  it('scales by dependents and caps at the ceiling', () => {
+    const withDependents = policy({ dependent_multiplier: 0.1, ceiling: 6000 });
+
+    expect(evaluatePolicy(withDependents, { salary: 5000, dependents: 2 })).toMatchObject({ amount: 5400, ceilingApplied: false });
+    expect(evaluatePolicy(withDependents, { salary: 5000, dependents: 5 })).toMatchObject({ amount: 6000, ceilingApplied: true });
+    // Exactly at the ceiling is not capped
+    expect(evaluatePolicy(policy({ ceiling: 4500 }), { salary: 5000, dependents: 0 }).ceilingApplied).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+// Pure policy evaluation shared by the browser (suggested amount) and the
+// edge functions (enforcement). Must not import anything runtime-specific.
+
+export interface ReimbursementPolicy {
+  id: string;
+  version: number;
+  name: string;
+  request_type: string | null;
+  polo: string | null;
+  effective_from: string;
+  effective_to: string | null;
+  percentage: number;
+  floor: number;
+  ceiling: number | null;
+  dependent_multiplier: number;
+  // Days the requester has to appeal a rejection of a request created under this version
+  appeal_window_days: number;
+  active: boolean;
+}
+
+export interface PolicyContext {
+  type: string;
+  polo: string;
+  date: Date;
+}
+
+export interface PolicyInput {
+  salary: number;
+  dependents: number;
+}
+
+export interface PolicyEvaluation {
+  policy: ReimbursementPolicy;
+  amount: number;
+  salaryBased: number;
+  floorApplied: boolean;
+  ceilingApplied: boolean;
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const specificity = (policy: ReimbursementPolicy) =>
+  (policy.request_type ? 2 : 0) + (policy.polo ? 1 : 0);
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Picks the policy that applies to a request: active, in effect on the given
+ * date and matching type/polo (null matches anything). The most specific match
+ * wins; ties go to the most recent effective_from, then the highest version.
+ */
+export const selectPolicy = (
+  policies: ReimbursementPolicy[],
+  context: PolicyContext
+): ReimbursementPolicy | null => {
+  const day = toDateKey(context.date);
+
+  const candidates = policies.filter(policy =>
+    policy.active &&
+    policy.effective_from <= day &&
+    (!policy.effective_to || policy.effective_to > day) &&
+    (!policy.request_type || policy.request_type === context.type) &&
+    (!policy.polo || policy.polo === context.polo)
+  );
+
+  candidates.sort((a, b) =>
+    specificity(b) - specificity(a) ||
+    b.effective_from.localeCompare(a.effective_from) ||
+    b.version - a.version
+  );
+
+  return candidates[0] ?? null;
+};
+
+/**
+ * Maximum reimbursable amount: percentage of the salary, raised to the floor,
+ * scaled by the per-dependent multiplier and finally capped by the ceiling.
+ */
+export const evaluatePolicy = (
+  policy: ReimbursementPolicy,
+  input: PolicyInput
+): PolicyEvaluation => {
+  const salaryBased = Math.max(input.salary, 0) * Number(policy.percentage);
+  const floor = Number(policy.floor);
+  const floorApplied = salaryBased <= floor;
+
+  let amount = Math.max(salaryBased, floor);
+  amount *= 1 + Number(policy.dependent_multiplier) * Math.max(input.dependents, 0);
+
+  const ceiling = policy.ceiling === null ? null : Number(policy.ceiling);
+  const ceilingApplied = ceiling !== null && amount > ceiling;
+  if (ceilingApplied) {
+    amount = ceiling;
+  }
+
+  return {
+    policy,
+    amount: roundCurrency(amount),
+    salaryBased: roundCurrency(salaryBased),
+    floorApplied,
+    ceilingApplied,
+  };
+};
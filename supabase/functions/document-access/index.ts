@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type DocumentAction = 'view' | 'download';
+
+interface DocumentAccessBody {
+  documentId: string;
+  action: DocumentAction;
+}
+
+const documentActions: DocumentAction[] = ['view', 'download'];
+
+// Signed URLs are meant to be opened right away, not shared
+const SIGNED_URL_TTL_SECONDS = 60;
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const body: DocumentAccessBody = await req.json();
+
+    if (!body.documentId) {
+      throw new HttpError(400, 'invalid_request', 'Document is required');
+    }
+
+    if (!documentActions.includes(body.action)) {
+      throw new HttpError(400, 'invalid_request', `Unsupported action: ${body.action}`);
+    }
+
+    const { data: document, error: fetchError } = await supabaseClient
+      .from('documents')
+      .select('id, request_id, dependent_id, bucket, path, file_name, scan_status, uploaded_by, checksum')
+      .eq('id', body.documentId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch document: ${fetchError.message}`);
+    }
+
+    if (!document) {
+      throw new HttpError(404, 'not_found', 'Document not found');
+    }
+
+    // Same rule as the storage RLS policies: the owner or a gestora of the polo
+    if (document.request_id) {
+      const { data: request, error: requestError } = await supabaseClient
+        .from('requests')
+        .select('user_id')
+        .eq('id', document.request_id)
+        .single();
+
+      if (requestError || !request) {
+        throw new Error(`Failed to fetch request: ${requestError?.message}`);
+      }
+
+      if (request.user_id !== caller.id) {
+        const { data: canManage, error: scopeError } = await supabaseClient
+          .rpc('can_manage_request', { user_auth_id: user.id, target_request_id: document.request_id });
+
+        if (scopeError) {
+          throw new Error(`Failed to check caller polos: ${scopeError.message}`);
+        }
+
+        if (!canManage) {
+          throw new HttpError(403, 'forbidden', 'Caller cannot access documents of this request');
+        }
+      }
+    } else {
+      // Supporting documents of a registered dependent (birth certificate, enrollment)
+      const { data: dependent, error: dependentError } = await supabaseClient
+        .from('dependents')
+        .select('user_id')
+        .eq('id', document.dependent_id)
+        .single();
+
+      if (dependentError || !dependent) {
+        throw new Error(`Failed to fetch dependent: ${dependentError?.message}`);
+      }
+
+      if (dependent.user_id !== caller.id) {
+        const { data: canManage, error: scopeError } = await supabaseClient
+          .rpc('can_manage_dependent', { user_auth_id: user.id, target_dependent_id: document.dependent_id });
+
+        if (scopeError) {
+          throw new Error(`Failed to check caller polos: ${scopeError.message}`);
+        }
+
+        if (!canManage) {
+          throw new HttpError(403, 'forbidden', 'Caller cannot access documents of this dependent');
+        }
+      }
+    }
+
+    // Quarantined, refused and infected files are never handed out
+    if (document.scan_status !== 'clean') {
+      throw new HttpError(409, 'document_unavailable', 'Document has not passed the file scan');
+    }
+
+    // The file must sit in its uploader's storage folder, so a row cannot expose someone else's file.
+    // Migrated documents (no checksum) were stored by the old client under the profile id
+    if (!document.uploaded_by) {
+      throw new HttpError(409, 'invalid_document_path', 'Document has no recorded uploader');
+    }
+
+    const { data: uploader, error: uploaderError } = await supabaseClient
+      .from('users')
+      .select('id, auth_id')
+      .eq('id', document.uploaded_by)
+      .maybeSingle();
+
+    if (uploaderError) {
+      throw new Error(`Failed to fetch uploader: ${uploaderError.message}`);
+    }
+
+    const folder = document.path.split('/')[0];
+    if (!uploader || (folder !== uploader.auth_id && !(document.checksum === null && folder === uploader.id))) {
+      throw new HttpError(409, 'invalid_document_path', 'Document is not stored in the uploader folder');
+    }
+
+    const { data: signed, error: signError } = await supabaseClient.storage
+      .from(document.bucket)
+      .createSignedUrl(
+        document.path,
+        SIGNED_URL_TTL_SECONDS,
+        body.action === 'download' ? { download: document.file_name } : undefined
+      );
+
+    if (signError || !signed) {
+      throw new Error(`Failed to sign document URL: ${signError?.message}`);
+    }
+
+    const { error: logError } = await supabaseClient
+      .from('document_access_log')
+      .insert({
+        request_id: document.request_id,
+        dependent_id: document.dependent_id,
+        user_id: caller.id,
+        bucket: document.bucket,
+        path: document.path,
+        action: body.action,
+      });
+
+    if (logError) {
+      console.error('Failed to record document access:', logError);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        signedUrl: signed.signedUrl,
+        fileName: document.file_name,
+        expiresIn: SIGNED_URL_TTL_SECONDS,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in document-access function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,272 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { canTransitionPayment, paymentMethodLabels, PaymentStatus } from "../_shared/payments.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RecordPaymentsBody {
+  requestIds: string[];
+  paymentStatus: PaymentStatus;
+  // Required when scheduling or paying
+  paymentDate?: string;
+  paymentMethod?: string;
+  payrollReference?: string;
+  // Required when reversing
+  reversalReason?: string;
+}
+
+interface PaymentFailure {
+  requestId: string;
+  code: string;
+}
+
+const paymentStatuses: PaymentStatus[] = ['scheduled', 'paid', 'reversed'];
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const { data: canManage, error: roleError } = await supabaseClient
+      .rpc('can_manage_payments', { user_auth_id: user.id });
+
+    if (roleError) {
+      throw new Error(`Failed to check caller role: ${roleError.message}`);
+    }
+
+    if (!canManage) {
+      throw new HttpError(403, 'forbidden', 'Only gestoras or finance users can record payments');
+    }
+
+    // Financeiro (and admins) act on every polo; gestoras only on the polos assigned to them
+    const { data: isFinanceiro, error: financeiroError } = await supabaseClient
+      .rpc('is_financeiro', { user_auth_id: user.id });
+
+    if (financeiroError) {
+      throw new Error(`Failed to check caller role: ${financeiroError.message}`);
+    }
+
+    let managedPolos: string[] | null = null;
+    if (!isFinanceiro) {
+      const { data: assignments, error: assignmentsError } = await supabaseClient
+        .from('gestora_polos')
+        .select('polo')
+        .eq('user_id', caller.id);
+
+      if (assignmentsError) {
+        throw new Error(`Failed to load caller polos: ${assignmentsError.message}`);
+      }
+
+      managedPolos = (assignments ?? []).map(assignment => assignment.polo);
+    }
+
+    const body: RecordPaymentsBody = await req.json();
+    console.log('Payment data:', { count: body.requestIds?.length, paymentStatus: body.paymentStatus });
+
+    if (!Array.isArray(body.requestIds) || body.requestIds.length === 0) {
+      throw new HttpError(400, 'invalid_request', 'At least one request is required');
+    }
+
+    if (!paymentStatuses.includes(body.paymentStatus)) {
+      throw new HttpError(400, 'invalid_status', `Unsupported payment status: ${body.paymentStatus}`);
+    }
+
+    if (body.paymentStatus === 'reversed') {
+      if (!body.reversalReason?.trim()) {
+        throw new HttpError(400, 'missing_reversal_reason', 'A reason is required to reverse a payment');
+      }
+    } else if (!body.paymentDate || !body.paymentMethod || !Object.hasOwn(paymentMethodLabels, body.paymentMethod)) {
+      throw new HttpError(400, 'missing_payment_details', 'Payment date and a valid method are required');
+    }
+
+    const { data: currentRequests, error: fetchError } = await supabaseClient
+      .from('requests')
+      .select('id, status, payment_status, polo')
+      .in('id', body.requestIds);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch requests: ${fetchError.message}`);
+    }
+
+    const updateData: Record<string, unknown> = {
+      payment_status: body.paymentStatus,
+      payment_updated_by: caller.id,
+      payment_updated_at: new Date().toISOString(),
+    };
+
+    if (body.paymentStatus === 'reversed') {
+      updateData.payment_reversal_reason = body.reversalReason!.trim();
+    } else {
+      updateData.payment_date = body.paymentDate;
+      updateData.payment_method = body.paymentMethod;
+      updateData.payroll_reference = body.payrollReference?.trim() || null;
+      updateData.payment_reversal_reason = null;
+    }
+
+    const updated: string[] = [];
+    const failed: PaymentFailure[] = [];
+
+    // Each request moves independently so one stale row does not block the whole batch
+    for (const requestId of body.requestIds) {
+      const current = (currentRequests ?? []).find(request => request.id === requestId);
+
+      if (!current) {
+        failed.push({ requestId, code: 'not_found' });
+        continue;
+      }
+
+      if (managedPolos && !managedPolos.includes(current.polo)) {
+        failed.push({ requestId, code: 'out_of_scope' });
+        continue;
+      }
+
+      if (current.status !== 'approved') {
+        failed.push({ requestId, code: 'not_approved' });
+        continue;
+      }
+
+      const currentPayment = current.payment_status as PaymentStatus | null;
+      if (!canTransitionPayment(currentPayment, body.paymentStatus)) {
+        failed.push({ requestId, code: 'invalid_transition' });
+        continue;
+      }
+
+      // Guard on the payment status we validated so concurrent updates are not overwritten
+      let query = supabaseClient
+        .from('requests')
+        .update(updateData)
+        .eq('id', requestId)
+        .eq('status', 'approved');
+      query = currentPayment ? query.eq('payment_status', currentPayment) : query.is('payment_status', null);
+
+      const { data: updatedRequest, error: updateError } = await query.select('id').maybeSingle();
+
+      if (updateError) {
+        console.error('Update error:', updateError);
+        failed.push({ requestId, code: 'update_failed' });
+        continue;
+      }
+
+      if (!updatedRequest) {
+        failed.push({ requestId, code: 'invalid_transition' });
+        continue;
+      }
+
+      updated.push(requestId);
+
+      const { error: auditError } = await supabaseClient
+        .from('audit_logs')
+        .insert({
+          request_id: requestId,
+          user_id: caller.id,
+          action: 'payment_status_change',
+          old_values: { payment_status: currentPayment },
+          new_values: updateData,
+        });
+
+      if (auditError) {
+        console.error('Failed to record payment change:', auditError);
+      }
+
+      try {
+        await supabaseClient.functions.invoke('send-notification-email', {
+          body: { requestId, action: `payment_${body.paymentStatus}` }
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+        // Don't fail the payment record if email fails
+      }
+    }
+
+    console.log('Payments recorded:', { updated: updated.length, failed: failed.length });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        updated,
+        failed,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in payment-management function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,405 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { appealDeadline, MIN_APPEAL_JUSTIFICATION_LENGTH } from "../_shared/appeals.ts";
+import { BenefitCap, CapDependent, capYear, CapRequest, CapViolation, computeCapBalances, findCapViolations } from "../_shared/benefitCaps.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SubmitAppealBody {
+  action: 'submit';
+  requestId: string;
+  justification: string;
+}
+
+interface DecideAppealBody {
+  action: 'decide';
+  appealId: string;
+  outcome: 'granted' | 'denied';
+  // Required when denying; shown to the requester
+  decisionNotes?: string;
+  // Granting approves the request: defaults to the requested amount, a lower value needs notes
+  approvedAmount?: number;
+  // Explicit decision to grant above the remaining annual cap
+  overrideCap?: boolean;
+}
+
+type AppealRequestBody = SubmitAppealBody | DecideAppealBody;
+
+const recordAudit = async (
+  supabaseClient: SupabaseClient,
+  entry: { request_id: string; user_id: string; action: string; old_values?: unknown; new_values?: unknown }
+) => {
+  const { error } = await supabaseClient.from('audit_logs').insert(entry);
+  if (error) {
+    console.error(`Failed to record ${entry.action}:`, error);
+  }
+};
+
+const notify = async (supabaseClient: SupabaseClient, body: Record<string, unknown>) => {
+  try {
+    await supabaseClient.functions.invoke('send-notification-email', { body });
+  } catch (emailError) {
+    console.error('Failed to send email notification:', emailError);
+    // Don't fail the main operation if email fails
+  }
+};
+
+const submitAppeal = async (supabaseClient: SupabaseClient, callerId: string, body: SubmitAppealBody) => {
+  const justification = body.justification?.trim() ?? '';
+  if (justification.length < MIN_APPEAL_JUSTIFICATION_LENGTH) {
+    throw new HttpError(400, 'invalid_appeal', `Justification must have at least ${MIN_APPEAL_JUSTIFICATION_LENGTH} characters`);
+  }
+
+  const { data: request, error: requestError } = await supabaseClient
+    .from('requests')
+    .select('id, user_id, status, approved_by, approved_at, reimbursement_policies ( appeal_window_days )')
+    .eq('id', body.requestId)
+    .maybeSingle();
+
+  if (requestError) {
+    throw new Error(`Failed to fetch request: ${requestError.message}`);
+  }
+
+  if (!request) {
+    throw new HttpError(404, 'not_found', 'Request not found');
+  }
+
+  if (request.user_id !== callerId) {
+    throw new HttpError(403, 'forbidden', 'Only the requester can appeal this request');
+  }
+
+  if (request.status !== 'rejected' || !request.approved_at) {
+    throw new HttpError(409, 'invalid_transition', 'Only rejected requests can be appealed');
+  }
+
+  const deadline = appealDeadline(request.approved_at, request.reimbursement_policies?.appeal_window_days);
+  if (new Date() > deadline) {
+    throw new HttpError(422, 'appeal_window_closed', `The appeal window closed on ${deadline.toISOString()}`);
+  }
+
+  // The unique request_id keeps a second appeal out even if two submissions race
+  const { data: appeal, error: insertError } = await supabaseClient
+    .from('request_appeals')
+    .insert({
+      request_id: request.id,
+      appellant_id: callerId,
+      original_decider_id: request.approved_by,
+      justification,
+    })
+    .select()
+    .single();
+
+  if (insertError?.code === '23505') {
+    throw new HttpError(409, 'appeal_exists', 'This request was already appealed');
+  }
+
+  if (insertError || !appeal) {
+    throw new Error(`Failed to create appeal: ${insertError?.message}`);
+  }
+
+  await recordAudit(supabaseClient, {
+    request_id: request.id,
+    user_id: callerId,
+    action: 'appeal_submitted',
+    old_values: { status: request.status, rejected_by: request.approved_by },
+    new_values: { appeal_id: appeal.id, justification },
+  });
+
+  return appeal;
+};
+
+const decideAppeal = async (
+  supabaseClient: SupabaseClient,
+  caller: { id: string; authId: string },
+  body: DecideAppealBody
+) => {
+  if (body.outcome !== 'granted' && body.outcome !== 'denied') {
+    throw new HttpError(400, 'invalid_request', `Unknown outcome: ${body.outcome}`);
+  }
+
+  const decisionNotes = body.decisionNotes?.trim() || null;
+  if (body.outcome === 'denied' && !decisionNotes) {
+    throw new HttpError(400, 'missing_decision_notes', 'A justification is required to deny an appeal');
+  }
+
+  const { data: appeal, error: appealError } = await supabaseClient
+    .from('request_appeals')
+    .select('*')
+    .eq('id', body.appealId)
+    .maybeSingle();
+
+  if (appealError) {
+    throw new Error(`Failed to fetch appeal: ${appealError.message}`);
+  }
+
+  if (!appeal) {
+    throw new HttpError(404, 'not_found', 'Appeal not found');
+  }
+
+  if (appeal.status !== 'pending') {
+    throw new HttpError(409, 'appeal_decided', 'This appeal was already decided');
+  }
+
+  // Any gestora of the polo other than the one who rejected, or an admin acting as the committee
+  const [{ data: isGestora, error: gestoraError }, { data: isAdmin, error: adminError }] = await Promise.all([
+    supabaseClient.rpc('is_gestora', { user_auth_id: caller.authId }),
+    supabaseClient.rpc('is_admin', { user_auth_id: caller.authId }),
+  ]);
+
+  if (gestoraError || adminError) {
+    throw new Error(`Failed to check caller role: ${(gestoraError ?? adminError)?.message}`);
+  }
+
+  if (!isGestora && !isAdmin) {
+    throw new HttpError(403, 'forbidden', 'Only gestoras or the committee can decide appeals');
+  }
+
+  const { data: canManage, error: scopeError } = await supabaseClient
+    .rpc('can_manage_request', { user_auth_id: caller.authId, target_request_id: appeal.request_id });
+
+  if (scopeError) {
+    throw new Error(`Failed to check caller polos: ${scopeError.message}`);
+  }
+
+  if (!canManage) {
+    throw new HttpError(403, 'out_of_scope', 'Request belongs to a polo outside the caller scope');
+  }
+
+  if (appeal.original_decider_id === caller.id) {
+    throw new HttpError(403, 'own_decision', 'The appeal must be decided by someone other than who rejected the request');
+  }
+
+  const { data: request, error: requestError } = await supabaseClient
+    .from('requests')
+    .select('id, user_id, type, status, amount, dependents, created_at')
+    .eq('id', appeal.request_id)
+    .single();
+
+  if (requestError || !request) {
+    throw new Error(`Failed to fetch request: ${requestError?.message}`);
+  }
+
+  const requestedAmount = Number(request.amount);
+  const finalAmount = body.approvedAmount ?? requestedAmount;
+  let capViolations: CapViolation[] = [];
+
+  if (body.outcome === 'granted') {
+    if (!(finalAmount > 0) || finalAmount > requestedAmount) {
+      throw new HttpError(400, 'invalid_approved_amount', 'Approved amount must be greater than zero and at most the requested amount');
+    }
+
+    if (finalAmount < requestedAmount && !decisionNotes) {
+      throw new HttpError(400, 'missing_justification', 'A justification is required for partial approvals');
+    }
+
+    // Same annual cap check request-management applies to regular approvals
+    const { data: caps, error: capsError } = await supabaseClient
+      .from('benefit_caps')
+      .select('*')
+      .eq('active', true);
+
+    if (capsError) {
+      throw new Error(`Failed to load benefit caps: ${capsError.message}`);
+    }
+
+    const { data: employeeRequests, error: employeeRequestsError } = await supabaseClient
+      .from('requests')
+      .select('id, type, amount, approved_amount, status, created_at, dependents')
+      .eq('user_id', request.user_id)
+      .eq('status', 'approved');
+
+    if (employeeRequestsError) {
+      throw new Error(`Failed to load employee requests: ${employeeRequestsError.message}`);
+    }
+
+    const requestDependents = Array.isArray(request.dependents) ? request.dependents : [];
+    const balances = computeCapBalances(
+      (caps ?? []) as BenefitCap[],
+      (employeeRequests ?? []) as CapRequest[],
+      {
+        type: request.type,
+        year: capYear(request.created_at),
+        dependents: requestDependents as CapDependent[],
+      }
+    );
+    capViolations = findCapViolations(balances, finalAmount);
+
+    if (capViolations.length > 0 && !body.overrideCap) {
+      throw new HttpError(422, 'exceeds_cap', 'Request exceeds the remaining annual cap');
+    }
+  }
+
+  const decidedAt = new Date().toISOString();
+
+  // Guarded by status, so two reviewers cannot both decide the same appeal
+  const { data: decidedAppeal, error: decideError } = await supabaseClient
+    .from('request_appeals')
+    .update({
+      status: body.outcome,
+      decided_by: caller.id,
+      decided_at: decidedAt,
+      decision_notes: decisionNotes,
+    })
+    .eq('id', appeal.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (decideError) {
+    throw new Error(`Failed to decide appeal: ${decideError.message}`);
+  }
+
+  if (!decidedAppeal) {
+    throw new HttpError(409, 'appeal_decided', 'This appeal was already decided');
+  }
+
+  if (body.outcome === 'granted') {
+    // The original rejection reason stays on the request as part of its history
+    const { data: approvedRequest, error: approveError } = await supabaseClient
+      .from('requests')
+      .update({
+        status: 'approved',
+        approved_by: caller.id,
+        approved_at: decidedAt,
+        approved_amount: finalAmount,
+        approval_justification: decisionNotes,
+      })
+      .eq('id', request.id)
+      .eq('status', 'rejected')
+      .select('id')
+      .maybeSingle();
+
+    if (approveError || !approvedRequest) {
+      // Put the appeal back in the queue so the decision can be retried
+      await supabaseClient
+        .from('request_appeals')
+        .update({ status: 'pending', decided_by: null, decided_at: null, decision_notes: null })
+        .eq('id', appeal.id);
+
+      throw new Error(`Failed to approve appealed request: ${approveError?.message ?? 'request is no longer rejected'}`);
+    }
+  }
+
+  await recordAudit(supabaseClient, {
+    request_id: request.id,
+    user_id: caller.id,
+    action: body.outcome === 'granted' ? 'appeal_granted' : 'appeal_denied',
+    old_values: { status: request.status, appeal_id: appeal.id, rejected_by: appeal.original_decider_id },
+    new_values: {
+      status: body.outcome === 'granted' ? 'approved' : request.status,
+      decision_notes: decisionNotes,
+      ...(body.outcome === 'granted' ? { approved_amount: finalAmount } : {}),
+      ...(capViolations.length > 0
+        ? { cap_override: capViolations.map(violation => ({ cap_id: violation.cap.id, remaining: violation.remaining })) }
+        : {}),
+    },
+  });
+
+  await notify(supabaseClient, {
+    requestId: request.id,
+    action: body.outcome === 'granted' ? 'appeal_granted' : 'appeal_denied',
+    decisionNotes,
+  });
+
+  return decidedAppeal;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const body: AppealRequestBody = await req.json();
+
+    let appeal;
+    if (body.action === 'submit') {
+      appeal = await submitAppeal(supabaseClient, caller.id, body);
+    } else if (body.action === 'decide') {
+      appeal = await decideAppeal(supabaseClient, { id: caller.id, authId: user.id }, body);
+    } else {
+      throw new HttpError(400, 'invalid_request', `Unknown action: ${(body as { action?: string }).action}`);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, data: appeal }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in request-appeals function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,312 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { Dependent, toRequestDependent } from "../_shared/dependents.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Form values as typed so far; every field may still be empty
+interface DraftValues {
+  type?: string | null;
+  description?: string | null;
+  amount?: number | null;
+  polo?: string | null;
+  // Ids from the caller's dependent registry; eligibility is only checked on submission
+  dependentIds?: string[];
+  // Attachments already uploaded to the draft that the requester removed from the form
+  removedDocumentIds?: string[];
+}
+
+interface DraftRequestBody {
+  action: 'save' | 'discard';
+  // Missing on the first save, which creates the draft
+  draftId?: string;
+  values?: DraftValues;
+}
+
+// Open drafts per requester; autosave creates at most one per form, so more means abandoned drafts
+const MAX_DRAFTS = 5;
+
+const DRAFT_NOT_FOUND = 'Draft was already submitted or discarded';
+
+const loadDraft = async (supabaseClient: SupabaseClient, draftId: string, callerId: string) => {
+  const { data: draft, error } = await supabaseClient
+    .from('requests')
+    .select('id')
+    .eq('id', draftId)
+    .eq('user_id', callerId)
+    .eq('status', 'draft')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load draft: ${error.message}`);
+  }
+
+  if (!draft) {
+    throw new HttpError(409, 'not_draft', DRAFT_NOT_FOUND);
+  }
+
+  return draft;
+};
+
+// Row and file are removed together; a file left behind is only storage, never visible
+const removeDocuments = async (supabaseClient: SupabaseClient, draftId: string, documentIds?: string[]) => {
+  let query = supabaseClient
+    .from('documents')
+    .select('id, bucket, path')
+    .eq('request_id', draftId);
+
+  if (documentIds) {
+    if (documentIds.length === 0) return;
+    query = query.in('id', documentIds);
+  }
+
+  const { data: documents, error: documentsError } = await query;
+  if (documentsError) {
+    throw new Error(`Failed to load draft documents: ${documentsError.message}`);
+  }
+
+  if (!documents || documents.length === 0) return;
+
+  const { error: removeError } = await supabaseClient
+    .from('documents')
+    .delete()
+    .in('id', documents.map(document => document.id));
+
+  if (removeError) {
+    throw new Error(`Failed to remove draft documents: ${removeError.message}`);
+  }
+
+  for (const bucket of new Set(documents.map(document => document.bucket))) {
+    await supabaseClient.storage
+      .from(bucket)
+      .remove(documents.filter(document => document.bucket === bucket).map(document => document.path));
+  }
+};
+
+// Only checks that the codes exist, so the foreign key does not fail; submit-request rejects inactive ones
+const checkCode = async (supabaseClient: SupabaseClient, table: 'benefit_types' | 'polos', code: string) => {
+  const { data, error } = await supabaseClient
+    .from(table)
+    .select('code')
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ${table}: ${error.message}`);
+  }
+
+  return !!data;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const { action, draftId, values = {} }: DraftRequestBody = await req.json();
+
+    if (action === 'discard') {
+      if (!draftId) {
+        throw new HttpError(400, 'invalid_request', 'Draft id is required');
+      }
+
+      await loadDraft(supabaseClient, draftId, caller.id);
+      await removeDocuments(supabaseClient, draftId);
+
+      // Duplicate matches go with the cascade from requests
+      const { error: deleteError } = await supabaseClient
+        .from('requests')
+        .delete()
+        .eq('id', draftId)
+        .eq('status', 'draft');
+
+      if (deleteError) {
+        throw new Error(`Failed to discard draft: ${deleteError.message}`);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    if (action !== 'save') {
+      throw new HttpError(400, 'invalid_request', `Unknown action: ${action}`);
+    }
+
+    const type = values.type || null;
+    const polo = values.polo || null;
+
+    if (type && !(await checkCode(supabaseClient, 'benefit_types', type))) {
+      throw new HttpError(400, 'invalid_type', `Unknown benefit type: ${type}`);
+    }
+
+    if (polo && !(await checkCode(supabaseClient, 'polos', polo))) {
+      throw new HttpError(400, 'invalid_polo', `Unknown polo: ${polo}`);
+    }
+
+    if (values.amount != null && !(values.amount >= 0)) {
+      throw new HttpError(400, 'invalid_request', 'Amount cannot be negative');
+    }
+
+    const dependentIds = Array.from(new Set(values.dependentIds ?? []));
+    const { data: registeredDependents, error: dependentsError } = dependentIds.length > 0
+      ? await supabaseClient
+        .from('dependents')
+        .select('*')
+        .eq('user_id', caller.id)
+        .in('id', dependentIds)
+      : { data: [], error: null };
+
+    if (dependentsError) {
+      throw new Error(`Failed to load dependents: ${dependentsError.message}`);
+    }
+
+    if ((registeredDependents ?? []).length !== dependentIds.length) {
+      throw new HttpError(400, 'invalid_dependent', 'Dependents must belong to the caller');
+    }
+
+    const draftValues = {
+      type,
+      description: values.description ?? null,
+      amount: values.amount || null,
+      polo,
+      dependents: (registeredDependents as Dependent[]).map(toRequestDependent),
+    };
+
+    let draft;
+    if (draftId) {
+      // Guarded by status, so a draft already submitted from another device is never overwritten
+      const { data: updatedDraft, error: updateError } = await supabaseClient
+        .from('requests')
+        .update(draftValues)
+        .eq('id', draftId)
+        .eq('user_id', caller.id)
+        .eq('status', 'draft')
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        throw new Error(`Failed to save draft: ${updateError.message}`);
+      }
+
+      if (!updatedDraft) {
+        throw new HttpError(409, 'not_draft', DRAFT_NOT_FOUND);
+      }
+
+      await removeDocuments(supabaseClient, draftId, values.removedDocumentIds ?? []);
+      draft = updatedDraft;
+    } else {
+      const { count, error: countError } = await supabaseClient
+        .from('requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', caller.id)
+        .eq('status', 'draft');
+
+      if (countError) {
+        throw new Error(`Failed to count drafts: ${countError.message}`);
+      }
+
+      if ((count ?? 0) >= MAX_DRAFTS) {
+        throw new HttpError(422, 'too_many_drafts', `At most ${MAX_DRAFTS} drafts can be kept at once`);
+      }
+
+      const { data: createdDraft, error: insertError } = await supabaseClient
+        .from('requests')
+        .insert({ ...draftValues, user_id: caller.id, status: 'draft' })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Failed to create draft: ${insertError.message}`);
+      }
+
+      draft = createdDraft;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, data: draft }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in request-drafts function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
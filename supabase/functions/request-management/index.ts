@@ -1,17 +1,91 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { evaluatePolicy, ReimbursementPolicy } from "../_shared/reimbursementPolicy.ts";
+import { BenefitCap, CapDependent, capYear, CapRequest, CapViolation, computeCapBalances, findCapViolations } from "../_shared/benefitCaps.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type RequestStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'info_requested' | 'cancelled';
+type Actor = 'gestora' | 'owner';
+
+interface ResubmissionChanges {
+  description?: string;
+  amount?: number;
+  // Documents the requester withdrew; new files are uploaded by the client before resubmitting
+  removedDocumentIds?: string[];
+  // Files the client uploaded for this change, so the history can tell them from earlier ones
+  addedDocumentIds?: string[];
+}
+
 interface UpdateRequestBody {
   requestId: string;
-  status: 'approved' | 'rejected';
+  status: RequestStatus;
   rejectionReason?: string;
+  // Question for the solicitante when status is info_requested
+  question?: string;
+  // Solicitante answer and edited fields when resubmitting (status back to pending);
+  // the same changes edit a request that is still pending
+  response?: string;
+  changes?: ResubmissionChanges;
+  // Optional note when the requester withdraws the request
+  cancellationReason?: string;
+  // Explicit gestora decision to approve above the remaining annual cap
+  overrideCap?: boolean;
+  // Partial approval: defaults to the requested amount; a lower value needs a justification
+  approvedAmount?: number;
+  approvalJustification?: string;
+}
+
+// Legal status transitions and who may perform them; anything not listed here is rejected with 409
+const allowedTransitions: Record<RequestStatus, Partial<Record<RequestStatus, Actor>>> = {
+  // Drafts leave this state only through submit-request
+  draft: {},
+  // pending -> pending is an edit by the requester
+  pending: { approved: 'gestora', rejected: 'gestora', info_requested: 'gestora', pending: 'owner', cancelled: 'owner' },
+  info_requested: { pending: 'owner' },
+  approved: {},
+  rejected: {},
+  cancelled: {},
+};
+
+interface FieldChange {
+  field: 'description' | 'amount' | 'documents';
+  old_value: unknown;
+  new_value: unknown;
 }
 
+// A pending request is unassigned until a gestora engages with it: an information round,
+// a comment or a document opened by anyone other than the requester
+const reviewStarted = async (supabaseClient: SupabaseClient, requestId: string, ownerId: string) => {
+  const [rounds, comments, accesses] = await Promise.all([
+    supabaseClient
+      .from('request_info_rounds')
+      .select('id', { count: 'exact', head: true })
+      .eq('request_id', requestId),
+    supabaseClient
+      .from('comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('request_id', requestId)
+      .neq('user_id', ownerId),
+    supabaseClient
+      .from('document_access_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('request_id', requestId)
+      .neq('user_id', ownerId),
+  ]);
+
+  const failed = [rounds, comments, accesses].find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to check review activity: ${failed.error.message}`);
+  }
+
+  return (rounds.count ?? 0) + (comments.count ?? 0) + (accesses.count ?? 0) > 0;
+};
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,7 +97,7 @@ const handler = async (req: Request): Promise<Response> => {
     console.log('Auth header:', authHeader ? 'Present' : 'Missing');
     
     if (!authHeader) {
-      throw new Error('Missing authorization header');
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
     }
 
     // Create Supabase client with service role for admin operations
@@ -39,44 +113,359 @@ const handler = async (req: Request): Promise<Response> => {
     );
 
     if (req.method === 'POST') {
-      const { requestId, status, rejectionReason }: UpdateRequestBody = await req.json();
-      console.log('Request data:', { requestId, status, rejectionReason });
+      // Resolve the caller from the JWT instead of trusting the request body
+      const jwt = authHeader.replace('Bearer ', '');
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+      if (userError || !user) {
+        throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+      }
+
+      const { data: caller, error: callerError } = await supabaseClient
+        .from('users')
+        .select('id')
+        .eq('auth_id', user.id)
+        .single();
+
+      if (callerError || !caller) {
+        throw new HttpError(403, 'forbidden', 'Caller profile not found');
+      }
+
+      const { requestId, status, rejectionReason, question, response, changes, overrideCap, approvedAmount, approvalJustification, cancellationReason }: UpdateRequestBody = await req.json();
+      console.log('Request data:', { requestId, status, rejectionReason, question });
+
+      if (!Object.hasOwn(allowedTransitions, status)) {
+        throw new HttpError(400, 'invalid_status', `Unsupported status: ${status}`);
+      }
+
+      const { data: currentRequest, error: fetchError } = await supabaseClient
+        .from('requests')
+        .select('id, user_id, type, status, description, amount, dependents, declared_salary, policy_id, created_at')
+        .eq('id', requestId)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch request: ${fetchError.message}`);
+      }
+
+      if (!currentRequest) {
+        throw new HttpError(404, 'not_found', 'Request not found');
+      }
+
+      const currentStatus = currentRequest.status as RequestStatus;
+      const actor = allowedTransitions[currentStatus]?.[status];
+      if (!actor) {
+        throw new HttpError(
+          409,
+          'invalid_transition',
+          `Cannot change request from ${currentStatus} to ${status}`
+        );
+      }
+
+      if (actor === 'gestora') {
+        const { data: isGestora, error: roleError } = await supabaseClient
+          .rpc('is_gestora', { user_auth_id: user.id });
+
+        if (roleError) {
+          throw new Error(`Failed to check caller role: ${roleError.message}`);
+        }
+
+        if (!isGestora) {
+          throw new HttpError(403, 'forbidden', 'Only gestoras can decide on requests');
+        }
+
+        const { data: canManage, error: scopeError } = await supabaseClient
+          .rpc('can_manage_request', { user_auth_id: user.id, target_request_id: requestId });
+
+        if (scopeError) {
+          throw new Error(`Failed to check caller polos: ${scopeError.message}`);
+        }
+
+        if (!canManage) {
+          throw new HttpError(403, 'out_of_scope', 'Request belongs to a polo outside the caller scope');
+        }
+      } else if (currentRequest.user_id !== caller.id) {
+        throw new HttpError(403, 'forbidden', 'Only the requester can change this request');
+      } else if (currentStatus === 'pending' && await reviewStarted(supabaseClient, requestId, caller.id)) {
+        throw new HttpError(409, 'review_started', 'A gestora already started reviewing this request');
+      }
+
+      const requestedAmount = Number(currentRequest.amount);
+      const finalAmount = approvedAmount ?? requestedAmount;
+      if (status === 'approved') {
+        if (!(finalAmount > 0) || finalAmount > requestedAmount) {
+          throw new HttpError(400, 'invalid_approved_amount', 'Approved amount must be greater than zero and at most the requested amount');
+        }
 
-      // Update request status
-      const updateData: any = {
-        status,
-        approved_at: new Date().toISOString(),
-      };
+        if (finalAmount < requestedAmount && !approvalJustification?.trim()) {
+          throw new HttpError(400, 'missing_justification', 'A justification is required for partial approvals');
+        }
+      }
+
+      // Approvals are re-checked against the employee's remaining annual caps
+      let capViolations: CapViolation[] = [];
+      if (status === 'approved') {
+        const { data: caps, error: capsError } = await supabaseClient
+          .from('benefit_caps')
+          .select('*')
+          .eq('active', true);
+
+        if (capsError) {
+          throw new Error(`Failed to load benefit caps: ${capsError.message}`);
+        }
+
+        const { data: employeeRequests, error: employeeRequestsError } = await supabaseClient
+          .from('requests')
+          .select('id, type, amount, approved_amount, status, created_at, dependents')
+          .eq('user_id', currentRequest.user_id)
+          .eq('status', 'approved');
+
+        if (employeeRequestsError) {
+          throw new Error(`Failed to load employee requests: ${employeeRequestsError.message}`);
+        }
+
+        const requestDependents = Array.isArray(currentRequest.dependents) ? currentRequest.dependents : [];
+        const balances = computeCapBalances(
+          (caps ?? []) as BenefitCap[],
+          (employeeRequests ?? []) as CapRequest[],
+          {
+            type: currentRequest.type,
+            year: capYear(currentRequest.created_at),
+            dependents: requestDependents as CapDependent[],
+          }
+        );
+        capViolations = findCapViolations(balances, finalAmount);
+
+        if (capViolations.length > 0 && !overrideCap) {
+          throw new HttpError(422, 'exceeds_cap', 'Request exceeds the remaining annual cap');
+        }
+      }
+
+      const updateData: Record<string, unknown> = { status };
+
+      if (status === 'approved' || status === 'rejected') {
+        updateData.approved_by = caller.id;
+        updateData.approved_at = new Date().toISOString();
+
+        if (status === 'rejected' && rejectionReason) {
+          updateData.rejection_reason = rejectionReason;
+        }
+      }
+
+      if (status === 'cancelled') {
+        updateData.cancelled_at = new Date().toISOString();
+        updateData.cancellation_reason = cancellationReason?.trim() || null;
+      }
+
+      if (status === 'approved') {
+        updateData.approved_amount = finalAmount;
+        updateData.approval_justification = approvalJustification?.trim() || null;
+      }
+
+      if (status === 'info_requested' && !question?.trim()) {
+        throw new HttpError(400, 'missing_question', 'A question for the requester is required');
+      }
+
+      if (status === 'pending') {
+        if (changes?.description !== undefined) {
+          if (changes.description.trim().length < 10) {
+            throw new HttpError(400, 'invalid_changes', 'Description must have at least 10 characters');
+          }
+          updateData.description = changes.description;
+        }
+
+        if (changes?.amount !== undefined) {
+          if (!(changes.amount > 0)) {
+            throw new HttpError(400, 'invalid_changes', 'Amount must be greater than zero');
+          }
+
+          // Re-check the edited amount against the policy version the request was created with
+          if (currentRequest.policy_id) {
+            const { data: policy, error: policyError } = await supabaseClient
+              .from('reimbursement_policies')
+              .select('*')
+              .eq('id', currentRequest.policy_id)
+              .single();
+
+            if (policyError || !policy) {
+              throw new Error(`Failed to load policy: ${policyError?.message}`);
+            }
+
+            const evaluation = evaluatePolicy(policy as ReimbursementPolicy, {
+              salary: Number(currentRequest.declared_salary ?? 0),
+              dependents: Array.isArray(currentRequest.dependents) ? currentRequest.dependents.length : 0,
+            });
+
+            if (changes.amount > evaluation.amount) {
+              throw new HttpError(
+                422,
+                'exceeds_policy',
+                `Requested amount ${changes.amount} exceeds the policy maximum of ${evaluation.amount}`
+              );
+            }
+          }
+          updateData.amount = changes.amount;
+        }
 
-      if (status === 'rejected' && rejectionReason) {
-        updateData.rejection_reason = rejectionReason;
       }
 
       console.log('Updating request with data:', updateData);
 
+      // Guard on the status we validated so a concurrent decision cannot be overwritten
       const { data: updatedRequest, error: updateError } = await supabaseClient
         .from('requests')
         .update(updateData)
         .eq('id', requestId)
+        .eq('status', currentStatus)
         .select()
-        .single();
+        .maybeSingle();
 
       if (updateError) {
         console.error('Update error:', updateError);
         throw new Error(`Failed to update request: ${updateError.message}`);
       }
 
+      if (!updatedRequest) {
+        throw new HttpError(409, 'invalid_transition', 'Request was already decided by someone else');
+      }
+
       console.log('Request updated successfully:', updatedRequest);
 
-      // Call email notification function
-      try {
-        await supabaseClient.functions.invoke('send-notification-email', {
-          body: { requestId, action: status, rejectionReason }
-        });
-        console.log('Email notification sent');
-      } catch (emailError) {
-        console.error('Failed to send email notification:', emailError);
-        // Don't fail the main operation if email fails
+      if (capViolations.length > 0) {
+        const { error: auditError } = await supabaseClient
+          .from('audit_logs')
+          .insert({
+            request_id: requestId,
+            user_id: caller.id,
+            action: 'cap_override',
+            old_values: {
+              caps: capViolations.map(violation => ({
+                cap_id: violation.cap.id,
+                request_type: violation.cap.request_type,
+                dependent: violation.dependent ?? null,
+                remaining: violation.remaining,
+              })),
+            },
+            new_values: { approved_amount: finalAmount },
+          });
+
+        if (auditError) {
+          console.error('Failed to record cap override:', auditError);
+        }
+      }
+
+      // Keep every information round in history
+      if (status === 'info_requested') {
+        const { error: roundError } = await supabaseClient
+          .from('request_info_rounds')
+          .insert({
+            request_id: requestId,
+            requested_by: caller.id,
+            question,
+          });
+
+        if (roundError) {
+          console.error('Failed to record info round:', roundError);
+        }
+      }
+
+      if (status === 'pending') {
+        const { data: currentDocuments, error: documentsError } = await supabaseClient
+          .from('documents')
+          .select('id, bucket, path, file_name')
+          .eq('request_id', requestId);
+
+        if (documentsError) {
+          console.error('Failed to load documents:', documentsError);
+        }
+
+        const removedDocuments = (currentDocuments ?? [])
+          .filter(document => changes?.removedDocumentIds?.includes(document.id));
+
+        if (removedDocuments.length > 0) {
+          const { error: removeError } = await supabaseClient
+            .from('documents')
+            .delete()
+            .in('id', removedDocuments.map(document => document.id));
+
+          if (removeError) {
+            console.error('Failed to remove documents:', removeError);
+          } else {
+            for (const bucket of new Set(removedDocuments.map(document => document.bucket))) {
+              await supabaseClient.storage
+                .from(bucket)
+                .remove(removedDocuments.filter(document => document.bucket === bucket).map(document => document.path));
+            }
+          }
+        }
+
+        const documentNames = (currentDocuments ?? []).map(document => document.file_name);
+        const removedNames = removedDocuments.map(document => document.file_name);
+        const addedNames = (currentDocuments ?? [])
+          .filter(document => changes?.addedDocumentIds?.includes(document.id))
+          .map(document => document.file_name);
+
+        const fieldChanges: FieldChange[] = [];
+        if (updatedRequest.description !== currentRequest.description) {
+          fieldChanges.push({ field: 'description', old_value: currentRequest.description, new_value: updatedRequest.description });
+        }
+        if (Number(updatedRequest.amount) !== Number(currentRequest.amount)) {
+          fieldChanges.push({ field: 'amount', old_value: Number(currentRequest.amount), new_value: Number(updatedRequest.amount) });
+        }
+        if (addedNames.length > 0 || removedNames.length > 0) {
+          fieldChanges.push({
+            field: 'documents',
+            old_value: documentNames.filter(name => !addedNames.includes(name)),
+            new_value: documentNames.filter(name => !removedNames.includes(name)),
+          });
+        }
+
+        if (fieldChanges.length > 0) {
+          const { error: historyError } = await supabaseClient
+            .from('request_changes')
+            .insert(fieldChanges.map(change => ({ ...change, request_id: requestId, changed_by: caller.id })));
+
+          if (historyError) {
+            console.error('Failed to record change history:', historyError);
+          }
+        }
+
+        if (currentStatus === 'info_requested') {
+          const { error: roundError } = await supabaseClient
+            .from('request_info_rounds')
+            .update({
+              response: response ?? null,
+              responded_at: new Date().toISOString(),
+              previous_values: {
+                description: currentRequest.description,
+                amount: currentRequest.amount,
+                documents: documentNames,
+              },
+              resubmitted_values: {
+                description: updatedRequest.description,
+                amount: updatedRequest.amount,
+                documents: documentNames.filter(name => !removedNames.includes(name)),
+              },
+            })
+            .eq('request_id', requestId)
+            .is('responded_at', null);
+
+          if (roundError) {
+            console.error('Failed to record resubmission:', roundError);
+          }
+        }
+      }
+
+      // Call email notification function for decisions sent to the requester
+      if (status !== 'pending' && status !== 'cancelled') {
+        try {
+          await supabaseClient.functions.invoke('send-notification-email', {
+            body: { requestId, action: status, rejectionReason, question }
+          });
+          console.log('Email notification sent');
+        } catch (emailError) {
+          console.error('Failed to send email notification:', emailError);
+          // Don't fail the main operation if email fails
+        }
       }
 
       return new Response(
@@ -104,6 +493,17 @@ const handler = async (req: Request): Promise<Response> => {
     );
   } catch (error: any) {
     console.error('Error in request-management function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
     return new Response(
       JSON.stringify({ 
         error: error.message,
@@ -117,4 +517,4 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
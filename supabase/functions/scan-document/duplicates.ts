@@ -0,0 +1,135 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+// Cross-request duplicate detection for receipts, run once a document leaves quarantine
+
+export type DuplicateMatch = 'checksum' | 'invoice_reference' | 'receipt_data';
+
+export interface FingerprintedDocument {
+  id: string;
+  request_id: string;
+  checksum: string | null;
+  invoice_data: unknown;
+  ocr_data: unknown;
+}
+
+interface ReceiptKey {
+  provider: string;
+  date: string;
+  amount: number;
+  // Only electronic invoices carry a reference (access key or NFS-e number)
+  reference: string | null;
+}
+
+// Candidates per query; a receipt reused more often than this is already obvious
+const MAX_CANDIDATES = 50;
+
+const DOCUMENT_COLUMNS = 'id, request_id, checksum, invoice_data, ocr_data';
+
+// ocr_data is written by the browser, so every field is checked before it reaches a filter
+const receiptKey = (document: FingerprintedDocument): ReceiptKey | null => {
+  const invoice = document.invoice_data as Record<string, unknown> | null;
+  const ocr = document.ocr_data as Record<string, unknown> | null;
+
+  const provider = invoice ? invoice.issuer_cnpj : ocr?.provider_document;
+  const date = invoice ? invoice.issue_date : ocr?.date;
+  const amount = invoice ? invoice.total_amount : ocr?.amount;
+
+  if (
+    typeof provider !== 'string' || !/^\d{11,14}$/.test(provider)
+    || typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)
+    || typeof amount !== 'number' || !(amount > 0)
+  ) {
+    return null;
+  }
+
+  const reference = invoice && typeof invoice.reference === 'string' ? invoice.reference : null;
+  return { provider, date, amount, reference };
+};
+
+const matchType = (document: FingerprintedDocument, candidate: FingerprintedDocument): DuplicateMatch | null => {
+  if (document.checksum && document.checksum === candidate.checksum) return 'checksum';
+
+  const key = receiptKey(document);
+  const other = receiptKey(candidate);
+  if (!key || !other || key.provider !== other.provider) return null;
+
+  if (key.reference && key.reference === other.reference) return 'invoice_reference';
+  if (key.date === other.date && Math.abs(key.amount - other.amount) < 0.01) return 'receipt_data';
+  return null;
+};
+
+// Records the match in both directions, so each request shows the warning
+export const recordDuplicates = async (supabaseClient: SupabaseClient, document: FingerprintedDocument) => {
+  const candidates = new Map<string, FingerprintedDocument>();
+
+  if (document.checksum) {
+    const { data, error } = await supabaseClient
+      .from('documents')
+      .select(DOCUMENT_COLUMNS)
+      .eq('checksum', document.checksum)
+      .eq('scan_status', 'clean')
+      .neq('request_id', document.request_id)
+      .limit(MAX_CANDIDATES);
+
+    if (error) throw new Error(`Failed to look up identical files: ${error.message}`);
+    (data ?? []).forEach(candidate => candidates.set(candidate.id, candidate));
+  }
+
+  const key = receiptKey(document);
+  if (key) {
+    const { data, error } = await supabaseClient
+      .from('documents')
+      .select(DOCUMENT_COLUMNS)
+      .or(`invoice_data->>issuer_cnpj.eq.${key.provider},ocr_data->>provider_document.eq.${key.provider}`)
+      .eq('scan_status', 'clean')
+      .neq('request_id', document.request_id)
+      .limit(MAX_CANDIDATES);
+
+    if (error) throw new Error(`Failed to look up receipts from the same provider: ${error.message}`);
+    (data ?? []).forEach(candidate => candidates.set(candidate.id, candidate));
+  }
+
+  const matches = Array.from(candidates.values())
+    .map(candidate => ({ candidate, match: matchType(document, candidate) }))
+    .filter((entry): entry is { candidate: FingerprintedDocument; match: DuplicateMatch } => !!entry.match);
+
+  if (matches.length === 0) return 0;
+
+  const requestIds = [document.request_id, ...matches.map(({ candidate }) => candidate.request_id)];
+  const { data: requests, error: requestsError } = await supabaseClient
+    .from('requests')
+    .select('id, user_id')
+    .in('id', Array.from(new Set(requestIds)));
+
+  if (requestsError) throw new Error(`Failed to load matching requests: ${requestsError.message}`);
+
+  const owners = new Map((requests ?? []).map(request => [request.id, request.user_id]));
+  const rows = matches.flatMap(({ candidate, match }) => {
+    const sameRequester = owners.get(document.request_id) === owners.get(candidate.request_id);
+    return [
+      {
+        document_id: document.id,
+        request_id: document.request_id,
+        duplicate_document_id: candidate.id,
+        duplicate_request_id: candidate.request_id,
+        match_type: match,
+        same_requester: sameRequester,
+      },
+      {
+        document_id: candidate.id,
+        request_id: candidate.request_id,
+        duplicate_document_id: document.id,
+        duplicate_request_id: document.request_id,
+        match_type: match,
+        same_requester: sameRequester,
+      },
+    ];
+  });
+
+  const { error: insertError } = await supabaseClient
+    .from('document_duplicates')
+    .upsert(rows, { onConflict: 'document_id,duplicate_document_id', ignoreDuplicates: true });
+
+  if (insertError) throw new Error(`Failed to record duplicates: ${insertError.message}`);
+  return matches.length;
+};
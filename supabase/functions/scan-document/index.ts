@@ -0,0 +1,269 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { SIGNATURE_LENGTH, detectFileType, validateFile } from "../_shared/fileValidation.ts";
+import { InvoiceData, parseInvoiceXml } from "../_shared/invoiceXml.ts";
+import { createScanner, DocumentScanner } from "./scanners.ts";
+import { recordDuplicates } from "./duplicates.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ScanDocumentBody {
+  documentId: string;
+}
+
+type ScanStatus = 'clean' | 'rejected' | 'infected' | 'error';
+
+const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const body: ScanDocumentBody = await req.json();
+
+    if (!body.documentId) {
+      throw new HttpError(400, 'invalid_request', 'Document is required');
+    }
+
+    const { data: document, error: fetchError } = await supabaseClient
+      .from('documents')
+      .select('id, request_id, dependent_id, bucket, path, mime_type, uploaded_by, scan_status, scan_detail, ocr_data')
+      .eq('id', body.documentId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch document: ${fetchError.message}`);
+    }
+
+    if (!document) {
+      throw new HttpError(404, 'not_found', 'Document not found');
+    }
+
+    if (document.uploaded_by !== caller.id) {
+      throw new HttpError(403, 'forbidden', 'Only the uploader can submit a document for scanning');
+    }
+
+    // Only quarantined documents are scanned; a failed scan can be retried
+    if (document.scan_status !== 'pending' && document.scan_status !== 'error') {
+      return new Response(
+        JSON.stringify({ success: true, status: document.scan_status, detail: document.scan_detail }),
+        {
+          status: 200,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    // The row must point at a file in the caller's own storage folder; otherwise a refused
+    // scan would delete someone else's file
+    if (document.path.split('/')[0] !== user.id) {
+      throw new HttpError(403, 'invalid_document_path', 'Document is not stored in the uploader folder');
+    }
+
+    const { data: file, error: downloadError } = await supabaseClient.storage
+      .from(document.bucket)
+      .download(document.path);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document: ${downloadError?.message}`);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // Duplicate detection relies on this hash, so the one sent by the browser is replaced
+    const checksum = await sha256Hex(bytes);
+
+    // Limits are checked on the stored bytes; the sizes sent by the browser are not trusted.
+    // The total applies per owner: a request's attachments or a dependent's supporting documents
+    const { data: otherDocuments, error: otherError } = await supabaseClient
+      .from('documents')
+      .select('size')
+      .eq(document.request_id ? 'request_id' : 'dependent_id', document.request_id ?? document.dependent_id)
+      .neq('id', document.id)
+      .in('scan_status', ['pending', 'clean']);
+
+    if (otherError) {
+      throw new Error(`Failed to load request documents: ${otherError.message}`);
+    }
+
+    const otherFilesBytes = (otherDocuments ?? []).reduce((total, other) => total + Number(other.size ?? 0), 0);
+
+    let status: ScanStatus;
+    let detail: string | null = null;
+    let invoiceData: InvoiceData | null = null;
+
+    const header = bytes.subarray(0, SIGNATURE_LENGTH);
+    const validationError = validateFile(
+      { header, size: bytes.byteLength, mimeType: document.mime_type },
+      otherFilesBytes
+    );
+
+    // XML is only accepted as an electronic invoice; its data is read from the stored bytes
+    const invoice = !validationError && detectFileType(header) === 'xml'
+      ? parseInvoiceXml(new TextDecoder().decode(bytes))
+      : null;
+
+    if (validationError) {
+      status = 'rejected';
+      detail = validationError;
+    } else if (invoice && 'error' in invoice) {
+      status = 'rejected';
+      detail = invoice.error;
+    } else {
+      invoiceData = invoice ? invoice.data : null;
+      let scanner: DocumentScanner | undefined;
+      try {
+        // A missing or unknown DOCUMENT_SCANNER is recorded as a scan error, like a scanner failure
+        scanner = createScanner();
+        const result = await scanner.scan(bytes);
+        status = result.status;
+        detail = result.detail ?? null;
+      } catch (scanError: unknown) {
+        // The file stays in quarantine; it is not shown to gestoras until scanned
+        console.error(`Scanner ${scanner?.name ?? 'setup'} failed:`, scanError);
+        status = 'error';
+        detail = scanError instanceof Error ? scanError.message : String(scanError);
+      }
+    }
+
+    const { error: updateError } = await supabaseClient
+      .from('documents')
+      .update({
+        scan_status: status,
+        scan_detail: detail,
+        scanned_at: new Date().toISOString(),
+        size: bytes.byteLength,
+        checksum,
+        invoice_data: status === 'clean' ? invoiceData : null,
+      })
+      .eq('id', document.id)
+      .eq('scan_status', document.scan_status);
+
+    if (updateError) {
+      throw new Error(`Failed to record scan result: ${updateError.message}`);
+    }
+
+    // Refused files never leave quarantine, so their bytes are not kept
+    if (status === 'rejected' || status === 'infected') {
+      const { error: removeError } = await supabaseClient.storage
+        .from(document.bucket)
+        .remove([document.path]);
+
+      if (removeError) {
+        console.error('Failed to remove refused document:', removeError);
+      }
+    }
+
+    // Only released request attachments are compared; a failure here must not undo the scan result
+    let duplicates = 0;
+    if (status === 'clean' && document.request_id) {
+      try {
+        duplicates = await recordDuplicates(supabaseClient, {
+          id: document.id,
+          request_id: document.request_id,
+          checksum,
+          invoice_data: invoiceData,
+          ocr_data: document.ocr_data,
+        });
+      } catch (duplicateError) {
+        console.error('Failed to check for duplicate documents:', duplicateError);
+      }
+    }
+
+    console.log('Document scanned:', { documentId: document.id, status, duplicates });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        status,
+        detail,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in scan-document function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,121 @@
+// Pluggable antivirus backends for the document quarantine, selected with DOCUMENT_SCANNER
+
+export interface ScanResult {
+  status: 'clean' | 'infected';
+  detail?: string;
+}
+
+export interface DocumentScanner {
+  name: string;
+  scan(bytes: Uint8Array): Promise<ScanResult>;
+}
+
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+const uint32BE = (value: number) => {
+  const buffer = new Uint8Array(4);
+  new DataView(buffer.buffer).setUint32(0, value);
+  return buffer;
+};
+
+const writeAll = async (conn: Deno.Conn, data: Uint8Array) => {
+  let written = 0;
+  while (written < data.length) {
+    written += await conn.write(data.subarray(written));
+  }
+};
+
+// Streams the file to a clamd daemon with the INSTREAM command
+export const clamdScanner = (hostname: string, port: number): DocumentScanner => ({
+  name: 'clamav',
+  async scan(bytes) {
+    const conn = await Deno.connect({ hostname, port });
+    try {
+      await writeAll(conn, new TextEncoder().encode('zINSTREAM\0'));
+      for (let offset = 0; offset < bytes.length; offset += CLAMD_CHUNK_SIZE) {
+        const chunk = bytes.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+        await writeAll(conn, uint32BE(chunk.length));
+        await writeAll(conn, chunk);
+      }
+      await writeAll(conn, uint32BE(0));
+
+      // Replies are NUL-terminated, e.g. "stream: OK" or "stream: Eicar-Signature FOUND"
+      const decoder = new TextDecoder();
+      const buffer = new Uint8Array(1024);
+      let reply = '';
+      let read: number | null;
+      while ((read = await conn.read(buffer)) !== null) {
+        reply += decoder.decode(buffer.subarray(0, read), { stream: true });
+        if (buffer[read - 1] === 0) break;
+      }
+      reply = reply.replace(/\0/g, '').trim();
+
+      if (reply.endsWith('OK')) {
+        return { status: 'clean' };
+      }
+
+      if (reply.endsWith('FOUND')) {
+        return { status: 'infected', detail: reply.replace(/^stream:\s*/, '').replace(/\s*FOUND$/, '') };
+      }
+
+      throw new Error(`Unexpected clamd reply: ${reply}`);
+    } finally {
+      conn.close();
+    }
+  },
+});
+
+// Posts the file to an HTTP scanning service that answers { infected: boolean, detail?: string }
+export const httpScanner = (url: string): DocumentScanner => ({
+  name: 'http',
+  async scan(bytes) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: bytes,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Scanner responded with ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.infected
+      ? { status: 'infected', detail: result.detail }
+      : { status: 'clean' };
+  },
+});
+
+// Local development without an antivirus: only the file validation applies
+export const noopScanner: DocumentScanner = {
+  name: 'none',
+  scan: async () => ({ status: 'clean', detail: 'Antivirus scanning disabled' }),
+};
+
+// Fails closed: without an explicit choice the scan errors and the document stays in quarantine
+export const createScanner = (): DocumentScanner => {
+  const kind = Deno.env.get('DOCUMENT_SCANNER');
+  if (!kind) {
+    throw new Error('DOCUMENT_SCANNER is not set; documents stay in quarantine until a scanner is configured');
+  }
+
+  switch (kind) {
+    case 'clamav':
+      return clamdScanner(
+        Deno.env.get('CLAMD_HOST') ?? '127.0.0.1',
+        Number(Deno.env.get('CLAMD_PORT') ?? 3310)
+      );
+    case 'http': {
+      const url = Deno.env.get('DOCUMENT_SCANNER_URL');
+      if (!url) {
+        throw new Error('DOCUMENT_SCANNER_URL is required for the http scanner');
+      }
+      return httpScanner(url);
+    }
+    case 'none':
+      console.warn('DOCUMENT_SCANNER=none: attachments are released without an antivirus scan');
+      return noopScanner;
+    default:
+      throw new Error(`Unknown DOCUMENT_SCANNER: ${kind}`);
+  }
+};
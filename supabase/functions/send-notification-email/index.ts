@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { createTransport } from "./transport.ts";
+import { renderTemplate, TemplateName, TEMPLATE_VERSION } from "./templates.ts";
+import { renderLimitedMarkdown } from "./markdown.ts";
+import { paymentMethodLabels } from "../_shared/payments.ts";
+import { appealDeadline } from "../_shared/appeals.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,10 +13,18 @@ const corsHeaders = {
 
 interface EmailNotificationRequest {
   requestId: string;
-  action: 'approved' | 'rejected';
+  action: TemplateName;
   rejectionReason?: string;
+  question?: string;
+  // Reviewer notes on an appeal decision
+  decisionNotes?: string;
 }
 
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -19,12 +32,31 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Internal function: only other edge functions (service role) may trigger emails
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      serviceRoleKey,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
     );
 
-    const { requestId, action, rejectionReason }: EmailNotificationRequest = await req.json();
+    const { requestId, action, rejectionReason, question, decisionNotes }: EmailNotificationRequest = await req.json();
 
     // Get request details with user info
     const { data: requestData, error: requestError } = await supabaseClient
@@ -34,6 +66,12 @@ const handler = async (req: Request): Promise<Response> => {
         users!requests_user_id_fkey (
           name,
           email
+        ),
+        benefit_types (
+          label
+        ),
+        reimbursement_policies (
+          appeal_window_days
         )
       `)
       .eq('id', requestId)
@@ -44,46 +82,91 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const user = requestData.users;
-    const subject = action === 'approved' 
-      ? '✅ Solicitação Ombro Amigo Aprovada'
-      : '❌ Solicitação Ombro Amigo Recusada';
-
-    const emailBody = action === 'approved' 
-      ? `
-        <h2>Sua solicitação foi aprovada!</h2>
-        <p>Olá ${user.name},</p>
-        <p>Sua solicitação de auxílio para <strong>${requestData.type}</strong> foi aprovada.</p>
-        <p><strong>Valor:</strong> R$ ${requestData.amount.toFixed(2)}</p>
-        <p><strong>Descrição:</strong> ${requestData.description}</p>
-        <p>Em breve você receberá mais informações sobre os próximos passos.</p>
-        <p>Atenciosamente,<br/>Equipe Ombro Amigo</p>
-      `
-      : `
-        <h2>Solicitação não aprovada</h2>
-        <p>Olá ${user.name},</p>
-        <p>Sua solicitação de auxílio para <strong>${requestData.type}</strong> não foi aprovada.</p>
-        <p><strong>Valor:</strong> R$ ${requestData.amount.toFixed(2)}</p>
-        <p><strong>Motivo:</strong> ${rejectionReason || 'Não informado'}</p>
-        <p>Se tiver dúvidas, entre em contato com o RH.</p>
-        <p>Atenciosamente,<br/>Equipe Ombro Amigo</p>
-      `;
-
-    // Log the email action
-    console.log(`Email notification sent for request ${requestId}: ${action}`);
-    console.log(`Recipient: ${user.email}`);
-    console.log(`Subject: ${subject}`);
-
-    // In a real implementation, you would integrate with an email service here
-    // For now, we'll just log the email details
-    
+    const { subject, html, text } = await renderTemplate(action, {
+      name: user.name,
+      type: requestData.benefit_types?.label ?? requestData.type,
+      amount: Number(requestData.amount).toFixed(2),
+      approvedAmount: Number(requestData.approved_amount ?? requestData.amount).toFixed(2),
+      approvalJustification: requestData.approval_justification || 'Aprovação integral do valor solicitado',
+      description: requestData.description,
+      descriptionHtml: renderLimitedMarkdown(requestData.description),
+      rejectionReason: rejectionReason || 'Não informado',
+      question: question || 'Não informada',
+      appealDeadline: requestData.approved_at
+        ? appealDeadline(requestData.approved_at, requestData.reimbursement_policies?.appeal_window_days).toLocaleDateString('pt-BR')
+        : 'Não informado',
+      decisionNotes: decisionNotes || 'Não informado',
+      paymentDate: requestData.payment_date
+        ? new Date(`${requestData.payment_date}T00:00:00`).toLocaleDateString('pt-BR')
+        : 'Não informada',
+      paymentMethod: paymentMethodLabels[requestData.payment_method] ?? requestData.payment_method ?? 'Não informada',
+      payrollReference: requestData.payroll_reference || 'Não informada',
+      reversalReason: requestData.payment_reversal_reason || 'Não informado',
+    });
+
+    const transport = createTransport();
+
+    const { data: logEntry, error: logError } = await supabaseClient
+      .from('notification_log')
+      .insert({
+        request_id: requestId,
+        recipient: user.email,
+        template: action,
+        template_version: TEMPLATE_VERSION,
+        subject,
+        transport: transport.name,
+      })
+      .select('id')
+      .single();
+
+    if (logError || !logEntry) {
+      throw new Error(`Failed to create notification log: ${logError?.message}`);
+    }
+
+    let messageId: string | null = null;
+    let lastError: string | null = null;
+    let attempts = 0;
+
+    while (attempts < MAX_ATTEMPTS && !messageId) {
+      attempts++;
+      try {
+        ({ messageId } = await transport.send({ to: user.email, subject, html, text }));
+      } catch (sendError: unknown) {
+        lastError = sendError instanceof Error ? sendError.message : String(sendError);
+        console.error(`Attempt ${attempts} to send email for request ${requestId} failed:`, sendError);
+
+        if (attempts < MAX_ATTEMPTS) {
+          await delay(RETRY_DELAY_MS * attempts);
+        }
+      }
+    }
+
+    await supabaseClient
+      .from('notification_log')
+      .update({
+        status: messageId ? 'sent' : 'failed',
+        attempts,
+        provider_message_id: messageId,
+        last_error: messageId ? null : lastError,
+        sent_at: messageId ? new Date().toISOString() : null,
+      })
+      .eq('id', logEntry.id);
+
+    if (!messageId) {
+      throw new Error(`Failed to send email after ${attempts} attempts: ${lastError}`);
+    }
+
+    console.log(`Email notification sent for request ${requestId}: ${action} (${messageId})`);
+
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Email notification logged',
+        message: 'Email notification sent',
         details: {
           recipient: user.email,
           subject,
-          action
+          action,
+          messageId,
         }
       }),
       {
@@ -106,4 +189,4 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
@@ -0,0 +1,41 @@
+const htmlEscapes: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => htmlEscapes[char]);
+
+// Inline formatting runs on already-escaped text, so it can only ever add the tags below
+const renderInline = (escaped: string) =>
+  escaped
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*(?!\*)/g, '$1<em>$2</em>');
+
+/**
+ * Renders the small Markdown subset allowed in request descriptions:
+ * paragraphs, line breaks, `- ` bullet lists, **bold** and *italic*.
+ * Everything else (raw HTML, links, images) is shown as escaped text.
+ */
+export const renderLimitedMarkdown = (markdown: string) => {
+  const blocks = markdown.replace(/\r\n/g, '\n').trim().split(/\n{2,}/);
+
+  return blocks
+    .filter(block => block.trim())
+    .map((block) => {
+      const lines = block.split('\n');
+
+      if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+        const items = lines
+          .map(line => `<li>${renderInline(escapeHtml(line.replace(/^\s*[-*]\s+/, '')))}</li>`)
+          .join('');
+        return `<ul>${items}</ul>`;
+      }
+
+      return `<p>${lines.map(line => renderInline(escapeHtml(line))).join('<br/>')}</p>`;
+    })
+    .join('\n');
+};
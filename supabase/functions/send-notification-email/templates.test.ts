@@ -0,0 +1,56 @@
+import { readFile } from 'node:fs/promises';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { renderLimitedMarkdown } from './markdown.ts';
+import { renderTemplate } from './templates.ts';
+
+// Same values send-notification-email builds from the request row; the current TEMPLATE_VERSION is rendered
+const values = (overrides: Record<string, string> = {}) => {
+  const description = overrides.description ?? 'Consulta com **cardiologista** em 10/03.\n\n- Recibo da clínica\n- Pedido médico';
+  return {
+    name: 'Maria Souza',
+    type: 'Consulta médica',
+    amount: '250.00',
+    approvedAmount: '200.00',
+    approvalJustification: 'Recibo cobre apenas parte do valor',
+    description,
+    descriptionHtml: renderLimitedMarkdown(description),
+    rejectionReason: 'Comprovante ilegível',
+    appealDeadline: '25/03/2025',
+    ...overrides,
+  };
+};
+
+describe('email templates', () => {
+  beforeAll(() => {
+    // The templates are read with the Deno runtime API
+    vi.stubGlobal('Deno', { readTextFile: (url: URL) => readFile(url, 'utf8') });
+  });
+
+  it('renders the approved template', async () => {
+    expect(await renderTemplate('approved', values())).toMatchSnapshot();
+  });
+
+  it('renders the rejected template', async () => {
+    expect(await renderTemplate('rejected', values())).toMatchSnapshot();
+  });
+
+  it('escapes HTML in the rejection reason', async () => {
+    const { html, text } = await renderTemplate('rejected', values({
+      rejectionReason: '<script>alert("x")</script> & <b>recusado</b>',
+    }));
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &lt;b&gt;recusado&lt;/b&gt;');
+    // The plain-text part is not HTML and keeps the value as typed
+    expect(text).toContain('<script>alert("x")</script> & <b>recusado</b>');
+  });
+
+  it('escapes HTML in the description', async () => {
+    const { html } = await renderTemplate('approved', values({
+      description: '<img src=x onerror="alert(1)"> **ok**',
+    }));
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <strong>ok</strong>');
+  });
+});
@@ -0,0 +1,58 @@
+import { escapeHtml } from "./markdown.ts";
+
+export type TemplateName =
+  | 'approved'
+  | 'rejected'
+  | 'info_requested'
+  | 'payment_scheduled'
+  | 'payment_paid'
+  | 'payment_reversed'
+  | 'appeal_granted'
+  | 'appeal_denied';
+
+// Only the current templates are kept; bump when the files under templates/ change so
+// notification_log.template_version records which revision each email was sent with
+export const TEMPLATE_VERSION = 'v5';
+
+const subjects: Record<TemplateName, string> = {
+  approved: '✅ Solicitação Ombro Amigo Aprovada',
+  rejected: '❌ Solicitação Ombro Amigo Recusada',
+  info_requested: '📝 Solicitação Ombro Amigo: informações adicionais necessárias',
+  payment_scheduled: '📅 Ombro Amigo: pagamento agendado',
+  payment_paid: '💰 Ombro Amigo: pagamento realizado',
+  payment_reversed: '↩️ Ombro Amigo: pagamento estornado',
+  appeal_granted: '✅ Ombro Amigo: recurso deferido',
+  appeal_denied: '⚖️ Ombro Amigo: recurso indeferido',
+};
+
+const loadTemplate = (name: TemplateName, extension: 'html' | 'txt') =>
+  Deno.readTextFile(new URL(`./templates/${name}.${extension}`, import.meta.url));
+
+/**
+ * Replaces {{placeholder}} tokens, HTML-escaping the value when `escape` is set.
+ * {{{placeholder}}} always inserts the value as-is and must only receive HTML
+ * we produced ourselves (e.g. renderLimitedMarkdown output).
+ * Unknown placeholders render as empty strings.
+ */
+const interpolate = (template: string, values: Record<string, string>, escape: boolean) =>
+  template.replace(
+    /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g,
+    (_, rawKey: string | undefined, key: string | undefined) => {
+      if (rawKey) return values[rawKey] ?? '';
+      const value = values[key as string] ?? '';
+      return escape ? escapeHtml(value) : value;
+    }
+  );
+
+export const renderTemplate = async (name: TemplateName, values: Record<string, string>) => {
+  const [html, text] = await Promise.all([
+    loadTemplate(name, 'html'),
+    loadTemplate(name, 'txt'),
+  ]);
+
+  return {
+    subject: subjects[name],
+    html: interpolate(html, values, true),
+    text: interpolate(text, values, false),
+  };
+};
@@ -0,0 +1,106 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+const defaultFrom = () => Deno.env.get('EMAIL_FROM') ?? 'Ombro Amigo <no-reply@ombroamigo.local>';
+
+// Message-ID we set ourselves so the log can be matched against the SMTP server
+const generateMessageId = (from: string) => {
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? 'ombroamigo.local';
+  return `<${crypto.randomUUID()}@${domain}>`;
+};
+
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+
+  constructor(
+    private options: {
+      hostname: string;
+      port: number;
+      tls: boolean;
+      username?: string;
+      password?: string;
+      from: string;
+    }
+  ) {}
+
+  async send(message: EmailMessage) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.options.hostname,
+        port: this.options.port,
+        tls: this.options.tls,
+        auth: this.options.username
+          ? { username: this.options.username, password: this.options.password ?? '' }
+          : undefined,
+      },
+      // MailHog/Mailpit accept plain connections without STARTTLS
+      debug: this.options.tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+    });
+
+    const messageId = generateMessageId(this.options.from);
+
+    try {
+      await client.send({
+        from: this.options.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+        headers: { 'Message-ID': messageId },
+      });
+    } finally {
+      await client.close();
+    }
+
+    return { messageId };
+  }
+}
+
+// Only logs the message; used when no SMTP server is configured
+export class ConsoleTransport implements EmailTransport {
+  name = 'console';
+
+  async send(message: EmailMessage) {
+    const messageId = generateMessageId(defaultFrom());
+    console.log(`[console transport] ${messageId} to ${message.to}: ${message.subject}`);
+    console.log(message.text);
+    return { messageId };
+  }
+}
+
+export const createTransport = (): EmailTransport => {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') ?? 'smtp';
+
+  if (transport === 'console') {
+    return new ConsoleTransport();
+  }
+
+  if (transport !== 'smtp') {
+    throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  return new SmtpTransport({
+    hostname,
+    port: Number(Deno.env.get('SMTP_PORT') ?? '587'),
+    tls: Deno.env.get('SMTP_TLS') === 'true',
+    username: Deno.env.get('SMTP_USER'),
+    password: Deno.env.get('SMTP_PASSWORD'),
+    from: defaultFrom(),
+  });
+};
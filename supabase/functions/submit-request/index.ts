@@ -0,0 +1,268 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { HttpError } from "../_shared/http.ts";
+import { evaluatePolicy, ReimbursementPolicy, selectPolicy } from "../_shared/reimbursementPolicy.ts";
+import { checkEligibility, Dependent, toRequestDependent } from "../_shared/dependents.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SubmitRequestBody {
+  type: string;
+  description: string;
+  amount: number;
+  polo: string;
+  // Ids from the caller's dependent registry
+  dependentIds?: string[];
+  // Draft saved by request-drafts; it becomes the submitted request, keeping its attachments
+  draftId?: string;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new HttpError(401, 'unauthorized', 'Missing authorization header');
+    }
+
+    // Create Supabase client with service role for admin operations
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt);
+    if (userError || !user) {
+      throw new HttpError(401, 'unauthorized', 'Invalid or expired token');
+    }
+
+    const { data: caller, error: callerError } = await supabaseClient
+      .from('users')
+      .select('id, salary')
+      .eq('auth_id', user.id)
+      .single();
+
+    if (callerError || !caller) {
+      throw new HttpError(403, 'forbidden', 'Caller profile not found');
+    }
+
+    const body: SubmitRequestBody = await req.json();
+    const dependentIds = Array.from(new Set(body.dependentIds ?? []));
+    // The salary registered by HR; a value sent by the browser is never used.
+    // Without a registered salary only the policy floor applies
+    const salary = Number(caller.salary ?? 0);
+
+    if (!body.type || !body.polo) {
+      throw new HttpError(400, 'invalid_request', 'Type and polo are required');
+    }
+
+    if (!body.description || body.description.trim().length < 10) {
+      throw new HttpError(400, 'invalid_request', 'Description must have at least 10 characters');
+    }
+
+    if (!(body.amount > 0)) {
+      throw new HttpError(400, 'invalid_request', 'Amount must be greater than zero');
+    }
+
+    const { data: benefitType, error: benefitTypeError } = await supabaseClient
+      .from('benefit_types')
+      .select('code')
+      .eq('code', body.type)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (benefitTypeError) {
+      throw new Error(`Failed to load benefit type: ${benefitTypeError.message}`);
+    }
+
+    if (!benefitType) {
+      throw new HttpError(400, 'invalid_type', `Unknown or inactive benefit type: ${body.type}`);
+    }
+
+    const { data: polo, error: poloError } = await supabaseClient
+      .from('polos')
+      .select('code')
+      .eq('code', body.polo)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (poloError) {
+      throw new Error(`Failed to load polo: ${poloError.message}`);
+    }
+
+    if (!polo) {
+      throw new HttpError(400, 'invalid_polo', `Unknown or inactive polo: ${body.polo}`);
+    }
+
+    const { data: registeredDependents, error: dependentsError } = dependentIds.length > 0
+      ? await supabaseClient
+        .from('dependents')
+        .select('*')
+        .eq('user_id', caller.id)
+        .in('id', dependentIds)
+      : { data: [], error: null };
+
+    if (dependentsError) {
+      throw new Error(`Failed to load dependents: ${dependentsError.message}`);
+    }
+
+    if ((registeredDependents ?? []).length !== dependentIds.length) {
+      throw new HttpError(400, 'invalid_dependent', 'Dependents must belong to the caller');
+    }
+
+    // Eligibility is checked on the submission date, with the registry as it is now
+    const ineligible = (registeredDependents as Dependent[])
+      .map(dependent => ({ dependent, reason: checkEligibility(dependent, new Date()) }))
+      .filter(({ reason }) => reason !== null);
+
+    if (ineligible.length > 0) {
+      throw new HttpError(
+        422,
+        'dependent_ineligible',
+        `Ineligible dependents: ${ineligible.map(({ dependent, reason }) => `${dependent.id} (${reason})`).join(', ')}`
+      );
+    }
+
+    const dependents = (registeredDependents as Dependent[]).map(toRequestDependent);
+
+    const { data: policies, error: policiesError } = await supabaseClient
+      .from('reimbursement_policies')
+      .select('*')
+      .eq('active', true);
+
+    if (policiesError) {
+      throw new Error(`Failed to load policies: ${policiesError.message}`);
+    }
+
+    const policy = selectPolicy((policies ?? []) as ReimbursementPolicy[], {
+      type: body.type,
+      polo: body.polo,
+      date: new Date(),
+    });
+
+    if (!policy) {
+      throw new HttpError(422, 'no_policy', `No reimbursement policy applies to ${body.type} in ${body.polo}`);
+    }
+
+    const evaluation = evaluatePolicy(policy, { salary, dependents: dependents.length });
+    console.log('Policy evaluation:', { policyId: policy.id, version: policy.version, amount: evaluation.amount });
+
+    if (body.amount > evaluation.amount) {
+      throw new HttpError(
+        422,
+        'exceeds_policy',
+        `Requested amount ${body.amount} exceeds the policy maximum of ${evaluation.amount}`
+      );
+    }
+
+    const submittedValues = {
+      type: body.type,
+      description: body.description,
+      amount: body.amount,
+      polo: body.polo,
+      dependents,
+      declared_salary: caller.salary ?? null,
+      policy_id: policy.id,
+      policy_version: policy.version,
+    };
+
+    let createdRequest;
+    if (body.draftId) {
+      // Submission date, not the date the draft was started
+      const { data: submittedDraft, error: submitError } = await supabaseClient
+        .from('requests')
+        .update({ ...submittedValues, status: 'pending', created_at: new Date().toISOString() })
+        .eq('id', body.draftId)
+        .eq('user_id', caller.id)
+        .eq('status', 'draft')
+        .select()
+        .maybeSingle();
+
+      if (submitError) {
+        throw new Error(`Failed to submit draft: ${submitError.message}`);
+      }
+
+      if (!submittedDraft) {
+        throw new HttpError(409, 'not_draft', 'Draft was already submitted or discarded');
+      }
+
+      createdRequest = submittedDraft;
+    } else {
+      const { data: insertedRequest, error: insertError } = await supabaseClient
+        .from('requests')
+        .insert({ ...submittedValues, user_id: caller.id })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Failed to create request: ${insertError.message}`);
+      }
+
+      createdRequest = insertedRequest;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: createdRequest,
+        maxAmount: evaluation.amount,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error in submit-request function:', error);
+
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        details: 'Check function logs for more information'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
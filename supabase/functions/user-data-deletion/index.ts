@@ -67,19 +67,23 @@ const handler = async (req: Request): Promise<Response> => {
     // Delete user data in cascade order (due to foreign key constraints)
     
     // 1. Delete files from storage
-    const { data: invoices } = await supabaseClient
-      .from('invoices')
-      .select('file_url')
-      .eq('request_id', 'in', `(select id from requests where user_id = '${currentUser.id}')`);
-
-    if (invoices && invoices.length > 0) {
-      for (const invoice of invoices) {
-        const fileName = invoice.file_url.split('/').pop();
-        if (fileName) {
-          await supabaseClient.storage
-            .from('invoices')
-            .remove([`${currentUser.id}/${fileName}`]);
-        }
+    const { data: documents } = await supabaseClient
+      .from('documents')
+      .select('bucket, path, requests!inner ( user_id )')
+      .eq('requests.user_id', currentUser.id);
+
+    // Supporting documents of registered dependents (birth certificates, enrollment)
+    const { data: dependentDocuments } = await supabaseClient
+      .from('documents')
+      .select('bucket, path, dependents!inner ( user_id )')
+      .eq('dependents.user_id', currentUser.id);
+
+    const storedFiles = [...(documents ?? []), ...(dependentDocuments ?? [])];
+    if (storedFiles.length > 0) {
+      for (const document of storedFiles) {
+        await supabaseClient.storage
+          .from(document.bucket)
+          .remove([document.path]);
       }
     }
 
@@ -95,27 +99,49 @@ const handler = async (req: Request): Promise<Response> => {
       .delete()
       .eq('user_id', currentUser.id);
 
-    // 4. Delete invoices (cascade will handle via requests)
+    // 4. Delete notification log entries; their request link would only be nulled,
+    // keeping the recipient email
+    const { data: ownRequests } = await supabaseClient
+      .from('requests')
+      .select('id')
+      .eq('user_id', currentUser.id);
+
+    const requestIds = (ownRequests ?? []).map(request => request.id);
+    if (requestIds.length > 0) {
+      await supabaseClient
+        .from('notification_log')
+        .delete()
+        .in('request_id', requestIds);
+    }
+
     await supabaseClient
-      .from('invoices')
+      .from('notification_log')
       .delete()
-      .in('request_id', 
-        `(select id from requests where user_id = '${currentUser.id}')`
-      );
+      .eq('recipient', currentUser.email);
+
+    // 5. Delete document access log entries: the caller's own accesses and every access
+    // to files in their storage folder (migrated files sit under the profile id)
+    await supabaseClient
+      .from('document_access_log')
+      .delete()
+      .or(`user_id.eq.${currentUser.id},path.like.${user.id}/*,path.like.${currentUser.id}/*`);
+
+    // 6. Documents are removed by the cascade from requests; dependents and their
+    // documents by the cascade from the user profile
 
-    // 5. Delete requests
+    // 7. Delete requests
     await supabaseClient
       .from('requests')
       .delete()
       .eq('user_id', currentUser.id);
 
-    // 6. Delete user profile
+    // 8. Delete user profile
     await supabaseClient
       .from('users')
       .delete()
       .eq('id', currentUser.id);
 
-    // 7. Delete auth user (this should be done last)
+    // 9. Delete auth user (this should be done last)
     const { error: authDeleteError } = await supabaseClient.auth.admin.deleteUser(user.id);
     if (authDeleteError) {
       console.error('Failed to delete auth user:', authDeleteError);
@@ -0,0 +1,3 @@
+-- Adicionar papel de administrador ao enum de usuários
+-- (valor novo precisa ser commitado antes de ser usado nas funções da próxima migration)
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,157 @@
+-- Papéis passam a ser atribuídos por administradores; o cadastro sempre cria um solicitante
+
+-- Função security definer para verificar se o usuário é admin
+CREATE OR REPLACE FUNCTION public.is_admin(user_auth_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users 
+    WHERE auth_id = user_auth_id 
+    AND role = 'admin'::user_role
+  );
+$$;
+
+-- Admins também têm acesso às telas e ações de gestora
+CREATE OR REPLACE FUNCTION public.is_gestora(user_auth_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users 
+    WHERE auth_id = user_auth_id 
+    AND role IN ('gestora'::user_role, 'admin'::user_role)
+  );
+$$;
+
+-- Ignorar o papel enviado no cadastro: todo novo usuário é solicitante
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.users (auth_id, name, email, role)
+  VALUES (
+    new.id,
+    coalesce(new.raw_user_meta_data->>'name', split_part(new.email, '@', 1)),
+    new.email,
+    'solicitante'::user_role
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Polos sob responsabilidade de cada gestora
+CREATE TABLE public.gestora_polos (
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  polo polo_type NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, polo)
+);
+
+ALTER TABLE public.gestora_polos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Gestoras can view their own polos" 
+ON public.gestora_polos 
+FOR SELECT 
+USING (
+  user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+);
+
+CREATE POLICY "Admins can view all gestora polos" 
+ON public.gestora_polos 
+FOR SELECT 
+USING (public.is_admin(auth.uid()));
+
+-- Admins podem alterar papéis de outros usuários
+CREATE POLICY "Enable admins to update users" 
+ON public.users 
+FOR UPDATE 
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can view audit logs" 
+ON public.audit_logs 
+FOR SELECT 
+USING (public.is_admin(auth.uid()));
+
+-- Impede que usuários alterem o próprio papel pela policy de atualização de perfil
+-- e registra toda mudança de papel em audit_logs
+CREATE OR REPLACE FUNCTION public.guard_user_role_change()
+RETURNS trigger AS $$
+BEGIN
+  IF old.role IS DISTINCT FROM new.role THEN
+    -- auth.uid() é nulo para o service role, que pode alterar papéis livremente
+    IF auth.uid() IS NOT NULL AND NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can change user roles'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF auth.uid() IS NOT NULL AND old.auth_id = auth.uid() THEN
+      RAISE EXCEPTION 'Admins cannot change their own role'
+        USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.audit_logs (user_id, action, old_values, new_values)
+    VALUES (
+      (SELECT id FROM public.users WHERE auth_id = auth.uid()),
+      'role_change',
+      jsonb_build_object('user_id', old.id, 'role', old.role),
+      jsonb_build_object('user_id', new.id, 'role', new.role)
+    );
+
+    -- Ao deixar de ser gestora, o escopo de polos deixa de valer
+    IF new.role = 'solicitante'::user_role THEN
+      DELETE FROM public.gestora_polos WHERE user_id = new.id;
+    END IF;
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_user_role_change
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE PROCEDURE public.guard_user_role_change();
+
+-- Substitui os polos de uma gestora, registrando a alteração em audit_logs
+CREATE OR REPLACE FUNCTION public.set_gestora_polos(target_user_id uuid, new_polos polo_type[])
+RETURNS void AS $$
+DECLARE
+  previous_polos polo_type[];
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change gestora polos'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = target_user_id
+    AND role IN ('gestora'::user_role, 'admin'::user_role)
+  ) THEN
+    RAISE EXCEPTION 'Polos can only be assigned to gestoras';
+  END IF;
+
+  SELECT coalesce(array_agg(polo ORDER BY polo), '{}')
+  INTO previous_polos
+  FROM public.gestora_polos
+  WHERE user_id = target_user_id;
+
+  DELETE FROM public.gestora_polos WHERE user_id = target_user_id;
+
+  INSERT INTO public.gestora_polos (user_id, polo)
+  SELECT target_user_id, p FROM unnest(new_polos) AS p
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.audit_logs (user_id, action, old_values, new_values)
+  VALUES (
+    (SELECT id FROM public.users WHERE auth_id = auth.uid()),
+    'polo_scope_change',
+    jsonb_build_object('user_id', target_user_id, 'polos', previous_polos),
+    jsonb_build_object('user_id', target_user_id, 'polos', new_polos)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
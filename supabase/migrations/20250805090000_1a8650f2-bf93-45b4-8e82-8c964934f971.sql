@@ -0,0 +1,2 @@
+-- Novo status para quando a gestora precisa de mais informações do solicitante
+ALTER TYPE request_status ADD VALUE IF NOT EXISTS 'info_requested';
@@ -0,0 +1,34 @@
+-- Histórico das rodadas de "mais informações" entre gestora e solicitante
+CREATE TABLE public.request_info_rounds (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL,
+  requested_by uuid REFERENCES public.users(id) NOT NULL,
+  question text NOT NULL,
+  requested_at timestamptz DEFAULT now(),
+  response text,
+  responded_at timestamptz,
+  -- Valores da solicitação antes e depois do reenvio (descrição, valor, anexos)
+  previous_values jsonb,
+  resubmitted_values jsonb
+);
+
+CREATE INDEX request_info_rounds_request_id_idx ON public.request_info_rounds (request_id);
+
+ALTER TABLE public.request_info_rounds ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pela função request-management (service role)
+CREATE POLICY "Users can view info rounds on their requests" 
+ON public.request_info_rounds 
+FOR SELECT 
+USING (
+  request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Gestoras can view all info rounds" 
+ON public.request_info_rounds 
+FOR SELECT 
+USING (public.is_gestora(auth.uid()));
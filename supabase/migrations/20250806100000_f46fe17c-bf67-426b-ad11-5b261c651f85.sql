@@ -0,0 +1,48 @@
+-- Corrigir policies de comments: notas internas ficam visíveis apenas para gestoras
+DROP POLICY IF EXISTS "Users can view comments on their requests" ON public.comments;
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+
+CREATE POLICY "Users can view public comments on their requests" 
+ON public.comments 
+FOR SELECT 
+USING (
+  is_internal = false
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Gestoras can view all comments" 
+ON public.comments 
+FOR SELECT 
+USING (public.is_gestora(auth.uid()));
+
+-- Solicitantes só comentam publicamente nas próprias solicitações
+CREATE POLICY "Users can comment on their requests" 
+ON public.comments 
+FOR INSERT 
+WITH CHECK (
+  is_internal = false
+  AND user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Gestoras can comment on any request" 
+ON public.comments 
+FOR INSERT 
+WITH CHECK (
+  public.is_gestora(auth.uid())
+  AND user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+);
+
+CREATE INDEX IF NOT EXISTS comments_request_id_idx ON public.comments (request_id);
+
+-- Atualização em tempo real da conversa
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
@@ -0,0 +1,28 @@
+-- Registro de cada envio de notificação por email
+CREATE TYPE notification_status AS ENUM ('pending', 'sent', 'failed');
+
+CREATE TABLE public.notification_log (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE SET NULL,
+  recipient text NOT NULL,
+  template text NOT NULL,
+  template_version text NOT NULL,
+  subject text NOT NULL,
+  transport text NOT NULL,
+  status notification_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  provider_message_id text,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX notification_log_request_id_idx ON public.notification_log (request_id);
+
+ALTER TABLE public.notification_log ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pela função send-notification-email (service role)
+CREATE POLICY "Gestoras can view notification log" 
+ON public.notification_log 
+FOR SELECT 
+USING (public.is_gestora(auth.uid()));
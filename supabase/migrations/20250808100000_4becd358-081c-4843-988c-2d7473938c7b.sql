@@ -0,0 +1,66 @@
+-- Políticas de reembolso configuráveis pelo RH (substituem as constantes do formulário)
+CREATE TABLE public.reimbursement_policies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Cada linha é uma versão imutável; para alterar uma política, crie uma nova versão
+  version integer GENERATED ALWAYS AS IDENTITY,
+  name text NOT NULL,
+  -- Nulo significa "qualquer tipo" / "qualquer polo"
+  request_type request_type,
+  polo polo_type,
+  effective_from date NOT NULL,
+  effective_to date,
+  percentage numeric(5,4) NOT NULL CHECK (percentage >= 0),
+  floor numeric(12,2) NOT NULL DEFAULT 0 CHECK (floor >= 0),
+  ceiling numeric(12,2) CHECK (ceiling IS NULL OR ceiling >= floor),
+  dependent_multiplier numeric(5,4) NOT NULL DEFAULT 0 CHECK (dependent_multiplier >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+ALTER TABLE public.reimbursement_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view policies" 
+ON public.reimbursement_policies 
+FOR SELECT 
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can create policies" 
+ON public.reimbursement_policies 
+FOR INSERT 
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update policies" 
+ON public.reimbursement_policies 
+FOR UPDATE 
+USING (public.is_admin(auth.uid()));
+
+-- Versões são imutáveis: apenas ativação e fim de vigência podem mudar
+CREATE OR REPLACE FUNCTION public.guard_reimbursement_policy_update()
+RETURNS trigger AS $$
+BEGIN
+  IF (new.name, new.request_type, new.polo, new.effective_from, new.percentage, new.floor, new.ceiling, new.dependent_multiplier)
+     IS DISTINCT FROM
+     (old.name, old.request_type, old.polo, old.effective_from, old.percentage, old.floor, old.ceiling, old.dependent_multiplier) THEN
+    RAISE EXCEPTION 'Policy versions are immutable; create a new version instead';
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_reimbursement_policy_update
+  BEFORE UPDATE ON public.reimbursement_policies
+  FOR EACH ROW EXECUTE PROCEDURE public.guard_reimbursement_policy_update();
+
+-- Política padrão equivalente ao cálculo fixo anterior (90% do salário, piso de R$ 2.018,36)
+INSERT INTO public.reimbursement_policies (name, effective_from, percentage, floor)
+VALUES ('Política geral', '2025-01-01', 0.9, 2018.36);
+
+-- Cada solicitação guarda a versão da política usada no cálculo
+ALTER TABLE public.requests ADD COLUMN policy_id uuid REFERENCES public.reimbursement_policies(id);
+ALTER TABLE public.requests ADD COLUMN policy_version integer;
+ALTER TABLE public.requests ADD COLUMN declared_salary numeric(12,2);
+
+-- Solicitações passam a ser criadas pela função submit-request, que aplica a política
+DROP POLICY IF EXISTS "Users can create their own requests" ON public.requests;
@@ -0,0 +1,39 @@
+-- Tetos anuais de benefício por tipo de auxílio, contabilizados por colaborador
+CREATE TABLE public.benefit_caps (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Nulo significa um teto global somando todos os tipos
+  request_type request_type,
+  annual_limit numeric(12,2) NOT NULL CHECK (annual_limit > 0),
+  -- Quando preenchido, cada dependente também tem seu próprio teto anual
+  per_dependent_limit numeric(12,2) CHECK (per_dependent_limit IS NULL OR per_dependent_limit > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Apenas um teto ativo por tipo (e um global)
+CREATE UNIQUE INDEX benefit_caps_active_type_idx
+  ON public.benefit_caps (coalesce(request_type::text, '*'))
+  WHERE active;
+
+ALTER TABLE public.benefit_caps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view benefit caps" 
+ON public.benefit_caps 
+FOR SELECT 
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can create benefit caps" 
+ON public.benefit_caps 
+FOR INSERT 
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update benefit caps" 
+ON public.benefit_caps 
+FOR UPDATE 
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_benefit_caps_updated_at
+  BEFORE UPDATE ON public.benefit_caps
+  FOR EACH ROW EXECUTE PROCEDURE public.update_updated_at_column();
@@ -0,0 +1,13 @@
+-- Aprovação parcial: valor aprovado pode ser menor que o solicitado, com justificativa
+ALTER TABLE public.requests
+  ADD COLUMN approved_amount numeric(12,2),
+  ADD COLUMN approval_justification text;
+
+ALTER TABLE public.requests
+  ADD CONSTRAINT requests_approved_amount_check
+  CHECK (approved_amount IS NULL OR (approved_amount > 0 AND approved_amount <= amount));
+
+-- Solicitações já aprovadas foram aprovadas pelo valor integral
+UPDATE public.requests
+SET approved_amount = amount
+WHERE status = 'approved';
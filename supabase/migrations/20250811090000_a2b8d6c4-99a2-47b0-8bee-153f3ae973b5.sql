@@ -0,0 +1,6 @@
+-- Papel do financeiro, responsável por registrar pagamentos
+-- (valor novo precisa ser commitado antes de ser usado nas funções da próxima migration)
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'financeiro';
+
+-- Ciclo de pagamento de solicitações aprovadas
+CREATE TYPE payment_status AS ENUM ('scheduled', 'paid', 'reversed');
@@ -0,0 +1,87 @@
+-- Ciclo de pagamento após a aprovação: agendado, pago e estornado
+
+-- Admins também têm acesso às ações do financeiro
+CREATE OR REPLACE FUNCTION public.is_financeiro(user_auth_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users 
+    WHERE auth_id = user_auth_id 
+    AND role IN ('financeiro'::user_role, 'admin'::user_role)
+  );
+$$;
+
+-- Gestoras e financeiro podem registrar pagamentos
+CREATE OR REPLACE FUNCTION public.can_manage_payments(user_auth_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_gestora(user_auth_id) OR public.is_financeiro(user_auth_id);
+$$;
+
+ALTER TABLE public.requests
+  ADD COLUMN payment_status payment_status,
+  ADD COLUMN payment_date date,
+  ADD COLUMN payment_method text,
+  ADD COLUMN payroll_reference text,
+  ADD COLUMN payment_reversal_reason text,
+  ADD COLUMN payment_updated_by uuid REFERENCES public.users(id),
+  ADD COLUMN payment_updated_at timestamptz;
+
+-- Só solicitações aprovadas entram no ciclo de pagamento
+ALTER TABLE public.requests
+  ADD CONSTRAINT requests_payment_requires_approval_check
+  CHECK (payment_status IS NULL OR status = 'approved');
+
+CREATE INDEX requests_payment_status_idx ON public.requests (payment_status) WHERE status = 'approved';
+
+-- O financeiro enxerga apenas o que já foi aprovado
+CREATE POLICY "Financeiro can view approved requests" 
+ON public.requests 
+FOR SELECT 
+USING (public.is_financeiro(auth.uid()) AND status = 'approved');
+
+CREATE POLICY "Financeiro can view all users" 
+ON public.users 
+FOR SELECT 
+USING (public.is_financeiro(auth.uid()));
+
+-- Escopo de polos só vale para gestoras e admins
+CREATE OR REPLACE FUNCTION public.guard_user_role_change()
+RETURNS trigger AS $$
+BEGIN
+  IF old.role IS DISTINCT FROM new.role THEN
+    -- auth.uid() é nulo para o service role, que pode alterar papéis livremente
+    IF auth.uid() IS NOT NULL AND NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can change user roles'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF auth.uid() IS NOT NULL AND old.auth_id = auth.uid() THEN
+      RAISE EXCEPTION 'Admins cannot change their own role'
+        USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.audit_logs (user_id, action, old_values, new_values)
+    VALUES (
+      (SELECT id FROM public.users WHERE auth_id = auth.uid()),
+      'role_change',
+      jsonb_build_object('user_id', old.id, 'role', old.role),
+      jsonb_build_object('user_id', new.id, 'role', new.role)
+    );
+
+    -- Ao deixar de ser gestora, o escopo de polos deixa de valer
+    IF new.role NOT IN ('gestora'::user_role, 'admin'::user_role) THEN
+      DELETE FROM public.gestora_polos WHERE user_id = new.id;
+    END IF;
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,66 @@
+-- Catálogo de tipos de auxílio gerenciado por admins, substituindo o enum request_type
+-- (o enum foi recriado em 20250731005600 com valores diferentes dos usados no frontend)
+CREATE TABLE public.benefit_types (
+  -- Código gravado em requests.type; não muda depois de criado
+  code text PRIMARY KEY CHECK (code <> '' AND code = lower(btrim(code))),
+  label text NOT NULL,
+  -- Nome de um ícone do lucide-react da lista suportada pelo frontend
+  icon text NOT NULL DEFAULT 'HelpCircle',
+  required_documents text[] NOT NULL DEFAULT '{}',
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.benefit_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view benefit types" 
+ON public.benefit_types 
+FOR SELECT 
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can create benefit types" 
+ON public.benefit_types 
+FOR INSERT 
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update benefit types" 
+ON public.benefit_types 
+FOR UPDATE 
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_benefit_types_updated_at
+  BEFORE UPDATE ON public.benefit_types
+  FOR EACH ROW EXECUTE PROCEDURE public.update_updated_at_column();
+
+-- Tipos usados pelo formulário e, inativos, os valores do enum antigo para preservar registros existentes
+INSERT INTO public.benefit_types (code, label, icon, required_documents, active, sort_order) VALUES
+  ('psicológico', 'Auxílio Psicológico', 'Brain', ARRAY['Recibo ou nota fiscal da sessão'], true, 10),
+  ('médico', 'Auxílio Médico', 'Stethoscope', ARRAY['Recibo ou nota fiscal da consulta', 'Pedido ou relatório médico'], true, 20),
+  ('odontológico', 'Auxílio Odontológico', 'Smile', ARRAY['Recibo ou nota fiscal do tratamento'], true, 30),
+  ('fisioterapia', 'Fisioterapia', 'Activity', ARRAY['Recibo ou nota fiscal das sessões', 'Prescrição médica'], true, 40),
+  ('outros', 'Outros', 'HelpCircle', ARRAY['Comprovante da despesa'], true, 90),
+  ('alimentacao', 'Alimentação', 'Utensils', '{}', false, 100),
+  ('medicamentos', 'Medicamentos', 'Pill', '{}', false, 110),
+  ('transporte', 'Transporte', 'Bus', '{}', false, 120),
+  ('educacao', 'Educação', 'GraduationCap', '{}', false, 130);
+
+-- requests.type pode ter sido removida pelo DROP TYPE ... CASCADE de 20250731005600
+ALTER TABLE public.requests ADD COLUMN IF NOT EXISTS type text;
+ALTER TABLE public.requests ALTER COLUMN type TYPE text USING type::text;
+UPDATE public.requests SET type = 'outros' WHERE type IS NULL;
+ALTER TABLE public.requests ALTER COLUMN type SET NOT NULL;
+ALTER TABLE public.requests
+  ADD CONSTRAINT requests_type_fkey FOREIGN KEY (type) REFERENCES public.benefit_types(code);
+
+-- Políticas e tetos passam a apontar para o catálogo
+ALTER TABLE public.reimbursement_policies ALTER COLUMN request_type TYPE text USING request_type::text;
+ALTER TABLE public.reimbursement_policies
+  ADD CONSTRAINT reimbursement_policies_request_type_fkey FOREIGN KEY (request_type) REFERENCES public.benefit_types(code);
+
+ALTER TABLE public.benefit_caps ALTER COLUMN request_type TYPE text USING request_type::text;
+ALTER TABLE public.benefit_caps
+  ADD CONSTRAINT benefit_caps_request_type_fkey FOREIGN KEY (request_type) REFERENCES public.benefit_types(code);
+
+DROP TYPE IF EXISTS request_type;
@@ -0,0 +1,107 @@
+-- Cadastro de polos gerenciado por admins, substituindo o enum polo_type
+CREATE TABLE public.polos (
+  -- Código gravado em users, requests, políticas e escopo das gestoras; não muda depois de criado
+  code text PRIMARY KEY CHECK (code <> '' AND code = lower(btrim(code))),
+  name text NOT NULL UNIQUE,
+  region text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.polos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view polos" 
+ON public.polos 
+FOR SELECT 
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can create polos" 
+ON public.polos 
+FOR INSERT 
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update polos" 
+ON public.polos 
+FOR UPDATE 
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_polos_updated_at
+  BEFORE UPDATE ON public.polos
+  FOR EACH ROW EXECUTE PROCEDURE public.update_updated_at_column();
+
+INSERT INTO public.polos (code, name, region) VALUES
+  ('sumare', '3M Sumaré', 'Sudeste'),
+  ('manaus', 'Manaus', 'Norte'),
+  ('ribeirao_preto', 'Ribeirão Preto', 'Sudeste'),
+  ('itapetininga', 'Itapetininga', 'Sudeste');
+
+-- Converte os valores gravados (nomes do enum) para os códigos do cadastro
+ALTER TABLE public.users ALTER COLUMN polo TYPE text USING polo::text;
+UPDATE public.users u SET polo = p.code FROM public.polos p WHERE u.polo = p.name;
+
+-- requests.polo era texto livre; valores desconhecidos não têm polo correspondente
+UPDATE public.requests r SET polo = p.code FROM public.polos p WHERE r.polo = p.name;
+UPDATE public.requests SET polo = NULL WHERE polo NOT IN (SELECT code FROM public.polos);
+
+ALTER TABLE public.gestora_polos ALTER COLUMN polo TYPE text USING polo::text;
+UPDATE public.gestora_polos g SET polo = p.code FROM public.polos p WHERE g.polo = p.name;
+
+-- Versões de política são imutáveis; a troca de nome por código não altera a regra
+ALTER TABLE public.reimbursement_policies DISABLE TRIGGER guard_reimbursement_policy_update;
+ALTER TABLE public.reimbursement_policies ALTER COLUMN polo TYPE text USING polo::text;
+UPDATE public.reimbursement_policies r SET polo = p.code FROM public.polos p WHERE r.polo = p.name;
+ALTER TABLE public.reimbursement_policies ENABLE TRIGGER guard_reimbursement_policy_update;
+
+ALTER TABLE public.users
+  ADD CONSTRAINT users_polo_fkey FOREIGN KEY (polo) REFERENCES public.polos(code);
+ALTER TABLE public.requests
+  ADD CONSTRAINT requests_polo_fkey FOREIGN KEY (polo) REFERENCES public.polos(code);
+ALTER TABLE public.gestora_polos
+  ADD CONSTRAINT gestora_polos_polo_fkey FOREIGN KEY (polo) REFERENCES public.polos(code);
+ALTER TABLE public.reimbursement_policies
+  ADD CONSTRAINT reimbursement_policies_polo_fkey FOREIGN KEY (polo) REFERENCES public.polos(code);
+
+-- Mesma função, agora recebendo códigos do cadastro de polos
+DROP FUNCTION public.set_gestora_polos(uuid, polo_type[]);
+
+CREATE OR REPLACE FUNCTION public.set_gestora_polos(target_user_id uuid, new_polos text[])
+RETURNS void AS $$
+DECLARE
+  previous_polos text[];
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change gestora polos'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = target_user_id
+    AND role IN ('gestora'::user_role, 'admin'::user_role)
+  ) THEN
+    RAISE EXCEPTION 'Polos can only be assigned to gestoras';
+  END IF;
+
+  SELECT coalesce(array_agg(polo ORDER BY polo), '{}')
+  INTO previous_polos
+  FROM public.gestora_polos
+  WHERE user_id = target_user_id;
+
+  DELETE FROM public.gestora_polos WHERE user_id = target_user_id;
+
+  INSERT INTO public.gestora_polos (user_id, polo)
+  SELECT target_user_id, p FROM unnest(new_polos) AS p
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.audit_logs (user_id, action, old_values, new_values)
+  VALUES (
+    (SELECT id FROM public.users WHERE auth_id = auth.uid()),
+    'polo_scope_change',
+    jsonb_build_object('user_id', target_user_id, 'polos', previous_polos),
+    jsonb_build_object('user_id', target_user_id, 'polos', new_polos)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TYPE IF EXISTS polo_type;
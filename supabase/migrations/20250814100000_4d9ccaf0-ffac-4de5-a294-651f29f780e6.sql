@@ -0,0 +1,113 @@
+-- Escopo das gestoras por polo: cada gestora enxerga e decide apenas solicitações dos polos atribuídos em gestora_polos.
+-- Admins mantêm visibilidade global; solicitações sem polo ficam visíveis apenas para admins.
+
+CREATE OR REPLACE FUNCTION public.can_manage_polo(user_auth_id uuid, target_polo text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin(user_auth_id) OR EXISTS (
+    SELECT 1 FROM public.gestora_polos gp
+    JOIN public.users u ON u.id = gp.user_id
+    WHERE u.auth_id = user_auth_id
+    AND u.role = 'gestora'::user_role
+    AND gp.polo = target_polo
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_request(user_auth_id uuid, target_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.requests
+    WHERE id = target_request_id
+    AND public.can_manage_polo(user_auth_id, polo)
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS requests_polo_idx ON public.requests (polo);
+
+-- Solicitações
+DROP POLICY IF EXISTS "Gestoras can view all requests" ON public.requests;
+-- Sem policy de UPDATE: decisões, valores e pagamentos passam pelas funções
+-- request-management e payment-management (service role), que validam a transição
+DROP POLICY IF EXISTS "Gestoras can update requests" ON public.requests;
+
+CREATE POLICY "Gestoras can view requests from their polos" 
+ON public.requests 
+FOR SELECT 
+USING (public.can_manage_polo(auth.uid(), polo));
+
+-- Notas fiscais
+DROP POLICY IF EXISTS "Gestoras can view all invoices" ON public.invoices;
+
+CREATE POLICY "Gestoras can view invoices from their polos" 
+ON public.invoices 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
+
+-- Comentários
+DROP POLICY IF EXISTS "Gestoras can view all comments" ON public.comments;
+DROP POLICY IF EXISTS "Gestoras can comment on any request" ON public.comments;
+
+CREATE POLICY "Gestoras can view comments from their polos" 
+ON public.comments 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
+
+CREATE POLICY "Gestoras can comment on requests from their polos" 
+ON public.comments 
+FOR INSERT 
+WITH CHECK (
+  public.can_manage_request(auth.uid(), request_id)
+  AND user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+);
+
+-- Rodadas de informação e log de notificações seguem o mesmo escopo
+DROP POLICY IF EXISTS "Gestoras can view all info rounds" ON public.request_info_rounds;
+
+CREATE POLICY "Gestoras can view info rounds from their polos" 
+ON public.request_info_rounds 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
+
+DROP POLICY IF EXISTS "Gestoras can view notification log" ON public.notification_log;
+
+CREATE POLICY "Gestoras can view notification log from their polos" 
+ON public.notification_log 
+FOR SELECT 
+USING (public.is_admin(auth.uid()) OR public.can_manage_request(auth.uid(), request_id));
+
+-- Storage: anexos e notas fiscais só para gestoras do polo da solicitação
+DROP POLICY IF EXISTS "Gestoras can view all attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Gestoras can view all invoices" ON storage.objects;
+
+CREATE POLICY "Gestoras can view attachments from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'request-attachments' 
+  AND EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE objects.name = ANY (r.attachments)
+    AND public.can_manage_polo(auth.uid(), r.polo)
+  )
+);
+
+CREATE POLICY "Gestoras can view invoices from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'invoices' 
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.file_url LIKE '%' || objects.name
+    AND public.can_manage_request(auth.uid(), i.request_id)
+  )
+);
@@ -0,0 +1,45 @@
+-- Buckets privados: comprovantes de saúde só são servidos por URLs assinadas de curta duração,
+-- emitidas pela função document-access após a mesma checagem de acesso do RLS
+UPDATE storage.buckets 
+SET public = false 
+WHERE id IN ('request-attachments', 'invoices');
+
+-- invoices.file_url passa a guardar o caminho no bucket em vez da URL pública
+UPDATE public.invoices 
+SET file_url = regexp_replace(file_url, '^.*/storage/v1/object/public/invoices/', '')
+WHERE file_url LIKE 'http%/storage/v1/object/public/invoices/%';
+
+DROP POLICY IF EXISTS "Gestoras can view invoices from their polos" ON storage.objects;
+
+CREATE POLICY "Gestoras can view invoices from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'invoices' 
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.file_url = objects.name
+    AND public.can_manage_request(auth.uid(), i.request_id)
+  )
+);
+
+-- Registro de cada URL assinada emitida
+CREATE TABLE public.document_access_log (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE SET NULL,
+  user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  bucket text NOT NULL,
+  path text NOT NULL,
+  action text NOT NULL CHECK (action IN ('view', 'download')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX document_access_log_request_id_idx ON public.document_access_log (request_id);
+
+ALTER TABLE public.document_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pela função document-access (service role)
+CREATE POLICY "Admins can view document access log" 
+ON public.document_access_log 
+FOR SELECT 
+USING (public.is_admin(auth.uid()));
@@ -0,0 +1,106 @@
+-- Modelo único de documentos: substitui requests.attachments (caminhos soltos) e a tabela invoices
+CREATE TABLE public.documents (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL,
+  uploaded_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Novos envios vão para request-attachments; invoices guarda apenas arquivos migrados
+  bucket text NOT NULL DEFAULT 'request-attachments' CHECK (bucket IN ('request-attachments', 'invoices')),
+  path text NOT NULL,
+  file_name text NOT NULL,
+  category text NOT NULL DEFAULT 'comprovante' CHECK (category IN ('comprovante', 'nota_fiscal', 'receita', 'laudo', 'outros')),
+  mime_type text,
+  size bigint,
+  -- SHA-256 em hexadecimal; nulo para arquivos migrados
+  checksum text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (bucket, path)
+);
+
+CREATE INDEX documents_request_id_idx ON public.documents (request_id);
+
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view documents of their requests" 
+ON public.documents 
+FOR SELECT 
+USING (
+  request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+-- Solicitantes anexam documentos enquanto a solicitação está em análise; remoções passam pela função request-management
+-- O arquivo precisa estar na pasta do próprio usuário no storage, senão daria para registrar o arquivo de outra pessoa
+CREATE POLICY "Users can add documents to their open requests" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND r.status IN ('pending'::request_status, 'info_requested'::request_status)
+  )
+);
+
+CREATE POLICY "Gestoras can view documents from their polos" 
+ON public.documents 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
+
+-- Migração única dos anexos existentes; tamanho e tipo vêm dos metadados do storage
+INSERT INTO public.documents (request_id, uploaded_by, bucket, path, file_name, category, mime_type, size, created_at)
+SELECT
+  r.id,
+  r.user_id,
+  'request-attachments',
+  a.path,
+  regexp_replace(a.path, '^.*/([0-9]+-)?', ''),
+  'comprovante',
+  o.metadata->>'mimetype',
+  (o.metadata->>'size')::bigint,
+  r.created_at
+FROM public.requests r
+CROSS JOIN LATERAL unnest(r.attachments) AS a(path)
+LEFT JOIN storage.objects o ON o.bucket_id = 'request-attachments' AND o.name = a.path
+ON CONFLICT (bucket, path) DO NOTHING;
+
+INSERT INTO public.documents (request_id, uploaded_by, bucket, path, file_name, category, mime_type, size, created_at)
+SELECT
+  i.request_id,
+  r.user_id,
+  'invoices',
+  i.file_url,
+  i.file_name,
+  'nota_fiscal',
+  i.mime_type,
+  i.file_size,
+  i.uploaded_at
+FROM public.invoices i
+JOIN public.requests r ON r.id = i.request_id
+ON CONFLICT (bucket, path) DO NOTHING;
+
+-- Storage: o acesso das gestoras passa a seguir a tabela documents nos dois buckets
+DROP POLICY IF EXISTS "Gestoras can view attachments from their polos" ON storage.objects;
+DROP POLICY IF EXISTS "Gestoras can view invoices from their polos" ON storage.objects;
+
+CREATE POLICY "Gestoras can view documents from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id IN ('request-attachments', 'invoices') 
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.bucket = objects.bucket_id
+    AND d.path = objects.name
+    AND public.can_manage_request(auth.uid(), d.request_id)
+  )
+);
+
+DROP TABLE public.invoices;
+ALTER TABLE public.requests DROP COLUMN attachments;
@@ -0,0 +1,59 @@
+-- Quarentena de documentos: todo upload é validado (assinatura, tamanho) e passa pelo antivírus
+-- na função scan-document antes de ficar visível para as gestoras
+ALTER TABLE public.documents
+  ADD COLUMN scan_status text NOT NULL DEFAULT 'pending' CHECK (scan_status IN ('pending', 'clean', 'rejected', 'infected', 'error')),
+  ADD COLUMN scan_detail text,
+  ADD COLUMN scanned_at timestamptz;
+
+-- Arquivos migrados foram enviados antes da quarentena e já estavam acessíveis
+UPDATE public.documents 
+SET scan_status = 'clean', scan_detail = 'Enviado antes da verificação de arquivos', scanned_at = now();
+
+DROP POLICY IF EXISTS "Gestoras can view documents from their polos" ON public.documents;
+
+CREATE POLICY "Gestoras can view documents from their polos" 
+ON public.documents 
+FOR SELECT 
+USING (scan_status = 'clean' AND public.can_manage_request(auth.uid(), request_id));
+
+DROP POLICY IF EXISTS "Gestoras can view documents from their polos" ON storage.objects;
+
+CREATE POLICY "Gestoras can view documents from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id IN ('request-attachments', 'invoices') 
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.bucket = objects.bucket_id
+    AND d.path = objects.name
+    AND d.scan_status = 'clean'
+    AND public.can_manage_request(auth.uid(), d.request_id)
+  )
+);
+
+-- Novos documentos sempre entram em quarentena; só a função scan-document (service role) muda o status
+DROP POLICY IF EXISTS "Users can add documents to their open requests" ON public.documents;
+
+CREATE POLICY "Users can add documents to their open requests" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND scan_status = 'pending'
+  AND scanned_at IS NULL
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND r.status IN ('pending'::request_status, 'info_requested'::request_status)
+  )
+);
+
+-- O bucket acompanha os formatos e o limite por arquivo validados no cliente e na função
+UPDATE storage.buckets 
+SET file_size_limit = 10485760, -- 10MB
+    allowed_mime_types = ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+WHERE id = 'request-attachments';
@@ -0,0 +1,31 @@
+-- Dados estruturados de notas fiscais eletrônicas (NF-e / NFS-e) enviadas em XML
+ALTER TABLE public.documents 
+  ADD COLUMN invoice_data jsonb;
+
+COMMENT ON COLUMN public.documents.invoice_data IS 'CNPJ do emitente, data de emissão, valor total e descrição extraídos do XML pela função scan-document';
+
+-- Só a função scan-document (service role) grava os dados da nota, depois de ler o arquivo armazenado
+DROP POLICY IF EXISTS "Users can add documents to their open requests" ON public.documents;
+
+CREATE POLICY "Users can add documents to their open requests" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND scan_status = 'pending'
+  AND scanned_at IS NULL
+  AND invoice_data IS NULL
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND r.status IN ('pending'::request_status, 'info_requested'::request_status)
+  )
+);
+
+-- XML da nota fiscal passa a ser aceito no bucket
+UPDATE storage.buckets 
+SET allowed_mime_types = ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'text/xml', 'application/xml']
+WHERE id = 'request-attachments';
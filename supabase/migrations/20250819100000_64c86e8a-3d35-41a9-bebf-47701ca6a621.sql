@@ -0,0 +1,5 @@
+-- Valores lidos automaticamente (OCR ou texto do PDF) dos comprovantes no navegador do solicitante
+ALTER TABLE public.documents 
+  ADD COLUMN ocr_data jsonb;
+
+COMMENT ON COLUMN public.documents.ocr_data IS 'Valor total, data e CNPJ/CPF do prestador lidos no navegador; indicativo para a gestora, não substitui a conferência do documento';
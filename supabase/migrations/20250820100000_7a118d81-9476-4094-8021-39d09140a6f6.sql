@@ -0,0 +1,26 @@
+-- Possíveis duplicatas: o mesmo comprovante anexado em mais de uma solicitação.
+-- Preenchida pela função scan-document (service role) quando o documento é liberado
+CREATE TABLE public.document_duplicates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id uuid REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL,
+  duplicate_document_id uuid REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  duplicate_request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL,
+  -- checksum: arquivo idêntico; invoice_reference: mesma nota fiscal;
+  -- receipt_data: mesmo prestador, data e valor (XML ou leitura automática)
+  match_type text NOT NULL CHECK (match_type IN ('checksum', 'invoice_reference', 'receipt_data')),
+  same_requester boolean NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (document_id, duplicate_document_id)
+);
+
+CREATE INDEX document_duplicates_request_id_idx ON public.document_duplicates (request_id);
+CREATE INDEX documents_checksum_idx ON public.documents (checksum);
+
+ALTER TABLE public.document_duplicates ENABLE ROW LEVEL SECURITY;
+
+-- O alerta é para quem analisa; o solicitante não vê as solicitações de outros colaboradores
+CREATE POLICY "Gestoras can view duplicates from their polos" 
+ON public.document_duplicates 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
@@ -0,0 +1,165 @@
+-- Cadastro de dependentes por colaborador: substitui os pares nome/parentesco digitados a cada solicitação
+CREATE TYPE public.dependent_relationship AS ENUM ('filho', 'conjuge', 'pai', 'mae', 'irmao', 'outro');
+
+-- Dígitos verificadores do CPF; a mesma regra é aplicada no formulário
+CREATE OR REPLACE FUNCTION public.is_valid_cpf(cpf text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  digits int[];
+  total int;
+  check_digit int;
+BEGIN
+  IF cpf IS NULL OR cpf !~ '^\d{11}$' OR cpf ~ '^(\d)\1{10}$' THEN
+    RETURN false;
+  END IF;
+
+  digits := regexp_split_to_array(cpf, '')::int[];
+
+  FOR digit_count IN 9..10 LOOP
+    total := 0;
+    FOR i IN 1..digit_count LOOP
+      total := total + digits[i] * (digit_count + 2 - i);
+    END LOOP;
+    check_digit := (total * 10) % 11;
+    IF check_digit = 10 THEN
+      check_digit := 0;
+    END IF;
+    IF check_digit <> digits[digit_count + 1] THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+CREATE TABLE public.dependents (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) >= 2),
+  -- Somente dígitos
+  cpf text NOT NULL CHECK (public.is_valid_cpf(cpf)),
+  birthdate date NOT NULL,
+  relationship dependent_relationship NOT NULL,
+  -- Estende o limite de idade de filhos e irmãos (regras em _shared/dependents.ts)
+  is_student boolean NOT NULL DEFAULT false,
+  -- Dependentes não são apagados: solicitações antigas continuam apontando para o cadastro
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, cpf)
+);
+
+CREATE INDEX dependents_user_id_idx ON public.dependents (user_id);
+
+CREATE TRIGGER update_dependents_updated_at
+  BEFORE UPDATE ON public.dependents
+  FOR EACH ROW EXECUTE PROCEDURE public.update_updated_at_column();
+
+-- Gestoras enxergam os dependentes de quem tem solicitação nos polos que gerenciam
+CREATE OR REPLACE FUNCTION public.can_manage_dependent(user_auth_id uuid, target_dependent_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.dependents d
+    JOIN public.requests r ON r.user_id = d.user_id
+    WHERE d.id = target_dependent_id
+    AND public.can_manage_polo(user_auth_id, r.polo)
+  );
+$$;
+
+ALTER TABLE public.dependents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their dependents" 
+ON public.dependents 
+FOR SELECT 
+USING (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()));
+
+CREATE POLICY "Users can register dependents" 
+ON public.dependents 
+FOR INSERT 
+WITH CHECK (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()));
+
+CREATE POLICY "Users can update their dependents" 
+ON public.dependents 
+FOR UPDATE 
+USING (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()))
+WITH CHECK (user_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid()));
+
+CREATE POLICY "Gestoras can view dependents from their polos" 
+ON public.dependents 
+FOR SELECT 
+USING (public.can_manage_dependent(auth.uid(), id));
+
+-- Documentos comprobatórios (certidão, matrícula) usam o mesmo modelo e a mesma quarentena dos anexos
+ALTER TABLE public.documents 
+  ALTER COLUMN request_id DROP NOT NULL,
+  ADD COLUMN dependent_id uuid REFERENCES public.dependents(id) ON DELETE CASCADE,
+  ADD CONSTRAINT documents_owner_check CHECK (num_nonnulls(request_id, dependent_id) = 1),
+  DROP CONSTRAINT documents_category_check,
+  ADD CONSTRAINT documents_category_check CHECK (category IN ('comprovante', 'nota_fiscal', 'receita', 'laudo', 'outros', 'certidao', 'matricula', 'identidade'));
+
+CREATE INDEX documents_dependent_id_idx ON public.documents (dependent_id);
+
+CREATE POLICY "Users can view documents of their dependents" 
+ON public.documents 
+FOR SELECT 
+USING (
+  dependent_id IN (
+    SELECT d.id FROM public.dependents d
+    JOIN public.users u ON d.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can add documents to their dependents" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND scan_status = 'pending'
+  AND scanned_at IS NULL
+  AND invoice_data IS NULL
+  AND request_id IS NULL
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND dependent_id IN (
+    SELECT d.id FROM public.dependents d
+    JOIN public.users u ON d.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND d.active
+  )
+);
+
+CREATE POLICY "Gestoras can view dependent documents from their polos" 
+ON public.documents 
+FOR SELECT 
+USING (scan_status = 'clean' AND public.can_manage_dependent(auth.uid(), dependent_id));
+
+CREATE POLICY "Gestoras can view dependent documents from their polos" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'request-attachments' 
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.bucket = objects.bucket_id
+    AND d.path = objects.name
+    AND d.scan_status = 'clean'
+    AND public.can_manage_dependent(auth.uid(), d.dependent_id)
+  )
+);
+
+ALTER TABLE public.document_access_log 
+  ADD COLUMN dependent_id uuid REFERENCES public.dependents(id) ON DELETE SET NULL;
+
+-- Solicitações antigas mantêm os dependentes digitados; as novas guardam uma cópia do cadastro
+COMMENT ON COLUMN public.requests.dependents IS 'Cópia dos dependentes cadastrados no envio: [{"id": "...", "name": "...", "relationship": "filho", "birthdate": "2010-05-01", "is_student": false}]';
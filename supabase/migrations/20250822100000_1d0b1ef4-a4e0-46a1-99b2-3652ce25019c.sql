@@ -0,0 +1,2 @@
+-- Rascunho salvo automaticamente enquanto o solicitante preenche o formulário
+ALTER TYPE request_status ADD VALUE IF NOT EXISTS 'draft';
@@ -0,0 +1,93 @@
+-- Rascunhos de solicitação: gravados pela função request-drafts e promovidos a 'pending' por submit-request.
+-- Ficam visíveis apenas para o próprio solicitante.
+
+-- Um rascunho pode ter campos ainda vazios; o envio exige todos
+ALTER TABLE public.requests ALTER COLUMN type DROP NOT NULL;
+ALTER TABLE public.requests ALTER COLUMN description DROP NOT NULL;
+ALTER TABLE public.requests ALTER COLUMN amount DROP NOT NULL;
+
+ALTER TABLE public.requests 
+  ADD CONSTRAINT requests_draft_fields_check
+  CHECK (status = 'draft' OR (type IS NOT NULL AND description IS NOT NULL AND amount IS NOT NULL));
+
+CREATE INDEX requests_drafts_idx ON public.requests (user_id) WHERE status = 'draft';
+
+-- Gestoras e admins não enxergam rascunhos. A policy de UPDATE não volta: toda mudança
+-- de status ou valor passa pelas funções com service role
+DROP POLICY IF EXISTS "Gestoras can view requests from their polos" ON public.requests;
+DROP POLICY IF EXISTS "Gestoras can update requests from their polos" ON public.requests;
+
+CREATE POLICY "Gestoras can view requests from their polos" 
+ON public.requests 
+FOR SELECT 
+USING (status <> 'draft' AND public.can_manage_polo(auth.uid(), polo));
+
+-- Base das policies de documentos, comentários, rodadas e storage
+CREATE OR REPLACE FUNCTION public.can_manage_request(user_auth_id uuid, target_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.requests
+    WHERE id = target_request_id
+    AND status <> 'draft'
+    AND public.can_manage_polo(user_auth_id, polo)
+  );
+$$;
+
+-- Um rascunho não coloca os dependentes do solicitante no escopo da gestora
+CREATE OR REPLACE FUNCTION public.can_manage_dependent(user_auth_id uuid, target_dependent_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.dependents d
+    JOIN public.requests r ON r.user_id = d.user_id
+    WHERE d.id = target_dependent_id
+    AND r.status <> 'draft'
+    AND public.can_manage_polo(user_auth_id, r.polo)
+  );
+$$;
+
+-- Anexos de rascunhos também entram na detecção de duplicatas, mas o alerta
+-- só aponta para solicitações já enviadas
+DROP POLICY IF EXISTS "Gestoras can view duplicates from their polos" ON public.document_duplicates;
+
+CREATE POLICY "Gestoras can view duplicates from their polos" 
+ON public.document_duplicates 
+FOR SELECT 
+USING (
+  public.can_manage_request(auth.uid(), request_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE r.id = duplicate_request_id
+    AND r.status = 'draft'
+  )
+);
+
+-- Anexos enviados durante o preenchimento ficam no rascunho
+DROP POLICY IF EXISTS "Users can add documents to their open requests" ON public.documents;
+
+CREATE POLICY "Users can add documents to their open requests" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND scan_status = 'pending'
+  AND scanned_at IS NULL
+  AND invoice_data IS NULL
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND r.status IN ('draft'::request_status, 'pending'::request_status, 'info_requested'::request_status)
+  )
+);
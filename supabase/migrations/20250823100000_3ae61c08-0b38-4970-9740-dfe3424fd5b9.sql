@@ -0,0 +1,2 @@
+-- Solicitação retirada pelo próprio solicitante antes da análise
+ALTER TYPE request_status ADD VALUE IF NOT EXISTS 'cancelled';
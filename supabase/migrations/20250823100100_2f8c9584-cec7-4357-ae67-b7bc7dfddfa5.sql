@@ -0,0 +1,40 @@
+-- Edição e cancelamento pelo solicitante enquanto a solicitação está pendente e nenhuma gestora iniciou a análise.
+-- Não há policy de UPDATE para o solicitante: as duas ações passam pela função request-management,
+-- que confere o status, o valor pela política e se a análise já começou.
+ALTER TABLE public.requests 
+  ADD COLUMN cancelled_at timestamptz,
+  ADD COLUMN cancellation_reason text;
+
+-- Histórico campo a campo das alterações do solicitante (edição e reenvio após pedido de informações)
+CREATE TABLE public.request_changes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL,
+  changed_by uuid REFERENCES public.users(id) NOT NULL,
+  field text NOT NULL CHECK (field IN ('description', 'amount', 'documents')),
+  old_value jsonb,
+  new_value jsonb,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX request_changes_request_id_idx ON public.request_changes (request_id);
+
+COMMENT ON COLUMN public.request_changes.old_value IS 'Valor anterior; em documents, a lista de nomes de arquivo antes da alteração';
+
+ALTER TABLE public.request_changes ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pela função request-management (service role)
+CREATE POLICY "Users can view changes of their requests" 
+ON public.request_changes 
+FOR SELECT 
+USING (
+  request_id IN (
+    SELECT r.id FROM public.requests r
+    JOIN public.users u ON r.user_id = u.id
+    WHERE u.auth_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Gestoras can view changes from their polos" 
+ON public.request_changes 
+FOR SELECT 
+USING (public.can_manage_request(auth.uid(), request_id));
@@ -0,0 +1,74 @@
+-- Recurso contra solicitações recusadas: dentro do prazo da política, o solicitante envia uma
+-- justificativa e novos documentos; outra gestora do polo ou o comitê (administradores) decide.
+-- Envio e decisão passam pela função request-appeals, que registra o resultado em audit_logs.
+
+-- Prazo em dias corridos a partir da recusa; faz parte da versão da política
+ALTER TABLE public.reimbursement_policies
+  ADD COLUMN appeal_window_days integer NOT NULL DEFAULT 15 CHECK (appeal_window_days >= 0);
+
+CREATE OR REPLACE FUNCTION public.guard_reimbursement_policy_update()
+RETURNS trigger AS $$
+BEGIN
+  IF (new.name, new.request_type, new.polo, new.effective_from, new.percentage, new.floor, new.ceiling, new.dependent_multiplier, new.appeal_window_days)
+     IS DISTINCT FROM
+     (old.name, old.request_type, old.polo, old.effective_from, old.percentage, old.floor, old.ceiling, old.dependent_multiplier, old.appeal_window_days) THEN
+    RAISE EXCEPTION 'Policy versions are immutable; create a new version instead';
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Um recurso por solicitação; a decisão é definitiva
+CREATE TABLE public.request_appeals (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  request_id uuid REFERENCES public.requests(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  appellant_id uuid REFERENCES public.users(id) NOT NULL,
+  -- Quem recusou a solicitação; não pode decidir o recurso
+  original_decider_id uuid REFERENCES public.users(id),
+  justification text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'granted', 'denied')),
+  decided_by uuid REFERENCES public.users(id),
+  decided_at timestamptz,
+  decision_notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX request_appeals_pending_idx ON public.request_appeals (created_at) WHERE status = 'pending';
+
+ALTER TABLE public.request_appeals ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pela função request-appeals (service role)
+CREATE POLICY "Users can view appeals of their requests"
+ON public.request_appeals
+FOR SELECT
+USING (
+  appellant_id IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+);
+
+CREATE POLICY "Gestoras can view appeals from their polos"
+ON public.request_appeals
+FOR SELECT
+USING (public.can_manage_request(auth.uid(), request_id));
+
+-- Documentos novos enviados com o recurso continuam ligados à solicitação original
+ALTER TABLE public.documents
+  ADD COLUMN appeal_id uuid REFERENCES public.request_appeals(id) ON DELETE SET NULL;
+
+CREATE POLICY "Users can add documents to their pending appeals"
+ON public.documents
+FOR INSERT
+WITH CHECK (
+  bucket = 'request-attachments'
+  AND scan_status = 'pending'
+  AND scanned_at IS NULL
+  AND invoice_data IS NULL
+  AND uploaded_by IN (SELECT id FROM public.users WHERE auth_id = auth.uid())
+  AND (storage.foldername(path))[1] = auth.uid()::text
+  AND appeal_id IN (
+    SELECT a.id FROM public.request_appeals a
+    JOIN public.users u ON a.appellant_id = u.id
+    WHERE u.auth_id = auth.uid()
+    AND a.status = 'pending'
+    AND a.request_id = documents.request_id
+  )
+);
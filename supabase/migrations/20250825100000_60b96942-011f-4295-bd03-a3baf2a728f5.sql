@@ -0,0 +1,32 @@
+-- Transições de status válidas também no banco, para qualquer escrita em requests
+-- (inclusive com service role). Espelha allowedTransitions de request-management:
+-- rascunhos só são enviados, apenas solicitações pendentes são decididas e uma recusa
+-- só vira aprovação por um recurso deferido em request_appeals.
+CREATE OR REPLACE FUNCTION public.guard_request_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF new.status = old.status THEN
+    RETURN new;
+  END IF;
+
+  IF (old.status = 'draft' AND new.status = 'pending')
+     OR (old.status = 'pending' AND new.status IN ('approved', 'rejected', 'info_requested', 'cancelled'))
+     OR (old.status = 'info_requested' AND new.status = 'pending') THEN
+    RETURN new;
+  END IF;
+
+  IF old.status = 'rejected' AND new.status = 'approved' AND EXISTS (
+    SELECT 1 FROM public.request_appeals
+    WHERE request_id = new.id
+    AND status = 'granted'
+  ) THEN
+    RETURN new;
+  END IF;
+
+  RAISE EXCEPTION 'Invalid request status transition from % to %', old.status, new.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_request_status_transition
+  BEFORE UPDATE OF status ON public.requests
+  FOR EACH ROW EXECUTE PROCEDURE public.guard_request_status_transition();
@@ -0,0 +1,34 @@
+-- Salário cadastrado pelo RH: a política de reembolso usa este valor, não um salário digitado no formulário
+ALTER TABLE public.users
+  ADD COLUMN salary numeric(12,2) CHECK (salary IS NULL OR salary >= 0);
+
+COMMENT ON COLUMN public.users.salary IS 'Salário bruto mensal mantido pelos administradores; sem cadastro, vale apenas o piso da política';
+
+-- O usuário pode editar o próprio perfil, mas não o salário; só administradores (ou o service role) alteram
+CREATE OR REPLACE FUNCTION public.guard_user_salary_change()
+RETURNS trigger AS $$
+BEGIN
+  IF old.salary IS DISTINCT FROM new.salary THEN
+    IF auth.uid() IS NOT NULL AND NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can change user salaries'
+        USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.audit_logs (user_id, action, old_values, new_values)
+    VALUES (
+      (SELECT id FROM public.users WHERE auth_id = auth.uid()),
+      'salary_change',
+      jsonb_build_object('user_id', old.id, 'salary', old.salary),
+      jsonb_build_object('user_id', new.id, 'salary', new.salary)
+    );
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_user_salary_change
+  BEFORE UPDATE OF salary ON public.users
+  FOR EACH ROW EXECUTE PROCEDURE public.guard_user_salary_change();
+
+-- A coluna passa a guardar o salário cadastrado no momento do envio, gravado pela função submit-request
+COMMENT ON COLUMN public.requests.declared_salary IS 'Salário cadastrado do solicitante no envio, usado na avaliação da política';
@@ -11,9 +11,20 @@ export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
   ],
+  build: {
+    rollupOptions: {
+      output: {
+        // tesseract.js looks the language data up by file name, so it cannot be hashed
+        assetFileNames: (asset) =>
+          asset.name?.endsWith(".traineddata.gz") ? "ocr/[name][extname]" : "assets/[name]-[hash][extname]",
+      },
+    },
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules shared with the Supabase edge functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));